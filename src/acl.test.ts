@@ -0,0 +1,430 @@
+import { Response } from 'node-fetch';
+import { Quad } from 'rdf-js';
+import { fetchAcl, fetchEffectiveAcl } from './acl';
+import { ForbiddenError, NotFoundError, HttpError } from './errors';
+
+const mockResource = 'https://pod.com/container/resource.ttl';
+const mockContainer = 'https://pod.com/container/';
+const mockWebId = 'https://some-agent.com/profile#me';
+const mockOtherWebId = 'https://other-agent.com/profile#me';
+const mockGroup = 'https://pod.com/groups.ttl#friends';
+const mockAcls: { [url: string]: string } = {
+  [mockResource + '.acl']: `
+    @prefix acl: <http://www.w3.org/ns/auth/acl#>.
+    @prefix foaf: <http://xmlns.com/foaf/0.1/>.
+    <#owner> a acl:Authorization;
+      acl:agent <${mockWebId}>;
+      acl:accessTo <resource.ttl>;
+      acl:mode acl:Read, acl:Write, acl:Control.
+    <#shared> a acl:Authorization;
+      acl:agent <${mockWebId}>, <${mockOtherWebId}>;
+      acl:agentGroup <${mockGroup}>;
+      acl:accessTo <resource.ttl>;
+      acl:mode acl:Append.
+    <#public> a acl:Authorization;
+      acl:agentClass foaf:Agent;
+      acl:accessTo <resource.ttl>;
+      acl:mode acl:Read.
+  `,
+  [mockContainer + '.acl']: `
+    @prefix acl: <http://www.w3.org/ns/auth/acl#>.
+    <#authenticated> a acl:Authorization;
+      acl:agentClass acl:AuthenticatedAgent;
+      acl:accessTo <./>;
+      acl:default <./>;
+      acl:mode acl:Read, acl:Write.
+    <#owner> a acl:Authorization;
+      acl:agent <${mockWebId}>;
+      acl:accessTo <./>;
+      acl:mode acl:Control.
+  `,
+};
+
+function mockGetResponse(url: string) {
+  return Promise.resolve(
+    typeof mockAcls[url] === 'string'
+      ? new Response(mockAcls[url])
+      : new Response('Not found', { status: 404 }),
+  );
+}
+function mockHeadResponse(url: string) {
+  return Promise.resolve(new Response('', { headers: { Link: `<${url}.acl>; rel="acl"` } }));
+}
+let mockGetter: jest.Mock;
+let mockHeadResponder: jest.Mock;
+let mockUpdater: jest.Mock;
+let mockCreater: jest.Mock;
+jest.mock('./pod', () => {
+  mockGetter = jest.fn(mockGetResponse);
+  mockHeadResponder = jest.fn(mockHeadResponse);
+  mockUpdater = jest.fn(() => Promise.resolve(new Response()));
+  mockCreater = jest.fn(() => Promise.resolve(new Response()));
+  return {
+    get: mockGetter,
+    head: mockHeadResponder,
+    update: mockUpdater,
+    create: mockCreater,
+  };
+});
+
+function getObjects(triples: Quad[], predicate: string) {
+  return triples
+    .filter(triple => triple.predicate.value === 'http://www.w3.org/ns/auth/acl#' + predicate)
+    .map(triple => triple.object.value)
+    .sort();
+}
+
+describe('fetchAcl', () => {
+  it('should list the Authorizations in the ACL', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    expect(acl.asRef()).toBe(mockResource + '.acl');
+    expect(acl.getResourceRef()).toBe(mockResource);
+    expect(acl.getAuthorizations()).toEqual([
+      {
+        ref: mockResource + '.acl#owner',
+        modes: ['Read', 'Write', 'Control'],
+        agents: [mockWebId],
+        agentGroups: [],
+        public: false,
+        authenticated: false,
+        accessTo: [mockResource],
+        default: [],
+      },
+      {
+        ref: mockResource + '.acl#shared',
+        modes: ['Append'],
+        agents: [mockWebId, mockOtherWebId],
+        agentGroups: [mockGroup],
+        public: false,
+        authenticated: false,
+        accessTo: [mockResource],
+        default: [],
+      },
+      {
+        ref: mockResource + '.acl#public',
+        modes: ['Read'],
+        agents: [],
+        agentGroups: [],
+        public: true,
+        authenticated: false,
+        accessTo: [mockResource],
+        default: [],
+      },
+    ]);
+  });
+
+  it('should return an empty ACL if the Resource does not have one yet', async () => {
+    const acl = await fetchAcl('https://pod.com/resource-without-acl');
+
+    expect(acl.asRef()).toBe('https://pod.com/resource-without-acl.acl');
+    expect(acl.getAuthorizations()).toEqual([]);
+  });
+
+  it('should use the given fetch function', async () => {
+    const mockFetch = jest.fn();
+    await fetchAcl(mockResource, { fetch: mockFetch });
+
+    expect(mockHeadResponder.mock.calls[0][1]).toEqual({ fetch: mockFetch });
+    expect(mockGetter.mock.calls[0][1]).toEqual({ fetch: mockFetch });
+  });
+
+  it('should error when the Resource could not be found', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 404 })));
+
+    await expect(fetchAcl(mockResource)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should error when the Pod does not report an ACL for the Resource', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response()));
+
+    const error: HttpError = await fetchAcl(mockResource).catch(e => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.message).toBe(`Fetching the ACL failed: the Pod does not report an ACL for ${mockResource}.`);
+    expect(error.url).toBe(mockResource);
+    expect(error.method).toBe('HEAD');
+  });
+
+  it('should error when the ACL could not be fetched', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    await expect(fetchAcl(mockResource)).rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
+
+describe('getModes', () => {
+  it('should combine the access modes granted to the given target', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    expect(acl.getModes({ agent: mockWebId })).toEqual(['Read', 'Write', 'Append', 'Control']);
+    expect(acl.getModes({ agent: mockOtherWebId })).toEqual(['Append']);
+    expect(acl.getModes({ group: mockGroup })).toEqual(['Append']);
+    expect(acl.getModes({ public: true })).toEqual(['Read']);
+    expect(acl.getModes({ authenticated: true })).toEqual([]);
+  });
+
+  it('should distinguish between access to a Container and to its contents', async () => {
+    const acl = await fetchAcl(mockContainer);
+
+    expect(acl.getModes({ agent: mockWebId })).toEqual(['Control']);
+    expect(acl.getModes({ agent: mockWebId }, { default: true })).toEqual([]);
+    expect(acl.getModes({ authenticated: true }, { default: true })).toEqual(['Read', 'Write']);
+  });
+});
+
+describe('grant', () => {
+  it('should add an Authorization for the access modes the target did not have yet', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.grant({ agent: mockOtherWebId }, ['Read', 'Append']);
+
+    expect(acl.getModes({ agent: mockOtherWebId })).toEqual(['Read', 'Append']);
+    expect(acl.getAuthorizations()[3]).toEqual({
+      modes: ['Read'],
+      agents: [mockOtherWebId],
+      agentGroups: [],
+      public: false,
+      authenticated: false,
+      accessTo: [mockResource],
+      default: [],
+    });
+  });
+
+  it('should not add an Authorization if the target already had the given access modes', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.grant({ public: true }, ['Read']);
+
+    expect(acl.getAuthorizations().length).toBe(3);
+  });
+
+  it('should be able to grant access to the contents of a Container', async () => {
+    const acl = await fetchAcl(mockContainer);
+
+    acl.grant({ group: mockGroup }, ['Read'], { default: true });
+
+    expect(acl.getModes({ group: mockGroup }, { default: true })).toEqual(['Read']);
+    expect(acl.getModes({ group: mockGroup })).toEqual([]);
+  });
+});
+
+describe('revoke', () => {
+  it('should keep the access modes that were not revoked', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.revoke({ agent: mockWebId }, ['Write']);
+
+    expect(acl.getModes({ agent: mockWebId })).toEqual(['Read', 'Append', 'Control']);
+  });
+
+  it('should remove the Authorization if the target has no access modes left', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.revoke({ public: true }, ['Read', 'Write']);
+
+    expect(acl.getModes({ public: true })).toEqual([]);
+    expect(acl.getAuthorizations().length).toBe(2);
+  });
+
+  it('should not affect other targets sharing the same Authorization', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.revoke({ agent: mockOtherWebId }, ['Append']);
+    acl.revoke({ group: mockGroup }, ['Append']);
+
+    expect(acl.getModes({ agent: mockOtherWebId })).toEqual([]);
+    expect(acl.getModes({ group: mockGroup })).toEqual([]);
+    expect(acl.getModes({ agent: mockWebId })).toEqual(['Read', 'Write', 'Append', 'Control']);
+  });
+
+  it('should not affect access to the contents of a Container when revoking access to the Container', async () => {
+    const acl = await fetchAcl(mockContainer);
+
+    acl.revoke({ authenticated: true }, ['Write']);
+
+    expect(acl.getModes({ authenticated: true })).toEqual(['Read']);
+    expect(acl.getModes({ authenticated: true }, { default: true })).toEqual(['Read', 'Write']);
+  });
+
+  it('should be able to revoke access to the contents of a Container', async () => {
+    const acl = await fetchAcl(mockContainer);
+
+    acl.revoke({ authenticated: true }, ['Read', 'Write'], { default: true });
+
+    expect(acl.getModes({ authenticated: true }, { default: true })).toEqual([]);
+    expect(acl.getModes({ authenticated: true })).toEqual(['Read', 'Write']);
+  });
+
+  it('should not be affected by modifying the returned Authorizations', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.getAuthorizations()[2].modes.push('Control');
+
+    expect(acl.getModes({ public: true })).toEqual(['Read']);
+  });
+
+  it('should not do anything if the target did not have the given access modes', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.revoke({ public: true }, ['Control']);
+    acl.revoke({ authenticated: true }, ['Read']);
+
+    expect(acl.getAuthorizations().length).toBe(3);
+  });
+});
+
+describe('validate', () => {
+  it('should not report problems for valid ACLs', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    expect(acl.validate()).toEqual([]);
+  });
+
+  it('should report when nobody has Control access', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.revoke({ agent: mockWebId }, ['Control']);
+
+    expect(acl.validate())
+      .toEqual([`Nobody has Control access to <${mockResource}>, so nobody will be able to modify its ACL.`]);
+  });
+
+  it('should report Authorizations that do not grant anything', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(`
+      @prefix acl: <http://www.w3.org/ns/auth/acl#>.
+      <#empty> a acl:Authorization.
+    `)));
+    const acl = await fetchAcl(mockResource);
+    acl.grant({ agent: mockWebId }, ['Control']);
+    acl.grant({ agent: mockWebId }, []);
+
+    expect(acl.validate()).toEqual([
+      `Authorization <${mockResource}.acl#empty> does not grant any access modes.`,
+      `Authorization <${mockResource}.acl#empty> does not grant access to anyone.`,
+      `Authorization <${mockResource}.acl#empty> does not grant access to any Resource.`,
+    ]);
+  });
+});
+
+describe('save', () => {
+  it('should only replace the Authorizations that were modified', async () => {
+    const acl = await fetchAcl(mockResource);
+
+    acl.revoke({ agent: mockOtherWebId }, ['Append']);
+    const savedAcl = await acl.save();
+
+    expect(mockUpdater.mock.calls.length).toBe(1);
+    const [url, deletions, additions] = mockUpdater.mock.calls[0] as [string, Quad[], Quad[]];
+    expect(url).toBe(mockResource + '.acl');
+    expect(deletions.every(triple => triple.subject.value === mockResource + '.acl#shared')).toBe(true);
+    expect(getObjects(deletions, 'agent')).toEqual([mockOtherWebId, mockWebId].sort());
+    expect(getObjects(additions, 'agent')).toEqual([mockWebId]);
+    expect(getObjects(additions, 'agentGroup')).toEqual([mockGroup]);
+    expect(getObjects(additions, 'accessTo')).toEqual([mockResource]);
+    expect(getObjects(additions, 'mode')).toEqual(['http://www.w3.org/ns/auth/acl#Append']);
+    expect(savedAcl.getResourceRef()).toBe(mockResource);
+  });
+
+  it('should create the ACL if it did not exist yet', async () => {
+    const acl = await fetchAcl('https://pod.com/resource-without-acl');
+
+    acl.grant({ agent: mockWebId }, ['Read', 'Write', 'Control']);
+    acl.grant({ public: true }, ['Read']);
+    acl.grant({ authenticated: true }, ['Append'], { default: true });
+    await acl.save();
+
+    expect(mockCreater.mock.calls.length).toBe(1);
+    const [url, additions] = mockCreater.mock.calls[0] as [string, Quad[]];
+    expect(url).toBe('https://pod.com/resource-without-acl.acl');
+    expect(getObjects(additions, 'agentClass')).toEqual([
+      'http://www.w3.org/ns/auth/acl#AuthenticatedAgent',
+      'http://xmlns.com/foaf/0.1/Agent',
+    ]);
+    expect(getObjects(additions, 'default')).toEqual(['https://pod.com/resource-without-acl']);
+    expect(getObjects(additions, 'mode').length).toBe(5);
+  });
+
+  it('should not add new Authorizations again when saving a second time', async () => {
+    const acl = await fetchAcl(mockResource);
+    acl.grant({ agent: mockOtherWebId }, ['Read']);
+    const savedAcl = await acl.save();
+    await acl.save();
+
+    expect(savedAcl).toBe(acl);
+    const [, , secondAdditions] = mockUpdater.mock.calls[1] as [string, Quad[], Quad[]];
+    expect(secondAdditions).toEqual([]);
+    expect(acl.getModes({ agent: mockOtherWebId })).toEqual(['Read', 'Append']);
+    expect(acl.getAuthorizations().every(authorization => typeof authorization.ref === 'string')).toBe(true);
+  });
+
+  it('should update rather than re-create a newly created ACL when saving it again', async () => {
+    const acl = await fetchAcl('https://pod.com/resource-without-acl');
+    acl.grant({ agent: mockWebId }, ['Read', 'Write', 'Control']);
+    await acl.save();
+    acl.grant({ public: true }, ['Read']);
+    await acl.save();
+
+    expect(mockCreater.mock.calls.length).toBe(1);
+    expect(mockUpdater.mock.calls.length).toBe(1);
+    const [url, deletions, additions] = mockUpdater.mock.calls[0] as [string, Quad[], Quad[]];
+    expect(url).toBe('https://pod.com/resource-without-acl.acl');
+    expect(deletions).toEqual([]);
+    expect(getObjects(additions, 'agentClass')).toEqual(['http://xmlns.com/foaf/0.1/Agent']);
+  });
+
+  it('should not add new Authorizations twice when retrying after saving failed', async () => {
+    const acl = await fetchAcl(mockResource);
+    acl.grant({ agent: mockOtherWebId }, ['Read']);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('Server error', { status: 500 })));
+    await expect(acl.save()).rejects.toBeDefined();
+    await acl.save();
+
+    const [, , additions] = mockUpdater.mock.calls[1] as [string, Quad[], Quad[]];
+    expect(getObjects(additions, 'agent')).toEqual([mockOtherWebId]);
+  });
+});
+
+describe('fetchEffectiveAcl', () => {
+  it('should return the ACL of the Resource if it has one', async () => {
+    const effectiveAcl = await fetchEffectiveAcl(mockResource);
+
+    expect(effectiveAcl.isInherited).toBe(false);
+    expect(effectiveAcl.acl.asRef()).toBe(mockResource + '.acl');
+    expect(effectiveAcl.authorizations.length).toBe(3);
+  });
+
+  it('should return the ACL of the nearest Container with an ACL otherwise', async () => {
+    const mockFetch = jest.fn();
+    const effectiveAcl = await fetchEffectiveAcl(mockContainer + 'child-container/resource', { fetch: mockFetch });
+
+    expect(mockHeadResponder.mock.calls.map(call => call[0])).toEqual([
+      mockContainer + 'child-container/resource',
+      mockContainer + 'child-container/',
+      mockContainer,
+    ]);
+    expect(mockGetter.mock.calls.every(call => call[1].fetch === mockFetch)).toBe(true);
+    expect(effectiveAcl.isInherited).toBe(true);
+    expect(effectiveAcl.acl.getResourceRef()).toBe(mockContainer);
+    // Only the default Authorizations apply:
+    expect(effectiveAcl.authorizations.map(authorization => authorization.ref))
+      .toEqual([mockContainer + '.acl#authenticated']);
+  });
+
+  it('should error if no ACL could be found', async () => {
+    const error: NotFoundError = await fetchEffectiveAcl('https://other-pod.com/container/resource').catch(e => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('No ACL could be found that applies to https://other-pod.com/container/resource.');
+    expect(error.url).toBe('https://other-pod.com/.acl');
+    expect(mockHeadResponder.mock.calls.map(call => call[0])).toEqual([
+      'https://other-pod.com/container/resource',
+      'https://other-pod.com/container/',
+      'https://other-pod.com/',
+    ]);
+  });
+
+  it('should error if an ACL could not be fetched', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    await expect(fetchEffectiveAcl(mockResource)).rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
@@ -0,0 +1,511 @@
+import { Reference } from '.';
+import { head, RequestOptions } from './pod';
+import {
+  TripleDocument,
+  LocalTripleDocumentWithRef,
+  fetchDocument,
+  createDocument,
+  extractAclRef,
+  isSavedToPod,
+} from './document';
+import { TripleSubject } from './subject';
+import { createHttpError, HttpError, NotFoundError } from './errors';
+
+const rdfType = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const acl = {
+  Authorization: 'http://www.w3.org/ns/auth/acl#Authorization',
+  AuthenticatedAgent: 'http://www.w3.org/ns/auth/acl#AuthenticatedAgent',
+  accessTo: 'http://www.w3.org/ns/auth/acl#accessTo',
+  default: 'http://www.w3.org/ns/auth/acl#default',
+  agent: 'http://www.w3.org/ns/auth/acl#agent',
+  agentGroup: 'http://www.w3.org/ns/auth/acl#agentGroup',
+  agentClass: 'http://www.w3.org/ns/auth/acl#agentClass',
+  mode: 'http://www.w3.org/ns/auth/acl#mode',
+};
+const foafAgent = 'http://xmlns.com/foaf/0.1/Agent';
+const accessModes: AccessMode[] = ['Read', 'Write', 'Append', 'Control'];
+
+/**
+ * The kinds of access that can be granted to a Resource.
+ *
+ * - `Read`: view the Resource's contents.
+ * - `Write`: modify or delete the Resource.
+ * - `Append`: add data to the Resource, but not remove any.
+ * - `Control`: view and modify the Resource's ACL.
+ */
+export type AccessMode = 'Read' | 'Write' | 'Append' | 'Control';
+
+/**
+ * Who access can be granted to: a specific agent (identified by their WebID), the members of a
+ * group (identified by the URL of a `vcard:Group`), everyone (`public`), or everyone who is logged
+ * in (`authenticated`).
+ */
+export type AclTarget =
+  { agent: Reference } |
+  { group: Reference } |
+  { public: true } |
+  { authenticated: true };
+
+/**
+ * A rule in an ACL, granting access to one or more Resources.
+ */
+export interface Authorization {
+  /**
+   * The URL of this Authorization in the ACL, if it has been saved to the Pod.
+   */
+  ref?: Reference;
+  /**
+   * The kinds of access this Authorization grants.
+   */
+  modes: AccessMode[];
+  /**
+   * WebIDs of the agents this Authorization grants access to.
+   */
+  agents: Reference[];
+  /**
+   * URLs of the groups whose members this Authorization grants access to.
+   */
+  agentGroups: Reference[];
+  /**
+   * Whether this Authorization grants access to everyone.
+   */
+  public: boolean;
+  /**
+   * Whether this Authorization grants access to everyone who is logged in.
+   */
+  authenticated: boolean;
+  /**
+   * URLs of the Resources this Authorization grants access to.
+   */
+  accessTo: Reference[];
+  /**
+   * URLs of the Containers whose contents this Authorization grants access to, if they do not have
+   * an ACL of their own.
+   */
+  default: Reference[];
+};
+
+/**
+ * @ignore This is documented on use.
+ */
+export interface AclScopeOptions {
+  default?: boolean;
+};
+
+/**
+ * Local representation of the ACL of a Resource on a Pod, listing who has which kind of access to it.
+ *
+ * Changes made using [[grant]] and [[revoke]] are reflected in [[getAuthorizations]] immediately,
+ * but are not applied to the Pod until you call [[save]].
+ */
+export interface TripleAcl {
+  /**
+   * @returns The URL of this ACL.
+   */
+  asRef: () => Reference;
+  /**
+   * @returns The URL of the Resource whose access is controlled by this ACL.
+   */
+  getResourceRef: () => Reference;
+  /**
+   * @returns Every Authorization in this ACL, including those that apply to other Resources.
+   */
+  getAuthorizations: () => Authorization[];
+  /**
+   * Get the access modes granted explicitly to a specific target.
+   *
+   * Note that this does not include access granted to a wider audience: for example, when passing
+   * an agent, access granted to everyone or to groups the agent is a member of is not included.
+   *
+   * @param getModes.target Who to get the access modes for.
+   * @param getModes.options If `options.default` is `true`, the access modes granted to the
+   *                         contents of this Resource (which should be a Container) are returned.
+   * @returns The access modes `target` has to this Resource.
+   */
+  getModes: (target: AclTarget, options?: AclScopeOptions) => AccessMode[];
+  /**
+   * Grant additional access to this Resource.
+   *
+   * @param grant.target Who to grant access to.
+   * @param grant.modes The kinds of access to grant.
+   * @param grant.options If `options.default` is `true`, access will be granted to the contents of
+   *                      this Resource (which should be a Container) instead, unless they have an
+   *                      ACL of their own.
+   */
+  grant: (target: AclTarget, modes: AccessMode[], options?: AclScopeOptions) => void;
+  /**
+   * Revoke access to this Resource.
+   *
+   * Note that this only revokes access granted explicitly to `target`; if access was granted to a
+   * wider audience, e.g. everyone, `target` will still have it.
+   *
+   * @param revoke.target Who to revoke access from.
+   * @param revoke.modes The kinds of access to revoke.
+   * @param revoke.options If `options.default` is `true`, access will be revoked from the contents
+   *                       of this Resource (which should be a Container) instead.
+   */
+  revoke: (target: AclTarget, modes: AccessMode[], options?: AclScopeOptions) => void;
+  /**
+   * Check this ACL for mistakes that are likely to cause problems.
+   *
+   * @returns A description of every problem that was found; an empty array if none were found.
+   */
+  validate: () => string[];
+  /**
+   * Persist the changes made to this ACL to the Pod.
+   *
+   * @return This ACL, updated to reflect its contents as saved to the Pod.
+   */
+  save: () => Promise<TripleAcl>;
+};
+
+/**
+ * The ACL that determines who has access to a Resource.
+ *
+ * If the Resource does not have an ACL of its own, this is the ACL of the nearest Container it is
+ * in that does.
+ */
+export interface EffectiveAcl {
+  /**
+   * The ACL that determines who has access to the Resource.
+   */
+  acl: TripleAcl;
+  /**
+   * Whether [[acl]] is the ACL of a Container the Resource is in, rather than of the Resource itself.
+   */
+  isInherited: boolean;
+  /**
+   * The Authorizations in [[acl]] that apply to the Resource.
+   */
+  authorizations: Authorization[];
+};
+
+/**
+ * Retrieve the ACL of a Resource
+ *
+ * If the Resource does not have an ACL yet, this returns an empty ACL that will be created when
+ * you call [[TripleAcl.save]]. Note that in that case, the Resource will no longer inherit its
+ * Container's Authorizations, so make sure to grant yourself `Control` access to it.
+ *
+ * @param resourceRef URL of the Resource whose ACL should be fetched.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to fetch the ACL, and to send requests
+ *                  when it is saved.
+ * @returns Representation of the ACL of the Resource at `resourceRef`.
+ */
+export async function fetchAcl(resourceRef: Reference, options: RequestOptions = {}): Promise<TripleAcl> {
+  const aclRef = await getAclRef(resourceRef, options);
+  try {
+    const aclDocument = await fetchDocument(aclRef, { fetch: options.fetch });
+    return instantiateAcl(aclDocument, resourceRef);
+  } catch (e) {
+    if (!(e instanceof NotFoundError)) {
+      throw e;
+    }
+    return instantiateAcl(createDocument(aclRef, { fetch: options.fetch }), resourceRef);
+  }
+}
+
+/**
+ * Find out which ACL determines who has access to a Resource
+ *
+ * If the Resource does not have an ACL of its own, the Containers it is in are checked one by one,
+ * until one is found that does have an ACL. Its default Authorizations then apply to the Resource.
+ * If none of them has an ACL, this rejects with a [[NotFoundError]].
+ *
+ * @param resourceRef URL of the Resource to find the effective ACL for.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to send the requests.
+ * @returns The ACL that applies to the Resource at `resourceRef`.
+ */
+export async function fetchEffectiveAcl(resourceRef: Reference, options: RequestOptions = {}): Promise<EffectiveAcl> {
+  let currentRef: Reference | null = resourceRef;
+  let lastError: NotFoundError | null = null;
+  while (currentRef !== null) {
+    const aclRef = await getAclRef(currentRef, options);
+    try {
+      const aclDocument = await fetchDocument(aclRef, { fetch: options.fetch });
+      const currentAcl = instantiateAcl(aclDocument, currentRef);
+      const isInherited = currentRef !== resourceRef;
+      const scope = isInherited ? 'default' : 'accessTo';
+      return {
+        acl: currentAcl,
+        isInherited: isInherited,
+        authorizations: currentAcl.getAuthorizations()
+          .filter(authorization => authorization[scope].indexOf(currentAcl.getResourceRef()) !== -1),
+      };
+    } catch (e) {
+      if (!(e instanceof NotFoundError)) {
+        throw e;
+      }
+      lastError = e;
+    }
+    currentRef = getParentContainerRef(currentRef);
+  }
+  // The root Container is always checked, so `lastError` is set if no ACL was found:
+  throw new NotFoundError(`No ACL could be found that applies to ${resourceRef}.`, lastError!);
+}
+
+async function getAclRef(resourceRef: Reference, options: RequestOptions): Promise<Reference> {
+  const response = await head(resourceRef, { fetch: options.fetch });
+  if (!response.ok) {
+    throw await createHttpError('Fetching the ACL', response, { url: resourceRef, method: 'HEAD' });
+  }
+  const aclRef = extractAclRef(response, resourceRef);
+  if (!aclRef) {
+    throw new HttpError(
+      `Fetching the ACL failed: the Pod does not report an ACL for ${resourceRef}.`,
+      { status: response.status, url: resourceRef, method: 'HEAD', responseBody: await response.text() },
+    );
+  }
+  return aclRef;
+}
+
+function getParentContainerRef(resourceRef: Reference): Reference | null {
+  const url = new URL(resourceRef);
+  if (url.pathname === '/') {
+    return null;
+  }
+  return new URL((url.pathname.substring(url.pathname.length - 1) === '/') ? '..' : '.', url.href).href;
+}
+
+interface AuthorizationEntry {
+  /**
+   * The Subject this Authorization was read from, if it has not been modified since.
+   */
+  subject?: TripleSubject;
+  authorization: Authorization;
+};
+
+/**
+ * @internal
+ */
+export function instantiateAcl(
+  initialAclDocument: TripleDocument | LocalTripleDocumentWithRef,
+  resourceRef: Reference,
+): TripleAcl {
+  let aclDocument = initialAclDocument;
+  let entries = readEntries(aclDocument);
+  const removedSubjects: TripleSubject[] = [];
+
+  const getAuthorizations = () => entries.map(entry => ({
+    ...entry.authorization,
+    modes: entry.authorization.modes.slice(),
+    agents: entry.authorization.agents.slice(),
+    agentGroups: entry.authorization.agentGroups.slice(),
+    accessTo: entry.authorization.accessTo.slice(),
+    default: entry.authorization.default.slice(),
+  }));
+
+  const getModes = (target: AclTarget, options: AclScopeOptions = {}) => {
+    const scope = getScope(options);
+    const grantedModes = entries
+      .filter(entry => appliesTo(entry.authorization, target))
+      .filter(entry => entry.authorization[scope].indexOf(resourceRef) !== -1)
+      .reduce<AccessMode[]>((modesSoFar, entry) => modesSoFar.concat(entry.authorization.modes), []);
+    return accessModes.filter(mode => grantedModes.indexOf(mode) !== -1);
+  };
+
+  const grant = (target: AclTarget, modes: AccessMode[], options: AclScopeOptions = {}) => {
+    const grantedModes = getModes(target, options);
+    const missingModes = accessModes
+      .filter(mode => modes.indexOf(mode) !== -1 && grantedModes.indexOf(mode) === -1);
+    if (missingModes.length === 0) {
+      return;
+    }
+    entries.push({
+      authorization: getAuthorizationFor(target, missingModes, getScope(options), resourceRef),
+    });
+  };
+
+  const revoke = (target: AclTarget, modes: AccessMode[], options: AclScopeOptions = {}) => {
+    const scope = getScope(options);
+    const otherScope = (scope === 'default') ? 'accessTo' : 'default';
+    const affectedEntries = entries.filter(entry =>
+      appliesTo(entry.authorization, target) &&
+      entry.authorization[scope].indexOf(resourceRef) !== -1 &&
+      entry.authorization.modes.some(mode => modes.indexOf(mode) !== -1)
+    );
+
+    // Authorizations can be shared by multiple targets and Resources, so rather than modifying
+    // them, they are replaced by Authorizations that grant everything but the revoked access:
+    affectedEntries.forEach((entry) => {
+      const authorization = entry.authorization;
+      entries = entries.filter(otherEntry => otherEntry !== entry);
+      if (entry.subject) {
+        removedSubjects.push(entry.subject);
+      }
+
+      const forOtherTargets = withoutTarget(authorization, target);
+      if (hasTargets(forOtherTargets)) {
+        entries.push({ authorization: forOtherTargets });
+      }
+      const otherResources = authorization[scope].filter(ref => ref !== resourceRef);
+      if (otherResources.length > 0 || authorization[otherScope].length > 0) {
+        entries.push({ authorization: {
+          ...getAuthorizationFor(target, authorization.modes, scope, resourceRef),
+          [scope]: otherResources,
+          [otherScope]: authorization[otherScope],
+        } });
+      }
+      const remainingModes = authorization.modes.filter(mode => modes.indexOf(mode) === -1);
+      if (remainingModes.length > 0) {
+        entries.push({ authorization: getAuthorizationFor(target, remainingModes, scope, resourceRef) });
+      }
+    });
+  };
+
+  const validate = () => {
+    const problems: string[] = [];
+    // Authorizations added by `grant` and `revoke` are valid by construction, so only the ones
+    // read from the Pod have to be checked:
+    entries.forEach(({ subject, authorization }) => {
+      if (!subject) {
+        return;
+      }
+      const description = `Authorization <${subject.asRef()}>`;
+      if (authorization.modes.length === 0) {
+        problems.push(`${description} does not grant any access modes.`);
+      }
+      if (!hasTargets(authorization)) {
+        problems.push(`${description} does not grant access to anyone.`);
+      }
+      if (authorization.accessTo.length === 0 && authorization.default.length === 0) {
+        problems.push(`${description} does not grant access to any Resource.`);
+      }
+    });
+    const grantsControl = entries.some(({ authorization }) =>
+      authorization.accessTo.indexOf(resourceRef) !== -1 && authorization.modes.indexOf('Control') !== -1
+    );
+    if (!grantsControl) {
+      problems.push(`Nobody has Control access to <${resourceRef}>, so nobody will be able to modify its ACL.`);
+    }
+    return problems;
+  };
+
+  const save = async () => {
+    removedSubjects.forEach(subject => subject.clear());
+    // New Authorizations are linked to the Subjects they are written to, so that they are not
+    // written again if this is called another time, e.g. to retry after saving failed:
+    entries.forEach((entry) => {
+      if (typeof entry.subject === 'undefined') {
+        entry.subject = aclDocument.addSubject();
+        writeAuthorization(entry.subject, entry.authorization);
+      }
+    });
+    const savedDocument = await aclDocument.save();
+    aclDocument = savedDocument;
+    entries = readEntries(savedDocument);
+    removedSubjects.length = 0;
+    return tripleAcl;
+  };
+
+  const tripleAcl: TripleAcl = {
+    asRef: () => aclDocument.asRef(),
+    getResourceRef: () => resourceRef,
+    getAuthorizations: getAuthorizations,
+    getModes: getModes,
+    grant: grant,
+    revoke: revoke,
+    validate: validate,
+    save: save,
+  };
+  return tripleAcl;
+}
+
+function readEntries(aclDocument: TripleDocument | LocalTripleDocumentWithRef): AuthorizationEntry[] {
+  return isSavedToPod(aclDocument)
+    ? aclDocument.getAllSubjectsOfType(acl.Authorization).map(subject => ({
+      subject: subject,
+      authorization: readAuthorization(subject),
+    }))
+    : [];
+}
+
+function getScope(options: AclScopeOptions): 'default' | 'accessTo' {
+  return options.default ? 'default' : 'accessTo';
+}
+
+function readAuthorization(subject: TripleSubject): Authorization {
+  const agentClasses = subject.getAllRefs(acl.agentClass);
+  return {
+    ref: subject.asRef(),
+    modes: accessModes.filter(mode => subject.getAllRefs(acl.mode).indexOf(getModeRef(mode)) !== -1),
+    agents: subject.getAllRefs(acl.agent),
+    agentGroups: subject.getAllRefs(acl.agentGroup),
+    public: agentClasses.indexOf(foafAgent) !== -1,
+    authenticated: agentClasses.indexOf(acl.AuthenticatedAgent) !== -1,
+    accessTo: subject.getAllRefs(acl.accessTo),
+    default: subject.getAllRefs(acl.default),
+  };
+}
+
+function writeAuthorization(subject: TripleSubject, authorization: Authorization) {
+  subject.addRef(rdfType, acl.Authorization);
+  authorization.modes.forEach(mode => subject.addRef(acl.mode, getModeRef(mode)));
+  authorization.agents.forEach(agent => subject.addRef(acl.agent, agent));
+  authorization.agentGroups.forEach(group => subject.addRef(acl.agentGroup, group));
+  if (authorization.public) {
+    subject.addRef(acl.agentClass, foafAgent);
+  }
+  if (authorization.authenticated) {
+    subject.addRef(acl.agentClass, acl.AuthenticatedAgent);
+  }
+  authorization.accessTo.forEach(ref => subject.addRef(acl.accessTo, ref));
+  authorization.default.forEach(ref => subject.addRef(acl.default, ref));
+}
+
+function getModeRef(mode: AccessMode): Reference {
+  return 'http://www.w3.org/ns/auth/acl#' + mode;
+}
+
+function getAuthorizationFor(
+  target: AclTarget,
+  modes: AccessMode[],
+  scope: 'default' | 'accessTo',
+  resourceRef: Reference,
+): Authorization {
+  return {
+    modes: modes,
+    agents: ('agent' in target) ? [target.agent] : [],
+    agentGroups: ('group' in target) ? [target.group] : [],
+    public: 'public' in target,
+    authenticated: 'authenticated' in target,
+    accessTo: (scope === 'accessTo') ? [resourceRef] : [],
+    default: (scope === 'default') ? [resourceRef] : [],
+  };
+}
+
+function appliesTo(authorization: Authorization, target: AclTarget): boolean {
+  if ('agent' in target) {
+    return authorization.agents.indexOf(target.agent) !== -1;
+  }
+  if ('group' in target) {
+    return authorization.agentGroups.indexOf(target.group) !== -1;
+  }
+  if ('public' in target) {
+    return authorization.public;
+  }
+  return authorization.authenticated;
+}
+
+function hasTargets(authorization: Authorization): boolean {
+  return authorization.agents.length > 0 ||
+    authorization.agentGroups.length > 0 ||
+    authorization.public ||
+    authorization.authenticated;
+}
+
+function withoutTarget(authorization: Authorization, target: AclTarget): Authorization {
+  return {
+    modes: authorization.modes,
+    agents: authorization.agents.filter(agent => !('agent' in target) || agent !== target.agent),
+    agentGroups: authorization.agentGroups.filter(group => !('group' in target) || group !== target.group),
+    public: authorization.public && !('public' in target),
+    authenticated: authorization.authenticated && !('authenticated' in target),
+    accessTo: authorization.accessTo,
+    default: authorization.default,
+  };
+}
@@ -0,0 +1,484 @@
+import { Response } from 'node-fetch';
+import {
+  fetchContainer,
+  walkContainer,
+  WalkedChild,
+  createContainer,
+  createContainerInContainer,
+  ensureContainerPath,
+  deleteContainer,
+  moveContainer,
+} from './container';
+import { NotFoundError, ForbiddenError, PreconditionFailedError, HttpError } from './errors';
+
+const mockContainer = 'https://pod.com/container/';
+const mockTurtle: { [url: string]: string } = {
+  [mockContainer]: `
+    @prefix ldp: <http://www.w3.org/ns/ldp#>.
+    <> a ldp:Container, ldp:BasicContainer;
+      ldp:contains <child-container/>, <document.ttl>, <untyped-container/>, <untyped-document>.
+    <child-container/> a ldp:BasicContainer, ldp:Container.
+    <document.ttl> a ldp:Resource.
+  `,
+  [mockContainer + 'child-container/']: `
+    @prefix ldp: <http://www.w3.org/ns/ldp#>.
+    <> ldp:contains <grandchild-container/>, <other-document.ttl>.
+  `,
+  [mockContainer + 'untyped-container/']: `
+    @prefix ldp: <http://www.w3.org/ns/ldp#>.
+    <> ldp:contains <nested-document.ttl>.
+  `,
+  [mockContainer + 'child-container/grandchild-container/']: '',
+};
+
+function mockGetResponse(url: string) {
+  return Promise.resolve(
+    typeof mockTurtle[url] === 'string'
+      ? new Response(mockTurtle[url])
+      : new Response('Not found', { status: 404 }),
+  );
+}
+let mockGetter: jest.Mock;
+let mockHeadResponder: jest.Mock;
+let mockRawGetter: jest.Mock;
+let mockRawCreater: jest.Mock;
+let mockDeleter: jest.Mock;
+let mockContainerCreater: jest.Mock;
+let mockContainerInContainerCreater: jest.Mock;
+jest.mock('./pod', () => {
+  mockGetter = jest.fn(mockGetResponse);
+  mockHeadResponder = jest.fn(() => Promise.resolve(new Response()));
+  mockRawGetter = jest.fn((url: string) => Promise.resolve(
+    new Response(`Contents of ${url}`, { headers: { 'Content-Type': 'text/plain' } }),
+  ));
+  mockRawCreater = jest.fn(() => Promise.resolve(new Response('', { status: 201 })));
+  mockDeleter = jest.fn(() => Promise.resolve(new Response()));
+  mockContainerCreater = jest.fn(() => Promise.resolve(new Response('', { status: 201 })));
+  mockContainerInContainerCreater = jest.fn(() => Promise.resolve(new Response('', {
+    status: 201,
+    headers: { Location: '/container/new-container' },
+  })));
+  return {
+    get: mockGetter,
+    head: mockHeadResponder,
+    getRaw: mockRawGetter,
+    createRaw: mockRawCreater,
+    remove: mockDeleter,
+    createContainer: mockContainerCreater,
+    createContainerInContainer: mockContainerInContainerCreater,
+  };
+});
+
+async function walkAll(iterator: AsyncIterableIterator<WalkedChild>) {
+  const children: WalkedChild[] = [];
+  for await (const child of iterator) {
+    children.push(child);
+  }
+  return children;
+}
+
+describe('fetchContainer', () => {
+  it('should list the Resources in the Container', async () => {
+    const container = await fetchContainer(mockContainer);
+
+    expect(container.asRef()).toBe(mockContainer);
+    expect(container.getChildren()).toEqual([
+      { ref: mockContainer + 'child-container/', isContainer: true },
+      { ref: mockContainer + 'document.ttl', isContainer: false },
+      { ref: mockContainer + 'untyped-container/', isContainer: true },
+      { ref: mockContainer + 'untyped-document', isContainer: false },
+    ]);
+  });
+
+  it('should provide access to the Container as a Document', async () => {
+    const container = await fetchContainer(mockContainer);
+
+    expect(container.getDocument().asRef()).toBe(mockContainer);
+    expect(container.getDocument().getSubject(mockContainer).getType())
+      .toBe('http://www.w3.org/ns/ldp#Container');
+  });
+
+  it('should use the given fetch function', async () => {
+    const mockFetch = jest.fn();
+    await fetchContainer(mockContainer, { fetch: mockFetch });
+
+    expect(mockGetter.mock.calls[0][1]).toEqual({ fetch: mockFetch });
+  });
+
+  it('should error when the Container could not be fetched', async () => {
+    await expect(fetchContainer('https://pod.com/does-not-exist/')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('walkContainer', () => {
+  it('should list every Resource in the Container tree, Container by Container', async () => {
+    const children = await walkAll(walkContainer(mockContainer));
+
+    expect(children).toEqual([
+      { ref: mockContainer + 'child-container/', isContainer: true, depth: 1 },
+      { ref: mockContainer + 'document.ttl', isContainer: false, depth: 1 },
+      { ref: mockContainer + 'untyped-container/', isContainer: true, depth: 1 },
+      { ref: mockContainer + 'untyped-document', isContainer: false, depth: 1 },
+      { ref: mockContainer + 'child-container/grandchild-container/', isContainer: true, depth: 2 },
+      { ref: mockContainer + 'child-container/other-document.ttl', isContainer: false, depth: 2 },
+      { ref: mockContainer + 'untyped-container/nested-document.ttl', isContainer: false, depth: 2 },
+    ]);
+  });
+
+  it('should not descend deeper than the given maximum depth', async () => {
+    const children = await walkAll(walkContainer(mockContainer, { maxDepth: 1 }));
+
+    expect(children.map(child => child.depth)).toEqual([1, 1, 1, 1]);
+    expect(mockGetter.mock.calls.length).toBe(1);
+  });
+
+  it('should not fetch more Containers at the same time than allowed', async () => {
+    let fetchesInProgress = 0;
+    let maxFetchesInProgress = 0;
+    mockGetter.mockImplementation((url: string) => {
+      fetchesInProgress++;
+      maxFetchesInProgress = Math.max(maxFetchesInProgress, fetchesInProgress);
+      return new Promise(resolve => setTimeout(resolve, 10))
+        .then(() => {
+          fetchesInProgress--;
+          return mockGetResponse(url);
+        });
+    });
+
+    const children = await walkAll(walkContainer(mockContainer, { concurrency: 1 }));
+    expect(children.length).toBe(7);
+    expect(maxFetchesInProgress).toBe(1);
+
+    maxFetchesInProgress = 0;
+    const childrenWithDefaultConcurrency = await walkAll(walkContainer(mockContainer));
+    expect(childrenWithDefaultConcurrency.length).toBe(7);
+    // Both child Containers can be fetched at the same time:
+    expect(maxFetchesInProgress).toBe(2);
+
+    mockGetter.mockImplementation(mockGetResponse);
+  });
+
+  it('should use the given fetch function', async () => {
+    const mockFetch = jest.fn();
+    await walkAll(walkContainer(mockContainer, { fetch: mockFetch, maxDepth: 1 }));
+
+    expect(mockGetter.mock.calls[0][1]).toEqual({ fetch: mockFetch });
+  });
+
+  it('should reject when a Container could not be fetched', async () => {
+    const iterator = walkContainer('https://pod.com/does-not-exist/');
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(NotFoundError);
+    await expect(iterator.next()).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should stop fetching Containers when the caller stops iterating', async () => {
+    const children: WalkedChild[] = [];
+    for await (const child of walkContainer(mockContainer, { concurrency: 1 })) {
+      children.push(child);
+      break;
+    }
+
+    expect(children.length).toBe(1);
+    expect(mockGetter.mock.calls.length).toBe(1);
+  });
+
+  it('should not yield any more Resources once the caller has stopped iterating', async () => {
+    const iterator = walkContainer(mockContainer);
+    await iterator.next();
+    await iterator.return!();
+
+    await expect(iterator.next()).resolves.toEqual({ done: true, value: undefined });
+  });
+
+  it('should ignore Containers that finish fetching after the caller has stopped iterating', async () => {
+    const iterator = walkContainer(mockContainer);
+    const pendingResult = iterator.next();
+    await iterator.return!();
+
+    await expect(pendingResult).resolves.toEqual({ done: true, value: undefined });
+  });
+
+  it('should not reject when a fetch fails after the caller has stopped iterating', async () => {
+    let rejectFetch: (error: Error) => void = () => undefined;
+    const iterator = walkContainer(mockContainer);
+    // The Resources directly inside the Container:
+    for (let i = 0; i < 4; i++) {
+      await iterator.next();
+    }
+    mockGetter.mockReturnValueOnce(new Promise((_resolve, reject) => { rejectFetch = reject; }));
+    // Fetches the child Containers, the first of which does not finish until after stopping:
+    const pendingResult = iterator.next();
+    await iterator.return!();
+    rejectFetch(new Error('Some error'));
+
+    await expect(pendingResult).resolves.toEqual({ done: true, value: undefined });
+    await expect(iterator.next()).resolves.toEqual({ done: true, value: undefined });
+  });
+
+  it('should reject with the first error when multiple Containers could not be fetched', async () => {
+    const iterator = walkContainer(mockContainer);
+    // The Resources directly inside the Container:
+    for (let i = 0; i < 4; i++) {
+      await iterator.next();
+    }
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Forbidden', { status: 403 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Not found', { status: 404 })));
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(iterator.next()).rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
+
+describe('createContainer', () => {
+  it('should create the Container at the given URL', async () => {
+    const containerRef = await createContainer(mockContainer + 'new-container/');
+
+    expect(containerRef).toBe(mockContainer + 'new-container/');
+    expect(mockContainerCreater.mock.calls.length).toBe(1);
+    expect(mockContainerCreater.mock.calls[0][0]).toBe(mockContainer + 'new-container/');
+  });
+
+  it('should add a trailing slash if missing', async () => {
+    const mockFetch = jest.fn();
+    const containerRef = await createContainer(mockContainer + 'new-container', { fetch: mockFetch });
+
+    expect(containerRef).toBe(mockContainer + 'new-container/');
+    expect(mockContainerCreater.mock.calls[0][0]).toBe(mockContainer + 'new-container/');
+    expect(mockContainerCreater.mock.calls[0][1]).toEqual({ fetch: mockFetch });
+  });
+
+  it('should error when the Container could not be created', async () => {
+    mockContainerCreater.mockReturnValueOnce(Promise.resolve(new Response('Already exists', { status: 412 })));
+
+    const error: PreconditionFailedError = await createContainer(mockContainer).catch(e => e);
+    expect(error).toBeInstanceOf(PreconditionFailedError);
+    expect(error.method).toBe('PUT');
+    expect(error.url).toBe(mockContainer);
+  });
+});
+
+describe('createContainerInContainer', () => {
+  it('should return the URL of the new Container', async () => {
+    const containerRef = await createContainerInContainer(mockContainer, { slugSuggestion: 'new-container' });
+
+    expect(containerRef).toBe(mockContainer + 'new-container/');
+    expect(mockContainerInContainerCreater.mock.calls[0][0]).toBe(mockContainer);
+    expect(mockContainerInContainerCreater.mock.calls[0][1]).toEqual({ slugSuggestion: 'new-container' });
+  });
+
+  it('should error when the Container could not be created', async () => {
+    mockContainerInContainerCreater.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    const error: ForbiddenError = await createContainerInContainer(mockContainer).catch(e => e);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.method).toBe('POST');
+  });
+
+  it('should error when the Pod does not report where the Container was created', async () => {
+    mockContainerInContainerCreater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 201 })));
+
+    const error: HttpError = await createContainerInContainer(mockContainer).catch(e => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.message).toBe('Creating the Container failed: the Pod did not report where it was created.');
+  });
+});
+
+describe('ensureContainerPath', () => {
+  it('should create every Container that does not exist yet', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 404 })));
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 404 })));
+
+    const containerRef = await ensureContainerPath('https://pod.com/private/app/notes');
+
+    expect(containerRef).toBe('https://pod.com/private/app/notes/');
+    expect(mockHeadResponder.mock.calls.map(call => call[0])).toEqual([
+      'https://pod.com/private/app/notes/',
+      'https://pod.com/private/app/',
+      'https://pod.com/private/',
+    ]);
+    expect(mockContainerCreater.mock.calls.map(call => call[0])).toEqual([
+      'https://pod.com/private/app/',
+      'https://pod.com/private/app/notes/',
+    ]);
+  });
+
+  it('should not create anything if the Container already exists', async () => {
+    const mockFetch = jest.fn();
+    await ensureContainerPath('https://pod.com/private/app/notes/', { fetch: mockFetch });
+
+    expect(mockHeadResponder.mock.calls.length).toBe(1);
+    expect(mockHeadResponder.mock.calls[0][1]).toEqual({ fetch: mockFetch });
+    expect(mockContainerCreater.mock.calls.length).toBe(0);
+  });
+
+  it('should create every Container if none of them exist yet', async () => {
+    mockHeadResponder.mockReturnValue(Promise.resolve(new Response('', { status: 404 })));
+
+    await ensureContainerPath('https://pod.com/private/app/');
+    mockHeadResponder.mockImplementation(() => Promise.resolve(new Response()));
+
+    expect(mockContainerCreater.mock.calls.map(call => call[0])).toEqual([
+      'https://pod.com/private/',
+      'https://pod.com/private/app/',
+    ]);
+  });
+
+  it('should not mind if a Container was created in the meantime', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 404 })));
+    mockContainerCreater.mockReturnValueOnce(Promise.resolve(new Response('Already exists', { status: 412 })));
+
+    await expect(ensureContainerPath('https://pod.com/private/app/')).resolves.toBe('https://pod.com/private/app/');
+  });
+
+  it('should error when a Container could not be created', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 404 })));
+    mockContainerCreater.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    await expect(ensureContainerPath('https://pod.com/private/app/')).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should error when it could not be determined whether a Container exists', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 403 })));
+
+    const error: ForbiddenError = await ensureContainerPath('https://pod.com/private/app/').catch(e => e);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.method).toBe('HEAD');
+    expect(mockContainerCreater.mock.calls.length).toBe(0);
+  });
+});
+
+describe('deleteContainer', () => {
+  it('should delete the contents of the Container depth-first, before deleting the Container itself', async () => {
+    const mockFetch = jest.fn();
+    await deleteContainer(mockContainer, { fetch: mockFetch });
+
+    expect(mockDeleter.mock.calls.map(call => call[0])).toEqual([
+      mockContainer + 'child-container/grandchild-container/',
+      mockContainer + 'child-container/other-document.ttl',
+      mockContainer + 'child-container/',
+      mockContainer + 'document.ttl',
+      mockContainer + 'untyped-container/nested-document.ttl',
+      mockContainer + 'untyped-container/',
+      mockContainer + 'untyped-document',
+      mockContainer,
+    ]);
+    expect(mockDeleter.mock.calls.every(call => call[1].fetch === mockFetch)).toBe(true);
+  });
+
+  it('should stop when deleting a Resource inside the Container fails', async () => {
+    mockDeleter.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    const error: ForbiddenError = await deleteContainer(mockContainer).catch(e => e);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(mockDeleter.mock.calls.length).toBe(1);
+  });
+
+  it('should error when the Container itself could not be deleted', async () => {
+    mockDeleter.mockImplementation((url: string) => Promise.resolve(
+      url === mockContainer + 'untyped-container/'
+        ? new Response('Not empty', { status: 409 })
+        : new Response(),
+    ));
+
+    const error: HttpError = await deleteContainer(mockContainer + 'untyped-container/').catch(e => e);
+    mockDeleter.mockImplementation(() => Promise.resolve(new Response()));
+
+    expect(error.status).toBe(409);
+    expect(error.url).toBe(mockContainer + 'untyped-container/');
+    expect(error.message).toBe('Deleting the Container failed: 409 Conflict.');
+  });
+});
+
+describe('moveContainer', () => {
+  it('should recreate the Container and its contents at the new URL, then delete the original', async () => {
+    const mockFetch = jest.fn();
+    const newRef = await moveContainer(mockContainer, 'https://pod.com/moved-container', { fetch: mockFetch });
+
+    expect(newRef).toBe('https://pod.com/moved-container/');
+    expect(mockContainerCreater.mock.calls.map(call => call[0])).toEqual([
+      'https://pod.com/moved-container/',
+      'https://pod.com/moved-container/child-container/',
+      'https://pod.com/moved-container/child-container/grandchild-container/',
+      'https://pod.com/moved-container/untyped-container/',
+    ]);
+    expect(mockRawCreater.mock.calls.map(call => call[0])).toEqual([
+      'https://pod.com/moved-container/child-container/other-document.ttl',
+      'https://pod.com/moved-container/document.ttl',
+      'https://pod.com/moved-container/untyped-container/nested-document.ttl',
+      'https://pod.com/moved-container/untyped-document',
+    ]);
+    expect(mockDeleter.mock.calls.map(call => call[0])).toContain(mockContainer);
+    expect(mockContainerCreater.mock.calls.every(call => call[1].fetch === mockFetch)).toBe(true);
+    expect(mockRawCreater.mock.calls.every(call => call[3].fetch === mockFetch)).toBe(true);
+  });
+
+  it('should copy the contents and media type of every Resource', async () => {
+    await moveContainer(mockContainer + 'untyped-container/', 'https://pod.com/moved-container/');
+
+    expect(mockRawGetter.mock.calls[0][0]).toBe(mockContainer + 'untyped-container/nested-document.ttl');
+    const [ref, body, contentType] = mockRawCreater.mock.calls[0];
+    expect(ref).toBe('https://pod.com/moved-container/nested-document.ttl');
+    expect(Buffer.from(body).toString()).toBe(`Contents of ${mockContainer}untyped-container/nested-document.ttl`);
+    expect(contentType).toBe('text/plain');
+  });
+
+  it('should fall back to a generic media type if the Pod did not specify one', async () => {
+    mockRawGetter.mockReturnValueOnce(Promise.resolve(new Response(Buffer.from('Some data'))));
+    await moveContainer(mockContainer + 'untyped-container/', 'https://pod.com/moved-container/');
+
+    expect(mockRawCreater.mock.calls[0][2]).toBe('application/octet-stream');
+  });
+
+  it('should create the parent Containers of the new URL if needed', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 404 })));
+    await moveContainer(mockContainer + 'untyped-container/', 'https://pod.com/archive/moved-container/');
+
+    expect(mockHeadResponder.mock.calls[0][0]).toBe('https://pod.com/archive/');
+    expect(mockContainerCreater.mock.calls.map(call => call[0])).toEqual([
+      'https://pod.com/archive/',
+      'https://pod.com/archive/moved-container/',
+    ]);
+  });
+
+  it('should be able to rename a Container within the same parent Container', async () => {
+    await expect(moveContainer(mockContainer + 'untyped-container/', mockContainer + 'renamed-container/'))
+      .resolves.toBe(mockContainer + 'renamed-container/');
+
+    expect(mockRawCreater.mock.calls[0][0]).toBe(mockContainer + 'renamed-container/nested-document.ttl');
+  });
+
+  it('should refuse to move a Container into itself', async () => {
+    await expect(moveContainer(mockContainer, mockContainer + 'child-container/'))
+      .rejects.toThrowError(`Cannot move the Container <${mockContainer}> into itself.`);
+
+    expect(mockContainerCreater.mock.calls.length).toBe(0);
+  });
+
+  it('should not delete anything if a Resource already exists at the new URL', async () => {
+    mockContainerCreater.mockReturnValueOnce(Promise.resolve(new Response('Already exists', { status: 412 })));
+
+    await expect(moveContainer(mockContainer, 'https://pod.com/moved-container/'))
+      .rejects.toBeInstanceOf(PreconditionFailedError);
+    expect(mockDeleter.mock.calls.length).toBe(0);
+  });
+
+  it('should not delete anything if a Resource could not be read', async () => {
+    mockRawGetter.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    const error: ForbiddenError = await moveContainer(mockContainer, 'https://pod.com/moved-container/').catch(e => e);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.method).toBe('GET');
+    expect(mockDeleter.mock.calls.length).toBe(0);
+  });
+
+  it('should not delete anything if a Resource could not be copied', async () => {
+    mockRawCreater.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    const error: ForbiddenError = await moveContainer(mockContainer, 'https://pod.com/moved-container/').catch(e => e);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.method).toBe('PUT');
+    expect(error.url).toBe('https://pod.com/moved-container/child-container/other-document.ttl');
+    expect(mockDeleter.mock.calls.length).toBe(0);
+  });
+});
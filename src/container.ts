@@ -0,0 +1,414 @@
+import { Reference } from '.';
+import {
+  head,
+  getRaw,
+  createRaw,
+  remove,
+  createContainer as putContainer,
+  createContainerInContainer as postContainer,
+  RequestOptions,
+} from './pod';
+import { TripleDocument, fetchDocument, deleteDocumentAndAcl } from './document';
+import { createHttpError, HttpError, PreconditionFailedError } from './errors';
+
+const rdfType = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const ldpContains = 'http://www.w3.org/ns/ldp#contains';
+const containerTypes = [
+  'http://www.w3.org/ns/ldp#Container',
+  'http://www.w3.org/ns/ldp#BasicContainer',
+];
+
+/**
+ * A Resource listed in a [[TripleContainer]].
+ */
+export interface ContainerChild {
+  /**
+   * The URL of this Resource.
+   */
+  ref: Reference;
+  /**
+   * Whether this Resource is a Container itself, i.e. whether it can contain other Resources.
+   */
+  isContainer: boolean;
+};
+
+/**
+ * Local representation of a Container in a Pod, listing the Resources it contains.
+ */
+export interface TripleContainer {
+  /**
+   * @returns The URL of this Container.
+   */
+  asRef: () => Reference;
+  /**
+   * @returns Every Resource directly inside this Container, including child Containers.
+   */
+  getChildren: () => ContainerChild[];
+  /**
+   * @returns The Document describing this Container, for access to other properties the Pod lists.
+   */
+  getDocument: () => TripleDocument;
+};
+
+/**
+ * Retrieve the list of Resources in a Container
+ *
+ * @param containerRef URL of the Container, usually ending in a slash.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to fetch the Container.
+ * @returns Representation of the Container at `containerRef`.
+ */
+export async function fetchContainer(containerRef: Reference, options: RequestOptions = {}): Promise<TripleContainer> {
+  const document = await fetchDocument(containerRef, { fetch: options.fetch });
+  const containerSubject = document.getSubject(document.asRef());
+
+  const getChildren = () => containerSubject.getAllRefs(ldpContains).map((childRef) => {
+    const listedTypes = document.getSubject(childRef).getAllRefs(rdfType);
+    // Pods are expected to list the types of contained Resources, but not all of them do, in
+    // which case we fall back to the convention that Container URLs end in a slash:
+    const isContainer = listedTypes.length > 0
+      ? listedTypes.some(type => containerTypes.indexOf(type) !== -1)
+      : childRef.substring(childRef.length - 1) === '/';
+    return { ref: childRef, isContainer: isContainer };
+  });
+
+  return {
+    asRef: () => document.asRef(),
+    getChildren: getChildren,
+    getDocument: () => document,
+  };
+}
+
+/**
+ * @ignore This is documented on use.
+ */
+export interface WalkOptions extends RequestOptions {
+  maxDepth?: number;
+  concurrency?: number;
+};
+
+/**
+ * A Resource found while walking a Container tree using [[walkContainer]].
+ */
+export interface WalkedChild extends ContainerChild {
+  /**
+   * How deep inside the walked Container this Resource was found: `1` for the Resources directly
+   * inside it, `2` for the Resources inside those, etc.
+   */
+  depth: number;
+};
+
+/**
+ * Recursively list every Resource inside a Container
+ *
+ * Usage:
+ *
+ *     for await (const child of walkContainer('https://pod.example/public/')) {
+ *       console.log(child.ref);
+ *     }
+ *
+ * Child Containers are fetched as they are found, so every Resource in a Container is listed
+ * before the Resources in its child Containers. If fetching a Container fails, the iterator will
+ * reject with the respective error. Exiting the loop early (e.g. using `break`) stops fetching
+ * further Containers.
+ *
+ * @param containerRef URL of the Container to walk.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to fetch the Containers.
+ *                - `maxDepth`: how many levels of Containers to descend into. For example, `1`
+ *                  only lists the Resources directly inside `containerRef`. Unlimited by default.
+ *                - `concurrency`: the maximum number of Containers that are fetched at the same
+ *                  time. Defaults to 4.
+ * @returns An async iterator that yields every Resource inside the Container.
+ */
+export function walkContainer(
+  containerRef: Reference,
+  options: WalkOptions = {},
+): AsyncIterableIterator<WalkedChild> {
+  const maxDepth = (typeof options.maxDepth === 'number') ? options.maxDepth : Infinity;
+  const concurrency = Math.max(1, options.concurrency || 4);
+
+  const containersToFetch: Array<{ ref: Reference; depth: number }> = [{ ref: containerRef, depth: 0 }];
+  const fetchesInProgress: Array<Promise<void>> = [];
+  const foundChildren: WalkedChild[] = [];
+
+  // The first error encountered while fetching, which every subsequent call to `next` rejects with:
+  let failure: { error: Error } | null = null;
+  let isStopped = false;
+
+  const startFetches = () => {
+    while (fetchesInProgress.length < concurrency && containersToFetch.length > 0) {
+      const container = containersToFetch.shift()!;
+      // Errors are caught immediately, so that fetches that are still in progress when the caller
+      // stops iterating cannot result in unhandled rejections:
+      const fetchInProgress: Promise<void> = fetchContainer(container.ref, { fetch: options.fetch })
+        .then((fetchedContainer) => {
+          if (isStopped) {
+            return;
+          }
+          fetchedContainer.getChildren().forEach((child) => {
+            const walkedChild = { ...child, depth: container.depth + 1 };
+            foundChildren.push(walkedChild);
+            if (walkedChild.isContainer && walkedChild.depth < maxDepth) {
+              containersToFetch.push({ ref: walkedChild.ref, depth: walkedChild.depth });
+            }
+          });
+        })
+        .catch((error) => {
+          if (failure === null) {
+            failure = { error: error };
+          }
+        })
+        .then(() => {
+          fetchesInProgress.splice(fetchesInProgress.indexOf(fetchInProgress), 1);
+        });
+      fetchesInProgress.push(fetchInProgress);
+    }
+  };
+
+  const next = async (): Promise<IteratorResult<WalkedChild>> => {
+    while (foundChildren.length === 0) {
+      if (isStopped) {
+        return { done: true, value: undefined };
+      }
+      if (failure !== null) {
+        throw failure.error;
+      }
+      startFetches();
+      if (fetchesInProgress.length === 0) {
+        return { done: true, value: undefined };
+      }
+      await Promise.race(fetchesInProgress);
+    }
+    return { done: false, value: foundChildren.shift()! };
+  };
+
+  // Called when the caller stops iterating early, e.g. by `break`ing out of a `for await` loop:
+  const stop = (): Promise<IteratorResult<WalkedChild>> => {
+    isStopped = true;
+    containersToFetch.length = 0;
+    foundChildren.length = 0;
+    return Promise.resolve({ done: true, value: undefined });
+  };
+
+  const iterator: AsyncIterableIterator<WalkedChild> = {
+    next: next,
+    return: stop,
+    [Symbol.asyncIterator]: () => iterator,
+  };
+  return iterator;
+}
+
+/**
+ * Create a new, empty Container on the Pod
+ *
+ * @param containerRef URL where the Container should live. A trailing slash will be added if missing.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to send the request.
+ * @returns The URL of the new Container. If a Resource already exists at that URL, this will
+ *          reject with a [[PreconditionFailedError]].
+ */
+export async function createContainer(containerRef: Reference, options: RequestOptions = {}): Promise<Reference> {
+  const normalisedRef = withTrailingSlash(containerRef);
+  const response = await putContainer(normalisedRef, { fetch: options.fetch });
+  if (!response.ok) {
+    throw await createHttpError('Creating the Container', response, { url: normalisedRef, method: 'PUT' });
+  }
+  return normalisedRef;
+}
+
+/**
+ * Create a new, empty Container inside an existing Container, letting the Pod choose its URL
+ *
+ * @param parentRef URL of the Container in which the new Container should be created.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to send the request.
+ *                - `slugSuggestion`: the name the new Container should preferably get. The Pod
+ *                  might not use it, e.g. if a Resource with that name already exists.
+ * @returns The URL of the new Container.
+ */
+export async function createContainerInContainer(
+  parentRef: Reference,
+  options: RequestOptions & { slugSuggestion?: string } = {},
+): Promise<Reference> {
+  const response = await postContainer(parentRef, options);
+  if (!response.ok) {
+    throw await createHttpError('Creating the Container', response, { url: parentRef, method: 'POST' });
+  }
+  const locationHeader = response.headers.get('Location');
+  if (locationHeader === null) {
+    throw new HttpError(
+      'Creating the Container failed: the Pod did not report where it was created.',
+      { status: response.status, url: parentRef, method: 'POST', responseBody: await response.text() },
+    );
+  }
+  return withTrailingSlash(new URL(locationHeader, parentRef).href);
+}
+
+/**
+ * Make sure a Container exists, creating it and its parent Containers if needed
+ *
+ * For example, calling this with `https://pod.example/private/app/notes/` will create the
+ * Containers `/private/`, `/private/app/` and `/private/app/notes/`, if they do not exist yet.
+ *
+ * @param containerRef URL of the Container that should exist. A trailing slash will be added if missing.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to send the requests.
+ * @returns The URL of the Container.
+ */
+export async function ensureContainerPath(containerRef: Reference, options: RequestOptions = {}): Promise<Reference> {
+  const containerPath = getContainerPath(withTrailingSlash(containerRef));
+
+  // Find the deepest Container that already exists; every Container below it has to be created:
+  let existingContainers = containerPath.length;
+  while (existingContainers > 0) {
+    const ref = containerPath[existingContainers - 1];
+    const response = await head(ref, { fetch: options.fetch });
+    if (response.ok) {
+      break;
+    }
+    if (response.status !== 404) {
+      throw await createHttpError('Checking whether the Container exists', response, { url: ref, method: 'HEAD' });
+    }
+    existingContainers--;
+  }
+
+  for (const ref of containerPath.slice(existingContainers)) {
+    try {
+      await createContainer(ref, options);
+    } catch (e) {
+      // If the Container was created by someone else in the meantime, we're good to go:
+      if (!(e instanceof PreconditionFailedError)) {
+        throw e;
+      }
+    }
+  }
+
+  return containerPath[containerPath.length - 1];
+}
+
+/**
+ * Delete a Container and everything inside it from the Pod
+ *
+ * Since Pods only allow deleting empty Containers, every Resource inside it is deleted first, one
+ * by one, starting with the most deeply nested ones. If deleting one of them fails, this rejects
+ * with the respective error, and everything that was not deleted yet will be left in place.
+ *
+ * @param containerRef URL of the Container to delete.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to send the requests.
+ */
+export async function deleteContainer(containerRef: Reference, options: RequestOptions = {}): Promise<void> {
+  const container = await fetchContainer(containerRef, options);
+
+  for (const child of container.getChildren()) {
+    if (child.isContainer) {
+      await deleteContainer(child.ref, options);
+    } else {
+      await deleteDocumentAndAcl(child.ref, undefined, { fetch: options.fetch });
+    }
+  }
+
+  const response = await remove(container.asRef(), { fetch: options.fetch });
+  if (!response.ok) {
+    throw await createHttpError('Deleting the Container', response, { url: container.asRef(), method: 'DELETE' });
+  }
+}
+
+/**
+ * Move a Container and everything inside it to a different URL on the same Pod
+ *
+ * This can also be used to rename a Container, by moving it to a different URL in the same parent
+ * Container. Since Pods do not support moving Resources, the Container is recreated at its new
+ * location, every Resource inside it is copied over one by one, and the original Container is then
+ * deleted using [[deleteContainer]]. If copying a Resource fails, this rejects with the respective
+ * error, and the original Container is left in place.
+ *
+ * Note that ACLs are not copied along, since they refer to the URLs of the Resources they apply to;
+ * the moved Resources will be governed by the ACL of their new parent Container instead.
+ *
+ * @param containerRef URL of the Container to move.
+ * @param targetRef URL the Container should be moved to. A trailing slash will be added if missing.
+ *                  If a Resource already exists at that URL, this will reject with a
+ *                  [[PreconditionFailedError]]. Parent Containers that do not exist yet will be created.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to send the requests.
+ * @returns The new URL of the Container.
+ */
+export async function moveContainer(
+  containerRef: Reference,
+  targetRef: Reference,
+  options: RequestOptions = {},
+): Promise<Reference> {
+  const sourceRef = withTrailingSlash(containerRef);
+  const normalisedTargetRef = withTrailingSlash(targetRef);
+  if (normalisedTargetRef.substring(0, sourceRef.length) === sourceRef) {
+    throw new Error(`Cannot move the Container <${sourceRef}> into itself.`);
+  }
+
+  const targetPath = getContainerPath(normalisedTargetRef);
+  if (targetPath.length > 1) {
+    await ensureContainerPath(targetPath[targetPath.length - 2], options);
+  }
+  await copyContainer(sourceRef, normalisedTargetRef, options);
+  await deleteContainer(sourceRef, options);
+
+  return normalisedTargetRef;
+}
+
+async function copyContainer(sourceRef: Reference, targetRef: Reference, options: RequestOptions): Promise<void> {
+  const container = await fetchContainer(sourceRef, options);
+  await createContainer(targetRef, options);
+
+  for (const child of container.getChildren()) {
+    const childTargetRef = targetRef + getName(child.ref);
+    if (child.isContainer) {
+      await copyContainer(child.ref, childTargetRef, options);
+    } else {
+      await copyResource(child.ref, childTargetRef, options);
+    }
+  }
+}
+
+async function copyResource(sourceRef: Reference, targetRef: Reference, options: RequestOptions): Promise<void> {
+  const response = await getRaw(sourceRef, { fetch: options.fetch });
+  if (!response.ok) {
+    throw await createHttpError('Reading the Resource', response, { url: sourceRef, method: 'GET' });
+  }
+  const contentType = response.headers.get('Content-Type') || 'application/octet-stream';
+  const creationResponse = await createRaw(targetRef, await response.arrayBuffer(), contentType, { fetch: options.fetch });
+  if (!creationResponse.ok) {
+    throw await createHttpError('Copying the Resource', creationResponse, { url: targetRef, method: 'PUT' });
+  }
+}
+
+/**
+ * @param ref URL of a Resource.
+ * @returns The last segment of the URL's path, including the trailing slash for Containers.
+ */
+function getName(ref: Reference): string {
+  const pathname = new URL(ref).pathname;
+  const pathWithoutSlash = pathname.substring(0, pathname.length - 1);
+  return pathname.substring(pathWithoutSlash.lastIndexOf('/') + 1);
+}
+
+function withTrailingSlash(ref: Reference): Reference {
+  return (ref.substring(ref.length - 1) === '/') ? ref : ref + '/';
+}
+
+/**
+ * @param containerRef URL of a Container, ending in a slash.
+ * @returns The URLs of every Container from the root of the Pod to `containerRef`, excluding the root.
+ */
+function getContainerPath(containerRef: Reference): Reference[] {
+  const url = new URL(containerRef);
+  const segments = url.pathname.split('/').filter(segment => segment.length > 0);
+  return segments.map((_segment, index) => url.origin + '/' + segments.slice(0, index + 1).join('/') + '/');
+}
@@ -0,0 +1,46 @@
+import { registerDatatype, getDatatypeParser, serialiseCustomLiteral, isCustomLiteralValue } from './datatypes';
+
+const mockDatatype = 'https://mock-datatype.com/';
+const mockDatatype2 = 'https://mock-datatype-2.com/';
+
+function getMockCodec(prefix: string) {
+  return {
+    parse: (lexicalValue: string) => prefix + lexicalValue,
+    serialise: (value: string) => value.substring(prefix.length),
+    validate: (value: unknown): value is string => typeof value === 'string' && value.startsWith(prefix),
+  };
+}
+
+describe('registerDatatype', () => {
+  it('should make the codec available for the given datatype', () => {
+    const mockCodec = getMockCodec('mock:');
+    const unregister = registerDatatype(mockDatatype, mockCodec);
+
+    expect(getDatatypeParser(mockDatatype)).toBe(mockCodec.parse);
+    expect(getDatatypeParser(mockDatatype2)).toBeNull();
+    expect(serialiseCustomLiteral('mock:Some value')).toEqual({ datatype: mockDatatype, lexicalValue: 'Some value' });
+    expect(serialiseCustomLiteral('Some value')).toBeNull();
+    expect(isCustomLiteralValue('mock:Some value')).toBe(true);
+    expect(isCustomLiteralValue('Some value')).toBe(false);
+
+    unregister();
+    expect(getDatatypeParser(mockDatatype)).toBeNull();
+    expect(serialiseCustomLiteral('mock:Some value')).toBeNull();
+  });
+
+  it('should replace the codec of a datatype that was already registered', () => {
+    const mockCodec = getMockCodec('mock:');
+    const mockCodec2 = getMockCodec('mock2:');
+    const unregister = registerDatatype(mockDatatype, mockCodec);
+    const unregister2 = registerDatatype(mockDatatype, mockCodec2);
+
+    expect(getDatatypeParser(mockDatatype)).toBe(mockCodec2.parse);
+    expect(serialiseCustomLiteral('mock:Some value')).toBeNull();
+
+    // The replaced codec can no longer unregister the datatype:
+    unregister();
+    expect(getDatatypeParser(mockDatatype)).toBe(mockCodec2.parse);
+    unregister2();
+    expect(getDatatypeParser(mockDatatype)).toBeNull();
+  });
+});
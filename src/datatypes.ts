@@ -0,0 +1,115 @@
+import { Reference, CustomLiteralTypes } from '.';
+
+/**
+ * Converts Literals of a custom datatype to and from values of type `T`.
+ *
+ * See [[registerDatatype]].
+ */
+export interface DatatypeCodec<T> {
+  /**
+   * @param lexicalValue The value of a Literal of this datatype, as written in the Document.
+   * @returns The value represented by `lexicalValue`.
+   */
+  parse: (lexicalValue: string) => T;
+  /**
+   * @param value A value for which [[validate]] returned `true`.
+   * @returns The way `value` should be written in a Literal of this datatype.
+   */
+  serialise: (value: T) => string;
+  /**
+   * @param value A value passed to e.g. [[TripleSubject.addLiteral]]. Strings, numbers, booleans
+   *              and Dates are always stored as Tripledoc's own datatypes, so this is only called
+   *              for other values.
+   * @returns Whether `value` should be stored as a Literal of this datatype.
+   */
+  validate: (value: unknown) => value is T;
+};
+
+/**
+ * A registered codec. Since codecs for different types are stored together, their type is erased.
+ */
+interface RegisteredDatatype {
+  datatype: Reference;
+  parse: (lexicalValue: string) => unknown;
+  /**
+   * @returns `value` as it should be written in a Literal of this datatype, or `null` if it is not
+   *          a value of this datatype.
+   */
+  serialise: (value: unknown) => string | null;
+};
+
+let registeredDatatypes: RegisteredDatatype[] = [];
+
+/**
+ * Teach Tripledoc how to read and write Literals of a datatype it does not support itself
+ *
+ * Once registered, [[TripleSubject.getLiteral]] and [[TripleSubject.getAllLiterals]] will return
+ * Literals of this datatype as parsed by `codec`, and [[TripleSubject.addLiteral]] and
+ * [[TripleSubject.setLiteral]] will store values accepted by `codec.validate` as Literals of this
+ * datatype. To read and write their values as written instead, use e.g.
+ * [[TripleSubject.getTypedLiteral]].
+ *
+ * Usage:
+ *
+ *     registerDatatype('https://example.com/currency#amount', {
+ *       parse: (lexicalValue) => new Amount(lexicalValue),
+ *       serialise: (amount) => amount.toString(),
+ *       validate: (value): value is Amount => value instanceof Amount,
+ *     });
+ *
+ * To have TypeScript recognise values of the datatype as [[LiteralTypes]], add their type to
+ * [[CustomLiteralTypes]].
+ *
+ * @param datatype IRI of the datatype, e.g. `http://www.opengis.net/ont/geosparql#wktLiteral`.
+ * @param codec Converts Literals of this datatype to and from values of type `T`.
+ * @returns A function that unregisters the datatype again.
+ */
+export function registerDatatype<T>(datatype: Reference, codec: DatatypeCodec<T>): () => void {
+  const registeredDatatype: RegisteredDatatype = {
+    datatype: datatype,
+    parse: codec.parse,
+    serialise: (value) => codec.validate(value) ? codec.serialise(value) : null,
+  };
+  // A datatype can only have one codec, so registering it again replaces its current codec:
+  registeredDatatypes = registeredDatatypes
+    .filter(otherDatatype => otherDatatype.datatype !== datatype)
+    .concat(registeredDatatype);
+  return () => {
+    registeredDatatypes = registeredDatatypes.filter(otherDatatype => otherDatatype !== registeredDatatype);
+  };
+}
+
+/**
+ * @internal Utility function for other parts of Tripledoc; not part of the public API.
+ * @param datatype IRI of a datatype.
+ * @returns The function parsing Literals of `datatype` registered for it, if any, or `null` otherwise.
+ */
+export function getDatatypeParser(datatype: Reference): ((lexicalValue: string) => unknown) | null {
+  const registeredDatatype = registeredDatatypes.find(otherDatatype => otherDatatype.datatype === datatype);
+  return (typeof registeredDatatype !== 'undefined') ? registeredDatatype.parse : null;
+}
+
+/**
+ * @internal Utility function for other parts of Tripledoc; not part of the public API.
+ * @param value A value that might have to be stored as a Literal of a custom datatype.
+ * @returns The custom datatype whose codec accepts `value` and the way `value` should be written
+ *          in a Literal of that datatype, if any, or `null` otherwise.
+ */
+export function serialiseCustomLiteral(value: unknown): { datatype: Reference; lexicalValue: string } | null {
+  for (const registeredDatatype of registeredDatatypes) {
+    const lexicalValue = registeredDatatype.serialise(value);
+    if (lexicalValue !== null) {
+      return { datatype: registeredDatatype.datatype, lexicalValue: lexicalValue };
+    }
+  }
+  return null;
+}
+
+/**
+ * @internal Utility function for other parts of Tripledoc; not part of the public API.
+ * @returns Whether `value` is accepted by one of the registered codecs, which means it is one of
+ *          the [[CustomLiteralTypes]].
+ */
+export function isCustomLiteralValue(value: unknown): value is CustomLiteralTypes[keyof CustomLiteralTypes] {
+  return serialiseCustomLiteral(value) !== null;
+}
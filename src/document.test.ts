@@ -2,8 +2,10 @@ import { rdf, schema } from 'rdf-namespaces';
 import { Quad } from 'rdf-js';
 import { Response } from 'node-fetch';
 import { DataFactory } from './n3dataset';
-import { createDocument, fetchDocument, createDocumentInContainer } from './document';
+import { createDocument, fetchDocument, createDocumentInContainer, TripleDocument, deleteDocument } from './document';
 import { triplesToTurtle } from './turtle';
+import { EditConflictError, NotFoundError, ForbiddenError, ConflictError, ParseError, HttpError, ValidationError } from './errors';
+import { loadShapes } from './shacl';
 
 const { namedNode, literal, triple, blankNode } = DataFactory;
 
@@ -32,6 +34,7 @@ let mockUpdater: jest.Mock;
 let mockCreater: jest.Mock;
 let mockContainerCreater: jest.Mock;
 let mockGetter: jest.Mock;
+let mockDeleter: jest.Mock;
 jest.mock('./pod', () => {
   mockHeadResponder = jest.fn(() => Promise.resolve(new Response()));
   mockUpdater = jest.fn(() => Promise.resolve(new Response()));
@@ -42,7 +45,9 @@ jest.mock('./pod', () => {
     },
   })));
   mockGetter = jest.fn(() => turtlePromise.then(turtle => new Response(turtle)));
+  mockDeleter = jest.fn(() => Promise.resolve(new Response()));
   return {
+    remove: mockDeleter,
     head: mockHeadResponder,
     get: mockGetter,
     update: mockUpdater,
@@ -51,24 +56,99 @@ jest.mock('./pod', () => {
   }
 });
 
+let mockWatcher: jest.Mock;
+jest.mock('./watch', () => {
+  mockWatcher = jest.fn(() => jest.fn());
+  return {
+    watchResource: mockWatcher,
+  };
+});
+
 async function getMockTripleDocument() {
   const mockTripleDocument = await fetchDocument(mockDocument);
   return mockTripleDocument;
 }
 
 describe('fetchDocument', () => {
-  it('should error when the server returns a 403', () => {
+  it('should error when the server returns a 403', async () => {
     mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', {
       status: 403,
     })));
-    expect(fetchDocument(mockDocument)).rejects.toEqual(new Error('Fetching the Document failed: 403 Forbidden.'));
+    const fetchPromise = fetchDocument(mockDocument);
+    await expect(fetchPromise).rejects.toEqual(new Error('Fetching the Document failed: 403 Forbidden.'));
+    await expect(fetchPromise).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should error when the server returns a 404', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Does not exist', {
+      status: 404,
+    })));
+    const fetchPromise = fetchDocument(mockDocument);
+    await expect(fetchPromise).rejects.toEqual(new Error('Fetching the Document failed: 404 Not Found.'));
+    await expect(fetchPromise).rejects.toBeInstanceOf(NotFoundError);
   });
 
-  it('should error when the server returns a 404', () => {
+  it('should include the details of the failed request in the error', async () => {
     mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Does not exist', {
       status: 404,
     })));
-    expect(fetchDocument(mockDocument)).rejects.toEqual(new Error('Fetching the Document failed: 404 Not Found.'));
+    const error: NotFoundError = await fetchDocument(mockDocument + '#some-subject').catch(e => e);
+    expect(error.status).toBe(404);
+    expect(error.url).toBe(mockDocument);
+    expect(error.method).toBe('GET');
+    expect(error.responseBody).toBe('Does not exist');
+  });
+
+  it('should error when the server returns a Document that is not valid Turtle', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response('This is not Turtle.', {
+      status: 200,
+    })));
+    const error: ParseError = await fetchDocument(mockDocument).catch(e => e);
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.message).toMatch(/^Parsing the Document failed: /);
+    expect(error.status).toBe(200);
+    expect(error.responseBody).toBe('This is not Turtle.');
+  });
+});
+
+describe('Custom fetch functions', () => {
+  it('should use the given fetch function to fetch a Document', async () => {
+    const mockFetch = jest.fn();
+    await fetchDocument(mockDocument, { fetch: mockFetch });
+
+    expect(mockGetter.mock.calls[0][1]).toEqual({ fetch: mockFetch });
+  });
+
+  it('should use the fetch function the Document was fetched with to save it', async () => {
+    const mockFetch = jest.fn();
+    const mockTripleDocument = await fetchDocument(mockDocument, { fetch: mockFetch });
+    const newSubject = mockTripleDocument.addSubject();
+    newSubject.addString(schema.name, 'Arbitrary value');
+
+    const updatedDocument = await mockTripleDocument.save();
+    await updatedDocument.save();
+
+    expect(mockUpdater.mock.calls[0][3]).toEqual({ fetch: mockFetch });
+    expect(mockUpdater.mock.calls[1][3]).toEqual({ fetch: mockFetch });
+  });
+
+  it('should use the given fetch function to create a Document', async () => {
+    const mockFetch = jest.fn();
+    const mockTripleDocument = createDocument(mockDocument, { fetch: mockFetch });
+
+    await mockTripleDocument.save();
+
+    expect(mockCreater.mock.calls[0][2]).toEqual({ fetch: mockFetch });
+  });
+
+  it('should use the given fetch function to create a Document in a Container', async () => {
+    const mockFetch = jest.fn();
+    const mockTripleDocument = createDocumentInContainer(mockContainer, { fetch: mockFetch });
+
+    await mockTripleDocument.save();
+
+    expect(mockContainerCreater.mock.calls[0][2]).toEqual({ fetch: mockFetch });
+    expect(mockHeadResponder.mock.calls[0][1]).toEqual({ fetch: mockFetch });
   });
 });
 
@@ -87,6 +167,58 @@ describe('getSubject', () => {
     expect(subject.getRef(mockPredicate)).toBe(mockObject);
     expect(subject.asRef()).toBe(mockSubject);
   });
+
+  it('should return Subjects that reflect pending changes, if enabled', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { readPendingChanges: true });
+    const subject = mockTripleDocument.getSubject(mockSubject);
+    subject.setRef(mockPredicate, mockUnusedObject);
+    expect(subject.getRef(mockPredicate)).toBe(mockUnusedObject);
+  });
+});
+
+describe('local Subjects', () => {
+  it('should not be re-initialised every time they are accessed', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> [ <${mockPredicate}> <${mockObject}> ].`,
+    )));
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = mockTripleDocument.getSubject(mockSubject);
+    expect(subject.getLocalSubject(mockPredicate)).toBe(subject.getAllLocalSubjects(mockPredicate)[0]);
+  });
+
+  it('should have their changes saved with the Document', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const localSubject = mockTripleDocument.getSubject(mockSubject).addLocalSubject(schema.address);
+    localSubject.addString(schema.streetAddress, 'Some street');
+    expect(mockTripleDocument.hasPendingChanges()).toBe(true);
+
+    const savedDocument = await mockTripleDocument.save();
+
+    const addedTriples: Quad[] = mockUpdater.mock.calls[0][2];
+    expect(addedTriples.length).toBe(2);
+    expect(addedTriples[1].subject).toEqual(addedTriples[0].object);
+    expect(addedTriples[1].object.value).toBe('Some street');
+    const savedLocalSubject = savedDocument.getSubject(mockSubject).getLocalSubject(schema.address);
+    expect(savedLocalSubject!.getString(schema.streetAddress)).toBe('Some street');
+  });
+
+  it('should be readable through the Subject that refers to them when reading pending changes', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { readPendingChanges: true });
+    const subject = mockTripleDocument.getSubject(mockSubject);
+    subject.addLocalSubject(schema.address).addString(schema.streetAddress, 'Some street');
+
+    expect(subject.getLocalSubject(schema.address)!.getString(schema.streetAddress)).toBe('Some street');
+  });
+
+  it('should have their changes saved when creating a new Document', async () => {
+    const mockTripleDocument = createDocument(mockDocument);
+    const localSubject = mockTripleDocument.addSubject().addLocalSubject(schema.address);
+    localSubject.addString(schema.streetAddress, 'Some street');
+
+    await mockTripleDocument.save();
+
+    expect((mockCreater.mock.calls[0][1] as Quad[]).length).toBe(2);
+  });
 });
 
 describe('getAllSubjects', () => {
@@ -206,13 +338,31 @@ describe('save for local TripleDocuments for Containers', () => {
     expect(savedTriples[0].object.value).toBe('Some value to save');
   });
 
-  it('should throw an error when saving fails', () => {
+  it('should throw an error when saving fails', async () => {
     const mockTripleDocument = createDocumentInContainer(mockContainer);
 
     const errorResponse = new Response('Some error message.', { status: 404 });
     mockContainerCreater.mockReturnValueOnce(errorResponse);
 
-    expect(mockTripleDocument.save()).rejects.toEqual(new Error('Some error message.'));
+    const error: NotFoundError = await mockTripleDocument.save().catch(e => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Creating the Document failed: 404 Not Found.');
+    expect(error.url).toBe(mockContainer);
+    expect(error.method).toBe('POST');
+    expect(error.responseBody).toBe('Some error message.');
+  });
+
+  it('should throw an error when the Pod does not report where the new Document was created', async () => {
+    const mockTripleDocument = createDocumentInContainer(mockContainer);
+
+    const responseWithoutLocation = new Response('Created', { status: 201 });
+    mockContainerCreater.mockReturnValueOnce(responseWithoutLocation);
+
+    const error: HttpError = await mockTripleDocument.save().catch(e => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.message).toBe('Creating the Document failed: the Pod did not report where it was created.');
+    expect(error.status).toBe(201);
+    expect(error.responseBody).toBe('Created');
   });
 
   it('should return the ACL if received', async () => {
@@ -247,6 +397,34 @@ describe('save for local TripleDocuments for Containers', () => {
     expect(updatedDocument.getWebSocketRef()).toBe('wss://some-websocket-url.com');
   });
 
+  it('should use the ETag of the created Document when saving it again', async () => {
+    const mockTripleDocument = createDocumentInContainer(mockContainer);
+
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: { ETag: '"some-etag"' },
+    })));
+
+    const updatedDocument = await mockTripleDocument.save();
+    await updatedDocument.save();
+
+    expect(mockUpdater.mock.calls[0][3]).toEqual({ etag: '"some-etag"' });
+  });
+
+  it('should return the access modes if received', async () => {
+    const mockTripleDocument = createDocumentInContainer(mockContainer);
+
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: { 'WAC-Allow': 'user="read write",public="read"' },
+    })));
+
+    const updatedDocument = await mockTripleDocument.save();
+
+    expect(updatedDocument.getAccessModes()).toEqual({
+      user: { read: true, append: true, write: true, control: false },
+      public: { read: true, append: false, write: false, control: false },
+    });
+  });
+
   it('should ignore metadata that was not provided', async () => {
     const mockTripleDocument = createDocumentInContainer(mockContainer);
 
@@ -256,6 +434,7 @@ describe('save for local TripleDocuments for Containers', () => {
 
     expect(updatedDocument.getAclRef()).toBeNull();
     expect(updatedDocument.getWebSocketRef()).toBeNull();
+    expect(updatedDocument.getAccessModes()).toBeNull();
   });
 });
 
@@ -292,13 +471,18 @@ describe('save for local TripleDocuments', () => {
     expect((mockCreater.mock.calls[0][1] as Quad[])[0].object.value).toBe('Some value');
   });
 
-  it('should throw an error when saving a new Document fails', () => {
+  it('should throw an error when saving a new Document fails', async () => {
     const mockTripleDocument = createDocument(mockDocument);
 
     const errorResponse = new Response('Some error message.', { status: 404 });
     mockCreater.mockReturnValueOnce(errorResponse);
 
-    expect(mockTripleDocument.save()).rejects.toEqual(new Error('Some error message.'));
+    const error: NotFoundError = await mockTripleDocument.save().catch(e => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Creating the Document failed: 404 Not Found.');
+    expect(error.url).toBe(mockDocument);
+    expect(error.method).toBe('PUT');
+    expect(error.responseBody).toBe('Some error message.');
   });
 
   it('should return the ACL if received after creating a new Document', async () => {
@@ -333,6 +517,75 @@ describe('save for local TripleDocuments', () => {
     expect(updatedDocument.getWebSocketRef()).toBe('wss://some-websocket-url.com');
   });
 
+  it('should use the ETag received after creating a new Document when saving it again', async () => {
+    const mockTripleDocument = createDocument(mockDocument);
+
+    mockCreater.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: { ETag: '"some-etag"' },
+    })));
+
+    const updatedDocument = await mockTripleDocument.save();
+    await updatedDocument.save();
+
+    expect(mockUpdater.mock.calls[0][3]).toEqual({ etag: '"some-etag"' });
+  });
+
+  it('should return the access modes if received after creating a new Document', async () => {
+    const mockTripleDocument = createDocument(mockDocument);
+
+    mockCreater.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: { 'WAC-Allow': 'user="read write append control",public=""' },
+    })));
+
+    const updatedDocument = await mockTripleDocument.save();
+
+    expect(mockHeadResponder.mock.calls.length).toBe(0);
+    expect(updatedDocument.getAccessModes()).toEqual({
+      user: { read: true, append: true, write: true, control: true },
+      public: { read: false, append: false, write: false, control: false },
+    });
+  });
+
+  it('should request the access modes if they were not received after creating a new Document', async () => {
+    const mockFetch = jest.fn();
+    const mockTripleDocument = createDocument(mockDocument, { fetch: mockFetch });
+
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: { 'WAC-Allow': 'user="read append"' },
+    })));
+
+    const updatedDocument = await mockTripleDocument.save();
+
+    expect(mockHeadResponder.mock.calls[0]).toEqual([mockDocument, { fetch: mockFetch }]);
+    expect(updatedDocument.getAccessModes()).toEqual({
+      user: { read: true, append: true, write: false, control: false },
+      public: { read: false, append: false, write: false, control: false },
+    });
+  });
+
+  it('should not know the access modes if they could not be requested after creating a new Document', async () => {
+    const mockTripleDocument = createDocument(mockDocument);
+
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', {
+      status: 403,
+      headers: { 'WAC-Allow': 'user="read"' },
+    })));
+
+    const updatedDocument = await mockTripleDocument.save();
+
+    expect(updatedDocument.getAccessModes()).toBeNull();
+  });
+
+  it('should still save a new Document if the request for its access modes failed', async () => {
+    const mockTripleDocument = createDocument(mockDocument);
+
+    mockHeadResponder.mockReturnValueOnce(Promise.reject(new Error('Network error')));
+
+    const updatedDocument = await mockTripleDocument.save();
+
+    expect(updatedDocument.getAccessModes()).toBeNull();
+  });
+
   it('should ignore metadata that was not provided', async () => {
     const mockTripleDocument = createDocument(mockDocument);
 
@@ -340,6 +593,7 @@ describe('save for local TripleDocuments', () => {
 
     expect(updatedDocument.getAclRef()).toBeNull();
     expect(updatedDocument.getWebSocketRef()).toBeNull();
+    expect(updatedDocument.getAccessModes()).toBeNull();
   });
 });
 
@@ -380,13 +634,160 @@ describe('save for full TripleDocuments', () => {
     expect((mockUpdater.mock.calls[0][2] as Quad[])[0].object.value).toBe('Some value');
   });
 
+  it('should pass the Triples stored in the Document, so Blank Nodes can be identified', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockTripleDocument.getSubject(mockSubject).removeAll(mockPredicate);
+
+    await mockTripleDocument.save();
+
+    expect(mockUpdater.mock.calls[0][4]).toEqual(mockTripleDocument.getTriples());
+  });
+
   it('should throw an error when updating an existing Document fails', async () => {
     const mockTripleDocument = await fetchDocument(mockDocument);
 
     const errorResponse = new Response('Some error message.', { status: 404 });
     mockUpdater.mockReturnValueOnce(errorResponse);
 
-    expect(mockTripleDocument.save()).rejects.toEqual(new Error('Some error message.'));
+    const error: NotFoundError = await mockTripleDocument.save().catch(e => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Saving the Document failed: 404 Not Found.');
+    expect(error.url).toBe(mockDocument);
+    expect(error.method).toBe('PATCH');
+    expect(error.responseBody).toBe('Some error message.');
+  });
+
+  it('should only apply the changes if the Document was not modified since it was fetched', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: { ETag: '"some-etag"' },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+
+    await mockTripleDocument.save();
+
+    expect(mockUpdater.mock.calls[0][3]).toEqual({ etag: '"some-etag"' });
+  });
+
+  it('should use the ETag of the updated Document when saving it again', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: { ETag: '"some-etag"' },
+    })));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: { ETag: '"some-updated-etag"' },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+
+    const updatedDocument = await mockTripleDocument.save();
+    const twiceUpdatedDocument = await updatedDocument.save();
+    await twiceUpdatedDocument.save();
+
+    expect(mockUpdater.mock.calls[1][3]).toEqual({ etag: '"some-updated-etag"' });
+    // The second update did not return an ETag, so the first one is no longer applicable:
+    expect(mockUpdater.mock.calls[2][3]).toEqual({ etag: undefined });
+  });
+
+  it('should throw an EditConflictError including the current Document if it was modified since it was fetched', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> <${mockUnusedObject}>.`,
+    )));
+
+    const error: EditConflictError = await mockTripleDocument.save().catch(e => e);
+
+    expect(error).toBeInstanceOf(EditConflictError);
+    expect(error.name).toBe('EditConflictError');
+    expect(error.document.getSubject(mockSubject).getRef(mockPredicate)).toBe(mockUnusedObject);
+  });
+
+  it('should re-apply changes to the current Document if it was modified since it was fetched and merging is enabled', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { onConflict: 'merge' });
+    mockTripleDocument.getSubject(mockSubject2).setRef(mockPredicate, mockUnusedObject);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> <${mockUnusedObject}>. <${mockSubject2}> <${mockPredicate}> <${mockObject}>.`,
+      { headers: { ETag: '"current-etag"' } },
+    )));
+
+    const updatedDocument = await mockTripleDocument.save();
+
+    expect(mockUpdater.mock.calls.length).toBe(2);
+    expect(mockUpdater.mock.calls[1][3]).toEqual({ etag: '"current-etag"' });
+    expect(updatedDocument.getSubject(mockSubject).getRef(mockPredicate)).toBe(mockUnusedObject);
+    expect(updatedDocument.getSubject(mockSubject2).getRef(mockPredicate)).toBe(mockUnusedObject);
+  });
+
+  it('should throw an EditConflictError listing the conflicts if changes could not be merged', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { onConflict: 'merge' });
+    mockTripleDocument.getSubject(mockSubject).setRef(mockPredicate, mockUnusedObject);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> <https://some-other-object.com/>.`,
+    )));
+
+    const error: EditConflictError = await mockTripleDocument.save().catch(e => e);
+
+    expect(error).toBeInstanceOf(EditConflictError);
+    expect(error.conflicts).toEqual([{
+      subject: mockSubject,
+      predicate: mockPredicate,
+      originalValues: [mockObject],
+      localValues: [mockUnusedObject],
+      remoteValues: ['https://some-other-object.com/'],
+    }]);
+    expect(mockUpdater.mock.calls.length).toBe(1);
+  });
+
+  it('should let a given resolver decide which version to keep for conflicting changes', async () => {
+    const mockResolver = jest.fn(() => ['local' as const]);
+    const mockTripleDocument = await fetchDocument(mockDocument, { onConflict: mockResolver });
+    mockTripleDocument.getSubject(mockSubject).setRef(mockPredicate, mockUnusedObject);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> <https://some-other-object.com/>.`,
+    )));
+
+    const updatedDocument = await mockTripleDocument.save();
+
+    expect(mockResolver.mock.calls.length).toBe(1);
+    expect((mockUpdater.mock.calls[1][1] as Quad[]).map(triple => triple.object.value))
+      .toEqual(['https://some-other-object.com/']);
+    expect((mockUpdater.mock.calls[1][2] as Quad[]).map(triple => triple.object.value))
+      .toEqual([mockUnusedObject]);
+    expect(updatedDocument.getSubject(mockSubject).getAllRefs(mockPredicate)).toEqual([mockUnusedObject]);
+  });
+
+  it('should not call the resolver if there are no conflicts', async () => {
+    const mockResolver = jest.fn(() => []);
+    const mockTripleDocument = await fetchDocument(mockDocument, { onConflict: mockResolver });
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+
+    await mockTripleDocument.save();
+
+    expect(mockResolver.mock.calls.length).toBe(0);
+  });
+
+  it('should give up merging if the Document keeps being modified', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { onConflict: 'merge' });
+    for (let i = 0; i < 4; i++) {
+      mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    }
+
+    const error: EditConflictError = await mockTripleDocument.save().catch(e => e);
+
+    expect(error).toBeInstanceOf(EditConflictError);
+    expect(error.conflicts).toEqual([]);
+    expect(mockUpdater.mock.calls.length).toBe(4);
+  });
+
+  it('should not merge changes if told to throw an error on conflicts', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { onConflict: 'error' });
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+
+    const error: EditConflictError = await mockTripleDocument.save().catch(e => e);
+
+    expect(error).toBeInstanceOf(EditConflictError);
+    expect(mockUpdater.mock.calls.length).toBe(1);
   });
 
   it('should not return a new Document that includes Triples that were deleted', async () => {
@@ -403,6 +804,65 @@ describe('save for full TripleDocuments', () => {
   });
 });
 
+describe('save with shapes', () => {
+  const shapesPromise = loadShapes(`
+    @prefix sh: <http://www.w3.org/ns/shacl#>.
+    <#Movie> sh:targetClass <${schema.Movie}>; sh:property [ sh:path <${schema.title}>; sh:minCount 1 ].
+  `, 'https://shapes.com/');
+
+  it('should refuse to save a Document that would not conform to the shapes', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { shapes: await shapesPromise });
+    mockTripleDocument.getSubject(mockSubject).addString(schema.name, 'Some value');
+
+    const savePromise = mockTripleDocument.save();
+
+    await expect(savePromise).rejects.toThrow(new Error(
+      'Saving the Document was refused: its data would violate 1 constraint(s) of the given shapes.',
+    ));
+    await expect(savePromise).rejects.toBeInstanceOf(ValidationError);
+    const error: ValidationError = await savePromise.catch(e => e);
+    expect(error.report.results[0].focusNode).toBe(mockSubjectOfTypeMovie2);
+    expect(mockUpdater.mock.calls.length).toBe(0);
+  });
+
+  it('should save a Document that would conform to the shapes', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { shapes: await shapesPromise });
+    mockTripleDocument.getSubject(mockSubjectOfTypeMovie2).addString(schema.title, 'Some title');
+
+    await mockTripleDocument.save();
+
+    expect(mockUpdater.mock.calls.length).toBe(1);
+  });
+
+  it('should refuse to save merged changes that would not conform to the shapes', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { shapes: await shapesPromise, onConflict: 'merge' });
+    mockTripleDocument.getSubject(mockSubjectOfTypeMovie2).addString(schema.title, 'Some title');
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubjectOfTypeMovie2}> <${rdf.type}> <${schema.Movie}>. <${mockSubject}> <${rdf.type}> <${schema.Movie}>.`,
+    )));
+
+    const error: ValidationError = await mockTripleDocument.save().catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.report.results[0].focusNode).toBe(mockSubject);
+    expect(mockUpdater.mock.calls.length).toBe(1);
+  });
+
+    it('should refuse to create Documents that would not conform to the shapes', async () => {
+    const shapes = await shapesPromise;
+    const mockTripleDocument = createDocument(mockDocument, { shapes: shapes });
+    mockTripleDocument.addSubject().addRef(rdf.type, schema.Movie);
+    const mockTripleDocumentInContainer = createDocumentInContainer(mockContainer, { shapes: shapes });
+    mockTripleDocumentInContainer.addSubject().addRef(rdf.type, schema.Movie);
+
+    await expect(mockTripleDocument.save()).rejects.toBeInstanceOf(ValidationError);
+    await expect(mockTripleDocumentInContainer.save()).rejects.toBeInstanceOf(ValidationError);
+    expect(mockCreater.mock.calls.length).toBe(0);
+    expect(mockContainerCreater.mock.calls.length).toBe(0);
+  });
+});
+
 describe('removeSubject', () => {
   it('should remove all Triples related to the given subject', async () => {
     const mockTripleDocument = await fetchDocument(mockDocument);
@@ -424,6 +884,66 @@ describe('removeSubject', () => {
   });
 });
 
+describe('discardChanges', () => {
+  it('should undo the changes to every Subject', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    expect(mockTripleDocument.hasPendingChanges()).toBe(false);
+
+    mockTripleDocument.getSubject(mockSubject).addRef(mockPredicate, mockUnusedObject);
+    mockTripleDocument.removeSubject(mockSubject2);
+    // Subjects that were accessed but not modified should not be reported as changed:
+    mockTripleDocument.getSubject(mockSubjectOfTypeMovie1);
+    expect(mockTripleDocument.hasPendingChanges()).toBe(true);
+
+    mockTripleDocument.discardChanges();
+    expect(mockTripleDocument.hasPendingChanges()).toBe(false);
+    expect(mockTripleDocument.getChangeSummary()).toEqual({});
+
+    await mockTripleDocument.save();
+    expect(mockUpdater.mock.calls[0][1]).toEqual([]);
+    expect(mockUpdater.mock.calls[0][2]).toEqual([]);
+  });
+
+  it('should be available for Documents that have not been saved yet', () => {
+    const mockTripleDocument = createDocumentInContainer(mockContainer);
+    mockTripleDocument.addSubject().addRef(mockPredicate, mockObject);
+    expect(mockTripleDocument.hasPendingChanges()).toBe(true);
+
+    mockTripleDocument.discardChanges();
+    expect(mockTripleDocument.hasPendingChanges()).toBe(false);
+  });
+});
+
+describe('getChangeSummary', () => {
+  it('should list the added and removed values by Subject and property', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockTripleDocument.getSubject(mockSubject).setRef(mockPredicate, mockUnusedObject);
+    mockTripleDocument.getSubject(mockSubjectOfTypeMovie1).setString(schema.title, 'Other title');
+    mockTripleDocument.getSubject(mockSubjectOfTypeMovie1).addInteger(schema.duration, 42);
+
+    expect(mockTripleDocument.getChangeSummary()).toEqual({
+      [mockSubject]: {
+        [mockPredicate]: { added: [mockUnusedObject], removed: [mockObject] },
+      },
+      [mockSubjectOfTypeMovie1]: {
+        [schema.title]: { added: ['Other title'], removed: ['Arbitrary title'] },
+        [schema.duration]: { added: [42], removed: [] },
+      },
+    });
+  });
+
+  it('should not list Blank Nodes', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> [ <${mockPredicate}> <${mockObject}> ].`,
+    )));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockTripleDocument.removeSubject(mockSubject);
+
+    expect(mockTripleDocument.hasPendingChanges()).toBe(true);
+    expect(mockTripleDocument.getChangeSummary()).toEqual({});
+  });
+});
+
 describe('getAclRef', () => {
   it('should return null if no ACL header was present', async () => {
     const mockTripleDocument = await fetchDocument(mockDocument);
@@ -480,6 +1000,337 @@ describe('getWebSocketRef', () => {
   });
 });
 
+describe('getAccessModes', () => {
+  it('should return null if no WAC-Allow header was present', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    expect(mockTripleDocument.getAccessModes()).toBeNull();
+  });
+
+  it('should return the access modes listed in the WAC-Allow header', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        'WAC-Allow': 'User = "read WRITE  control" , public="read append"',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    expect(mockTripleDocument.getAccessModes()).toEqual({
+      user: { read: true, append: true, write: true, control: true },
+      public: { read: true, append: true, write: false, control: false },
+    });
+  });
+
+  it('should not grant any access modes to groups that were not listed', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: { 'WAC-Allow': 'public="read"' },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    expect(mockTripleDocument.getAccessModes()!.user).toEqual({
+      read: false,
+      append: false,
+      write: false,
+      control: false,
+    });
+  });
+
+  it('should update the access modes after saving, if received', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: { 'WAC-Allow': 'user="read write"' },
+    })));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: { 'WAC-Allow': 'user="read"' },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+
+    const updatedDocument = await mockTripleDocument.save();
+    const twiceUpdatedDocument = await updatedDocument.save();
+
+    expect(updatedDocument.getAccessModes()!.user.write).toBe(false);
+    // If the Pod did not report them, the previously known access modes still apply:
+    expect(twiceUpdatedDocument.getAccessModes()!.user.write).toBe(false);
+    expect(twiceUpdatedDocument.getAccessModes()!.user.read).toBe(true);
+  });
+});
+
+describe('subscribe', () => {
+  it('should throw an error if the Pod does not support WebSockets', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    expect(() => mockTripleDocument.subscribe(jest.fn())).toThrowError(
+      'The Pod does not support notifying of updates to this Document.',
+    );
+  });
+
+  it('should watch the Document using the WebSocket advertised by the Pod', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        'Updates-Via': 'wss://some-websocket-url.com',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+
+    const unsubscribe = mockTripleDocument.subscribe(jest.fn());
+
+    expect(mockWatcher.mock.calls.length).toBe(1);
+    expect(mockWatcher.mock.calls[0][0]).toBe('wss://some-websocket-url.com');
+    expect(mockWatcher.mock.calls[0][1]).toBe(mockDocument);
+    unsubscribe();
+    expect(mockWatcher.mock.results[0].value.mock.calls.length).toBe(1);
+  });
+
+  it('should pass the updated Document to the listener when it is modified', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        'Updates-Via': 'wss://some-websocket-url.com',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> <${mockUnusedObject}>.`,
+    )));
+
+    const updatedDocument = await new Promise<TripleDocument>((resolve) => {
+      mockTripleDocument.subscribe(resolve);
+      const onUpdate = mockWatcher.mock.calls[0][2];
+      onUpdate();
+    });
+
+    expect(updatedDocument.getSubject(mockSubject).getRef(mockPredicate)).toBe(mockUnusedObject);
+  });
+
+  it('should fetch one update at a time, so that the latest Document is passed to the listener last', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        'Updates-Via': 'wss://some-websocket-url.com',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    let resolveFirstUpdate: (response: Response) => void = jest.fn();
+    mockGetter.mockReturnValueOnce(new Promise(resolve => resolveFirstUpdate = resolve));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> <https://latest-object.com/>.`,
+    )));
+
+    const updatedDocuments: TripleDocument[] = [];
+    const secondUpdate = new Promise<void>((resolve) => {
+      mockTripleDocument.subscribe((updatedDocument) => {
+        updatedDocuments.push(updatedDocument);
+        if (updatedDocuments.length === 2) {
+          resolve();
+        }
+      });
+    });
+    const onUpdate = mockWatcher.mock.calls[0][2];
+    onUpdate();
+    onUpdate();
+    onUpdate();
+    // Only the first update is being fetched; the others are combined into one later fetch:
+    expect(mockGetter.mock.calls.length).toBe(2);
+    resolveFirstUpdate(new Response(`<${mockSubject}> <${mockPredicate}> <https://outdated-object.com/>.`));
+    await secondUpdate;
+
+    expect(mockGetter.mock.calls.length).toBe(3);
+    expect(updatedDocuments.map(updatedDocument => updatedDocument.getSubject(mockSubject).getRef(mockPredicate)))
+      .toEqual(['https://outdated-object.com/', 'https://latest-object.com/']);
+  });
+
+  it('should not call the listeners after unsubscribing', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        'Updates-Via': 'wss://some-websocket-url.com',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockUpdate = Promise.resolve(new Response(`<${mockSubject}> <${mockPredicate}> <${mockUnusedObject}>.`));
+    const mockFailingUpdate = Promise.resolve(new Response('Not allowed', { status: 403 }));
+    mockGetter.mockReturnValueOnce(mockUpdate);
+    mockGetter.mockReturnValueOnce(mockFailingUpdate);
+    const onUpdate = jest.fn();
+    const onError = jest.fn();
+
+    const unsubscribe = mockTripleDocument.subscribe(onUpdate, onError);
+    const unsubscribe2 = mockTripleDocument.subscribe(onUpdate, onError);
+    const notify = mockWatcher.mock.calls[0][2];
+    const notify2 = mockWatcher.mock.calls[1][2];
+    notify();
+    // Queued while the first update is being fetched:
+    notify();
+    notify2();
+    unsubscribe();
+    unsubscribe2();
+    // Notifications arriving after unsubscribing are ignored:
+    notify();
+    await mockUpdate;
+    await mockFailingUpdate;
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(mockGetter.mock.calls.length).toBe(3);
+    expect(onUpdate.mock.calls.length).toBe(0);
+    expect(onError.mock.calls.length).toBe(0);
+  });
+
+  it('should call the error handler if fetching the updated Document fails', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        'Updates-Via': 'wss://some-websocket-url.com',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    const error = await new Promise<Error>((resolve) => {
+      mockTripleDocument.subscribe(jest.fn(), resolve);
+      const onUpdate = mockWatcher.mock.calls[0][2];
+      onUpdate();
+    });
+
+    expect(error).toEqual(new Error('Fetching the Document failed: 403 Forbidden.'));
+  });
+
+  it('should ignore errors fetching the updated Document if there is no error handler', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        'Updates-Via': 'wss://some-websocket-url.com',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockFailingGet = Promise.resolve(new Response('Not allowed', { status: 403 }));
+    mockGetter.mockReturnValueOnce(mockFailingGet);
+    const onUpdate = jest.fn();
+
+    mockTripleDocument.subscribe(onUpdate);
+    mockWatcher.mock.calls[0][2]();
+    await mockFailingGet;
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(onUpdate.mock.calls.length).toBe(0);
+  });
+});
+
+describe('deleteDocument', () => {
+  it('should delete the given Document', async () => {
+    const mockFetch = jest.fn();
+    await deleteDocument(mockDocument + '#some-subject', { fetch: mockFetch });
+
+    expect(mockDeleter.mock.calls).toEqual([[mockDocument, { fetch: mockFetch }]]);
+    expect(mockHeadResponder.mock.calls.length).toBe(0);
+  });
+
+  it('should also delete the ACL if requested', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: {
+        Link: '<https://some-acl-url.example>; rel="acl"',
+      },
+    })));
+
+    await deleteDocument(mockDocument, { deleteAcl: true });
+
+    expect(mockDeleter.mock.calls.length).toBe(2);
+    expect(mockDeleter.mock.calls[0][0]).toBe(mockDocument);
+    expect(mockDeleter.mock.calls[1][0]).toBe('https://some-acl-url.example/');
+  });
+
+  it('should not try to delete the ACL if the Document does not have one', async () => {
+    await deleteDocument(mockDocument, { deleteAcl: true });
+
+    expect(mockDeleter.mock.calls.length).toBe(1);
+  });
+
+  it('should not complain if the ACL was deleted together with the Document', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: {
+        Link: '<https://some-acl-url.example>; rel="acl"',
+      },
+    })));
+    mockDeleter.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockDeleter.mockReturnValueOnce(Promise.resolve(new Response('Not found', { status: 404 })));
+
+    await expect(deleteDocument(mockDocument, { deleteAcl: true })).resolves.toBeUndefined();
+  });
+
+  it('should throw an error if the ACL could not be deleted', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', {
+      headers: {
+        Link: '<https://some-acl-url.example>; rel="acl"',
+      },
+    })));
+    mockDeleter.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockDeleter.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    const error: ForbiddenError = await deleteDocument(mockDocument, { deleteAcl: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.url).toBe('https://some-acl-url.example/');
+  });
+
+  it('should throw a NotFoundError if the Document does not exist', async () => {
+    mockDeleter.mockReturnValueOnce(Promise.resolve(new Response('Does not exist', { status: 404 })));
+
+    const error: NotFoundError = await deleteDocument(mockDocument).catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Deleting the Document failed: 404 Not Found.');
+    expect(error.status).toBe(404);
+    expect(error.method).toBe('DELETE');
+    expect(error.url).toBe(mockDocument);
+    expect(error.responseBody).toBe('Does not exist');
+  });
+
+  it('should throw a NotFoundError if the ACL was requested for a Document that does not exist', async () => {
+    mockHeadResponder.mockReturnValueOnce(Promise.resolve(new Response('', { status: 404 })));
+
+    const error: NotFoundError = await deleteDocument(mockDocument, { deleteAcl: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.method).toBe('HEAD');
+    expect(mockDeleter.mock.calls.length).toBe(0);
+  });
+
+  it('should throw a ConflictError if the Document could not be deleted in its current state', async () => {
+    mockDeleter.mockReturnValueOnce(Promise.resolve(new Response('Container not empty', { status: 409 })));
+
+    const error: ConflictError = await deleteDocument(mockDocument).catch(e => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+  });
+});
+
+describe('delete', () => {
+  it('should delete the Document, using the fetch function it was fetched with', async () => {
+    const mockFetch = jest.fn();
+    const mockTripleDocument = await fetchDocument(mockDocument, { fetch: mockFetch });
+
+    await mockTripleDocument.delete();
+
+    expect(mockDeleter.mock.calls).toEqual([[mockDocument, { fetch: mockFetch }]]);
+  });
+
+  it('should also delete the ACL if requested', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        Link: '<https://mock-acl.com>; rel="acl"',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+
+    await mockTripleDocument.delete({ deleteAcl: true });
+
+    expect(mockDeleter.mock.calls.length).toBe(2);
+    expect(mockDeleter.mock.calls[1][0]).toBe('https://mock-acl.com/');
+  });
+
+  it('should not delete the ACL unless requested', async () => {
+    mockGetter.mockReturnValueOnce(turtlePromise.then(turtle => new Response(turtle, {
+      headers: {
+        Link: '<https://mock-acl.com>; rel="acl"',
+      },
+    })));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+
+    await mockTripleDocument.delete();
+
+    expect(mockDeleter.mock.calls.length).toBe(1);
+  });
+});
+
 describe('getTriples (deprecated method)', () => {
   it('should provide access to all Triples in the Document', async () => {
     const mockTripleDocument = await getMockTripleDocument();
@@ -1,14 +1,78 @@
 import LinkHeader from 'http-link-header';
-import { Quad } from 'rdf-js';
-import { Reference } from '.';
-import { get } from './pod';
-import { TripleSubject, initialiseSubject } from './subject';
+import { Quad, BlankNode } from 'rdf-js';
+import { Reference, LiteralTypes, isLiteral } from '.';
+import { get, head, remove, RequestOptions } from './pod';
+import { ConflictResolver } from './merge';
+import { createHttpError, ParseError, ValidationError } from './errors';
+import { Shapes } from './shacl';
+import { TripleSubject, SubjectChange, SubjectOptions, initialiseSubject, fromLiteral } from './subject';
 import { turtleToTriples } from './turtle';
 import { initialiseDataset, Dataset } from './n3dataset';
+import { getTriplesAfterChanges } from './triples';
 import { instantiateFullTripleDocument } from './document/stored';
 import { instantiateLocalTripleDocument } from './document/local';
 import { instantiateLocalTripleDocumentForContainer } from './document/localForContainer';
 
+/**
+ * @ignore This is documented on use.
+ */
+export interface DocumentOptions extends RequestOptions {
+  onConflict?: 'error' | 'merge' | ConflictResolver;
+  readPendingChanges?: boolean;
+  shapes?: Shapes;
+};
+/**
+ * @ignore This is documented on use.
+ */
+export interface DeleteOptions extends RequestOptions {
+  deleteAcl?: boolean;
+};
+/**
+ * Which kinds of access someone has to a Document.
+ */
+export interface AccessModes {
+  read: boolean;
+  append: boolean;
+  write: boolean;
+  control: boolean;
+};
+/**
+ * Which kinds of access the current user and everyone else have to a Document.
+ */
+export interface DocumentAccessModes {
+  /**
+   * The access the current user has, which might include access they have because it was granted
+   * to everyone.
+   */
+  user: AccessModes;
+  /**
+   * The access everyone has, including people who are not logged in.
+   */
+  public: AccessModes;
+};
+/**
+ * The values of a single property of a Subject that will be added or removed when a Document is saved.
+ */
+export interface PropertyChanges {
+  /**
+   * The values that will be added to this property.
+   */
+  added: Array<Reference | LiteralTypes>;
+  /**
+   * The values that will be removed from this property.
+   */
+  removed: Array<Reference | LiteralTypes>;
+};
+/**
+ * Every change to a Document that has not been saved yet, by the IRI of the modified Subject and
+ * then by the IRI of the modified property, e.g.
+ * `summary['https://pod.example/profile#me']['http://xmlns.com/foaf/0.1/name'].added`.
+ */
+export interface ChangeSummary {
+  [subjectRef: string]: {
+    [predicateRef: string]: PropertyChanges;
+  };
+};
 /**
  * @ignore This is documented on use.
  */
@@ -40,6 +104,38 @@ export interface BareTripleDocument {
    * @returns A [[TripleSubject]] instance that can be used to define its properties.
    */
   addSubject: (options?: NewSubjectOptions) => TripleSubject;
+  /**
+   * Undo every change made to this Document's Subjects since it was fetched or created.
+   */
+  discardChanges: () => void;
+  /**
+   * Find out whether this Document has changes that would be lost if it was not saved, e.g. to
+   * warn the user before they navigate away.
+   *
+   * @returns Whether any of this Document's Subjects have changes that have not been saved yet.
+   */
+  hasPendingChanges: () => boolean;
+  /**
+   * Get an overview of the changes that will be applied to the Pod when you call [[save]], e.g. to
+   * show the user what they have modified.
+   *
+   * @returns The values that will be added and removed, by Subject and property.
+   */
+  getChangeSummary: () => ChangeSummary;
+  /**
+   * @internal Used by [[TripleHistory]] to record changes; not part of the public API.
+   * @param addChangeListener.listener Function that will be called every time one of this
+   *                                   Document's Subjects is modified.
+   * @returns A function that you can call to stop listening.
+   */
+  addChangeListener: (listener: (change: SubjectChange) => void) => () => void;
+  /**
+   * @internal Pending Triples are only provided so they can be reverted after saving them; this is
+   *           not part of the public API and can thus break in a minor release.
+   * @returns A tuple with the first element being a list of Triples that will be deleted from the
+   *          Document when it is saved, and the second element a list of Triples that will be added.
+   */
+  getPendingTriples: () => [Quad[], Quad[]];
 };
 
 /**
@@ -95,8 +191,9 @@ export function hasRef(document: BareTripleDocument): document is LocalTripleDoc
  * its `get*`, `add*`, `set*` and `remove*` methods — these changes will be applied to the Pod when
  * you call [[save]] on this Document.
  *
- * Note that these changes can not be _read_ from this TripleDocument; they will be available
- * on the TripleDocument that is returned when you call [[save]].
+ * By default, these changes can not be _read_ from this TripleDocument; they will be available
+ * on the TripleDocument that is returned when you call [[save]]. To read them before saving, fetch
+ * or create the Document with the `readPendingChanges` option.
  */
 export interface TripleDocument extends LocalTripleDocumentWithRef {
   /**
@@ -161,6 +258,36 @@ export interface TripleDocument extends LocalTripleDocumentWithRef {
    * @ignore Experimental API, will probably change as the Solid specification changes to no longer support WebSockets
    */
   getWebSocketRef: () => Reference | null;
+  /**
+   * Find out what the current user and everyone else are allowed to do with this Document, e.g. to
+   * decide whether to show an edit button.
+   *
+   * This is based on the `WAC-Allow` header the Pod sent when this Document was fetched or saved.
+   *
+   * @returns The access modes of the current user and of everyone else, or `null` if the Pod did
+   *          not report them.
+   */
+  getAccessModes: () => DocumentAccessModes | null;
+  /**
+   * Get notified whenever this Document is modified on the Pod.
+   *
+   * Every time the Pod reports that this Document was modified, it will be fetched again and
+   * passed to `onUpdate`. Since modifications may have gone unreported while the connection to the
+   * Pod was lost, it is also fetched again after reconnecting. Note that this requires the Pod to
+   * support the Solid WebSockets API; if it does not, this will throw an error.
+   *
+   * @param subscribe.onUpdate Function that will be called with the updated Document.
+   * @param subscribe.onError Function that will be called if fetching the updated Document fails.
+   * @returns A function that you can call to stop getting notified.
+   */
+  subscribe: (onUpdate: (document: TripleDocument) => void, onError?: (error: Error) => void) => () => void;
+  /**
+   * Delete this Document from the Pod.
+   *
+   * @param delete.options Optional settings. If `options.deleteAcl` is `true`, this Document's ACL
+   *                       will be deleted as well, if it has one.
+   */
+  delete: (options?: { deleteAcl?: boolean }) => Promise<void>;
   /**
    * @deprecated
    * @ignore This is mostly a convenience function to make it easy to work with n3 and tripledoc
@@ -202,9 +329,10 @@ export function isSavedToPod(document: BareTripleDocument): document is TripleDo
  * Note that this Document will not be created on the Pod until you call [[save]] on it.
  *
  * @param ref URL where this document should live
+ * @param options Optional settings; see [[fetchDocument]] for the available options.
  */
-export function createDocument(ref: Reference): LocalTripleDocumentWithRef {
-  return instantiateDocument([], { documentRef: ref, existsOnPod: false });
+export function createDocument(ref: Reference, options: DocumentOptions = {}): LocalTripleDocumentWithRef {
+  return instantiateDocument([], { ...options, documentRef: ref, existsOnPod: false });
 }
 
 /**
@@ -213,41 +341,140 @@ export function createDocument(ref: Reference): LocalTripleDocumentWithRef {
  * Note that this Document will not be created on the Pod until you call [[save]] on it.
  *
  * @param containerRef URL of the Container in which this document should live
+ * @param options Optional settings; see [[fetchDocument]] for the available options.
  */
-export function createDocumentInContainer(containerRef: Reference): LocalTripleDocumentForContainer {
-  return instantiateDocument([], { containerRef: containerRef, existsOnPod: false });
+export function createDocumentInContainer(
+  containerRef: Reference,
+  options: DocumentOptions = {},
+): LocalTripleDocumentForContainer {
+  return instantiateDocument([], { ...options, containerRef: containerRef, existsOnPod: false });
 }
 
 /**
  * Retrieve a document containing RDF triples
  *
  * @param documentRef Where the document lives.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to fetch the Document, and to send requests
+ *                  when it is saved.
+ *                - `onConflict`: what to do when the Document was modified on the Pod after it was
+ *                  fetched, and before its changes were saved. By default (`'error'`), [[save]]
+ *                  will reject with an [[EditConflictError]]. If set to `'merge'`, your changes
+ *                  will be re-applied to the Document's current contents and saved again, unless
+ *                  they conflict with the modifications on the Pod (e.g. both set a different
+ *                  value for the same property), in which case it will still reject. Instead of
+ *                  rejecting, you can also pass a [[ConflictResolver]] function that decides which
+ *                  changes should be kept for every conflict.
+ *                - `readPendingChanges`: if `true`, the `get*` methods of this Document's
+ *                  [[TripleSubject]]s will include changes that have not been saved yet, e.g. so
+ *                  that you can bind a form directly to a Subject. Otherwise, they will only
+ *                  return the values as they were when the Document was fetched, until you call
+ *                  [[save]] and use the Document it returns. The latter is the default for now,
+ *                  to remain compatible with existing code; this will change in the next major
+ *                  version.
+ *                - `shapes`: SHACL [[Shapes]] (see [[loadShapes]]) the Document's data should
+ *                  conform to. If set, [[save]] will reject with a [[ValidationError]], without
+ *                  sending anything to the Pod, if the Document would not conform after saving.
  * @returns Representation of triples in the document at `uri`.
  */
-export async function fetchDocument(uri: Reference): Promise<TripleDocument> {
-  // Remove fragment identifiers (e.g. `#me`) from the URI:
-  const docUrl = new URL(uri);
-  const documentRef: Reference = docUrl.origin + docUrl.pathname + docUrl.search;
+export async function fetchDocument(uri: Reference, options: DocumentOptions = {}): Promise<TripleDocument> {
+  const { triples, metadata } = await fetchTriplesAndMetadata(uri, options);
+  return instantiateDocument(triples, metadata);
+}
 
-  const response = await get(documentRef);
+/**
+ * @internal
+ */
+export async function fetchTriplesAndMetadata(uri: Reference, options: DocumentOptions) {
+  const documentRef = getDocumentRef(uri);
+
+  const response = await get(documentRef, { fetch: options.fetch });
   if (response.ok === false) {
-    throw new Error(`Fetching the Document failed: ${response.status} ${response.statusText}.`);
+    throw await createHttpError('Fetching the Document', response, { url: documentRef, method: 'GET' });
   }
   const rawDocument = await response.text();
-  const triples = await turtleToTriples(rawDocument, documentRef);
+  let triples: Quad[];
+  try {
+    triples = await turtleToTriples(rawDocument, documentRef);
+  } catch (e) {
+    throw new ParseError(
+      `Parsing the Document failed: ${e.message}`,
+      { status: response.status, url: documentRef, method: 'GET', responseBody: rawDocument },
+    );
+  }
 
   let aclRef: Reference | undefined = extractAclRef(response, documentRef);
   const webSocketRef: Reference | null = response.headers.get('Updates-Via');
+  const etag: string | null = response.headers.get('ETag');
+  const accessModes = extractAccessModes(response);
 
-  return instantiateDocument(
-    triples,
-    {
-      aclRef: aclRef,
-      documentRef: documentRef,
-      webSocketRef: webSocketRef || undefined,
-      existsOnPod: true,
-    },
-  );
+  const metadata: DocumentMetadata & { existsOnPod: true; documentRef: Reference } = {
+    ...options,
+    aclRef: aclRef,
+    documentRef: documentRef,
+    webSocketRef: webSocketRef || undefined,
+    etag: etag || undefined,
+    accessModes: accessModes || undefined,
+    existsOnPod: true,
+  };
+
+  return { triples, metadata };
+}
+
+/**
+ * Delete a Document from the Pod
+ *
+ * @param uri Where the Document lives.
+ * @param options Optional settings:
+ *                - `fetch`: a function with the same signature as the browser's `fetch`, that
+ *                  will be used instead of the default to send the requests.
+ *                - `deleteAcl`: if `true`, the Document's ACL will be deleted as well, if it has one.
+ */
+export async function deleteDocument(uri: Reference, options: DeleteOptions = {}): Promise<void> {
+  const documentRef = getDocumentRef(uri);
+
+  let aclRef: Reference | undefined;
+  if (options.deleteAcl) {
+    const response = await head(documentRef, { fetch: options.fetch });
+    if (!response.ok) {
+      throw await createHttpError('Deleting the Document', response, { url: documentRef, method: 'HEAD' });
+    }
+    aclRef = extractAclRef(response, documentRef);
+  }
+
+  return deleteDocumentAndAcl(documentRef, aclRef, { fetch: options.fetch });
+}
+
+/**
+ * @internal
+ */
+export async function deleteDocumentAndAcl(
+  documentRef: Reference,
+  aclRef: Reference | undefined,
+  options: RequestOptions,
+) {
+  const response = await remove(documentRef, options);
+  if (!response.ok) {
+    throw await createHttpError('Deleting the Document', response, { url: documentRef, method: 'DELETE' });
+  }
+
+  // The ACL is deleted after the Document, because deleting it first could revoke the user's
+  // permission to delete the Document:
+  if (!aclRef) {
+    return;
+  }
+  const aclResponse = await remove(aclRef, options);
+  // The server might have removed the ACL along with the Document:
+  if (!aclResponse.ok && aclResponse.status !== 404) {
+    throw await createHttpError('Deleting the ACL', aclResponse, { url: aclRef, method: 'DELETE' });
+  }
+}
+
+function getDocumentRef(uri: Reference): Reference {
+  // Remove fragment identifiers (e.g. `#me`) from the URI:
+  const docUrl = new URL(uri);
+  return docUrl.origin + docUrl.pathname + docUrl.search;
 }
 
 /**
@@ -269,13 +496,58 @@ export function extractAclRef(response: Response, documentRef: Reference) {
   return aclRef;
 }
 
+/**
+ * @internal
+ * @param response A response from the Pod that might include a `WAC-Allow` header, e.g.
+ *                 `WAC-Allow: user="read write append control",public="read"`.
+ * @returns The access modes listed in the header, or `null` if the header was not included.
+ */
+export function extractAccessModes(response: Response): DocumentAccessModes | null {
+  const wacAllowHeader = response.headers.get('WAC-Allow');
+  if (wacAllowHeader === null) {
+    return null;
+  }
+
+  const modesByGroup: { [group: string]: string[] } = {};
+  const groupPattern = /(\w+)\s*=\s*"([^"]*)"/g;
+  let match = groupPattern.exec(wacAllowHeader);
+  while (match !== null) {
+    modesByGroup[match[1].toLowerCase()] = match[2].toLowerCase().split(/\s+/);
+    match = groupPattern.exec(wacAllowHeader);
+  }
+
+  return {
+    user: toAccessModes(modesByGroup.user || []),
+    public: toAccessModes(modesByGroup.public || []),
+  };
+}
+
+function toAccessModes(modes: string[]): AccessModes {
+  const write = modes.indexOf('write') !== -1;
+  return {
+    read: modes.indexOf('read') !== -1,
+    // Being allowed to write implies being allowed to append:
+    append: write || modes.indexOf('append') !== -1,
+    write: write,
+    control: modes.indexOf('control') !== -1,
+  };
+}
+
 type DocOrContainerMetadata = { documentRef: Reference } | { containerRef: Reference };
 /**
  * @ignore For internal use only.
  */
-export type DocumentMetadata = DocOrContainerMetadata & {
+export type DocumentMetadata = DocOrContainerMetadata & DocumentOptions & {
   aclRef?: Reference;
   webSocketRef?: Reference;
+  /**
+   * The ETag of the version of the Document the local Triples are based on, if known.
+   */
+  etag?: string;
+  /**
+   * The access modes the Pod reported in the `WAC-Allow` header, if any.
+   */
+  accessModes?: DocumentAccessModes;
   existsOnPod?: boolean;
 };
 function hasKnownRef<Metadata extends DocumentMetadata>(metadata: Metadata): metadata is Metadata & { documentRef: Reference } {
@@ -297,7 +569,7 @@ export function instantiateDocument(
   const dataset = initialiseDataset();
   dataset.addAll(triples);
 
-  const subjectCache = initialiseSubjectCache();
+  const subjectCache = initialiseSubjectCache(metadata);
 
   if (!hasKnownRef(metadata)) {
     return instantiateLocalTripleDocumentForContainer(dataset, subjectCache, metadata);
@@ -317,10 +589,12 @@ export interface SubjectCache {
   getSubject: TripleDocument['getSubject'];
   setDocument: (document: BareTripleDocument) => void;
   getAccessedSubjects: () => { [iri: string]: TripleSubject };
+  addChangeListener: BareTripleDocument['addChangeListener'];
 };
-function initialiseSubjectCache(): SubjectCache {
+function initialiseSubjectCache(metadata: DocumentMetadata): SubjectCache {
   let sourceDocument: BareTripleDocument;
   const accessedSubjects: { [iri: string]: TripleSubject } = {};
+  let changeListeners: Array<(change: SubjectChange) => void> = [];
 
   const setDocument = (newDocument: BareTripleDocument) => {
     sourceDocument = newDocument;
@@ -332,17 +606,41 @@ function initialiseSubjectCache(): SubjectCache {
       ? new URL(subjectRef, sourceDocument.asRef()).href
       : subjectRef;
     if (!accessedSubjects[subjectRef]) {
-      accessedSubjects[subjectRef] = initialiseSubject(sourceDocument, subjectRef);
+      accessedSubjects[subjectRef] = initialiseSubject(sourceDocument, subjectRef, subjectOptions);
     }
     return accessedSubjects[subjectRef];
   };
 
+  const getLocalSubject = (node: BlankNode) => {
+    // Local Subjects are cached as well, so that their changes get saved with the Document.
+    // Their keys can not clash with those of other Subjects, since the latter are absolute URLs:
+    const key = '_:' + node.value;
+    if (!accessedSubjects[key]) {
+      accessedSubjects[key] = initialiseSubject(sourceDocument, node, subjectOptions);
+    }
+    return accessedSubjects[key];
+  };
+
+  const subjectOptions: SubjectOptions = {
+    readPendingChanges: metadata.readPendingChanges,
+    onChange: (change) => changeListeners.forEach(listener => listener(change)),
+    getLocalSubject: getLocalSubject,
+  };
+
   const getAccessedSubjects = () => accessedSubjects;
 
+  const addChangeListener = (listener: (change: SubjectChange) => void) => {
+    changeListeners.push(listener);
+    return () => {
+      changeListeners = changeListeners.filter(otherListener => otherListener !== listener);
+    };
+  };
+
   return {
     getSubject,
     setDocument,
     getAccessedSubjects,
+    addChangeListener,
   };
 }
 
@@ -364,8 +662,48 @@ export function instantiateBareTripleDocument(
     return subjectCache.getSubject(subjectRef);
   };
 
+  const getSubjects = () => Object.values(subjectCache.getAccessedSubjects());
+
+  const discardChanges = () => {
+    getSubjects().forEach(subject => subject.discardChanges());
+  };
+
+  const hasPendingChanges = () => getSubjects().some(subject => subject.hasPendingChanges());
+
+  const getPendingTriples = () => getSubjects().reduce<[Quad[], Quad[]]>(
+    ([deletionsSoFar, additionsSoFar], subject) => {
+      const [deletions, additions] = subject.getPendingTriples();
+      return [deletionsSoFar.concat(deletions), additionsSoFar.concat(additions)];
+    },
+    [[], []],
+  );
+
+  const getChangeSummary = () => {
+    const summary: ChangeSummary = {};
+    const addToSummary = (triple: Quad, changeType: keyof PropertyChanges) => {
+      // Blank Nodes (e.g. the nodes of a list) are not exposed to library consumers:
+      if (triple.subject.termType === 'BlankNode' || triple.object.termType === 'BlankNode') {
+        return;
+      }
+      const subjectChanges = summary[triple.subject.value] = summary[triple.subject.value] || {};
+      const propertyChanges = subjectChanges[triple.predicate.value] =
+        subjectChanges[triple.predicate.value] || { added: [], removed: [] };
+      propertyChanges[changeType].push(isLiteral(triple.object) ? fromLiteral(triple.object) : triple.object.value);
+    };
+
+    const [deletions, additions] = getPendingTriples();
+    deletions.forEach(triple => addToSummary(triple, 'removed'));
+    additions.forEach(triple => addToSummary(triple, 'added'));
+    return summary;
+  };
+
   const bareTripleDocument: BareTripleDocument = {
     addSubject: addSubject,
+    discardChanges: discardChanges,
+    hasPendingChanges: hasPendingChanges,
+    getChangeSummary: getChangeSummary,
+    addChangeListener: subjectCache.addChangeListener,
+    getPendingTriples: getPendingTriples,
   };
 
   return bareTripleDocument;
@@ -377,7 +715,6 @@ export function instantiateBareTripleDocument(
 export function getPendingChanges(
   subjects: TripleSubject[],
   document: BareTripleDocument,
-  dataset: Dataset,
 ) {
   const relevantSubjects = subjects.filter((subject) => subject.getDocument() === document);
   type UpdateTriples = [Quad[], Quad[]];
@@ -389,9 +726,8 @@ export function getPendingChanges(
     [[], []],
   );
 
-  let newTriples: Quad[] = dataset.toArray()
-    .concat(allAdditions)
-    .filter(tripleToDelete => allDeletions.findIndex((triple) => triple.equals(tripleToDelete)) === -1);
+  // Documents are validated against the same Triples when saving as when validating them directly:
+  const newTriples = getTriplesAfterSave(document, [allDeletions, allAdditions]);
 
   return {
     allAdditions,
@@ -400,6 +736,39 @@ export function getPendingChanges(
   };
 }
 
+/**
+ * @internal Utility function for other parts of Tripledoc; not part of the public API.
+ * @param document The Document whose pending changes should be taken into account.
+ * @param pendingTriples The changes that will be saved; defaults to all of the Document's pending changes.
+ * @returns The Triples `document` will contain after its pending changes have been saved.
+ */
+export function getTriplesAfterSave(
+  document: BareTripleDocument,
+  [deletions, additions]: [Quad[], Quad[]] = document.getPendingTriples(),
+): Quad[] {
+  const storedTriples = isSavedToPod(document) ? document.getTriples() : [];
+  return getTriplesAfterChanges(storedTriples, { deletions: deletions, additions: additions });
+}
+
+/**
+ * @internal Utility function for the different types of Documents; not part of the public API.
+ * @param newTriples The Triples the Document will contain after saving.
+ * @param metadata The Document's metadata, possibly containing the shapes it should conform to.
+ * @throws A [[ValidationError]] if the Document should conform to shapes, but `newTriples` do not.
+ */
+export function validateBeforeSave(newTriples: Quad[], metadata: DocumentMetadata) {
+  if (typeof metadata.shapes === 'undefined') {
+    return;
+  }
+  const report = metadata.shapes.validateTriples(newTriples);
+  if (!report.conforms) {
+    throw new ValidationError(
+      `Saving the Document was refused: its data would violate ${report.results.length} constraint(s) of the given shapes.`,
+      report,
+    );
+  }
+}
+
 /**
  * Generate a string that can be used as the unique identifier for a Subject
  *
@@ -1,7 +1,8 @@
 import { Reference } from '..';
-import { create } from '../pod';
+import { create, head } from '../pod';
 import { Dataset } from '../n3dataset';
-import { SubjectCache, DocumentMetadata, LocalTripleDocumentWithRef, instantiateBareTripleDocument, getPendingChanges, extractAclRef, instantiateDocument } from '../document';
+import { createHttpError } from '../errors';
+import { SubjectCache, DocumentMetadata, DocumentAccessModes, LocalTripleDocumentWithRef, instantiateBareTripleDocument, getPendingChanges, validateBeforeSave, extractAclRef, extractAccessModes, instantiateDocument } from '../document';
 
 /**
  * @internal
@@ -14,17 +15,17 @@ export function instantiateLocalTripleDocument(dataset: Dataset, subjectCache: S
   const asRef = () => metadata.documentRef;
 
   const save = async (subjects = Object.values(subjectCache.getAccessedSubjects())) => {
-    const pendingChanges = getPendingChanges(subjects, tripleDocumentWithRef, dataset);
+    const pendingChanges = getPendingChanges(subjects, tripleDocumentWithRef);
+    validateBeforeSave(pendingChanges.newTriples, metadata);
 
     let updatedMetadata: DocumentMetadata & {
       existsOnPod: true;
       documentRef: Reference;
     };
 
-    const response = await create(metadata.documentRef, pendingChanges.allAdditions);
+    const response = await create(metadata.documentRef, pendingChanges.allAdditions, { fetch: metadata.fetch });
     if (!response.ok) {
-      const message = await response.text();
-      throw new Error(message);
+      throw await createHttpError('Creating the Document', response, { url: metadata.documentRef, method: 'PUT' });
     }
 
     updatedMetadata = {
@@ -42,6 +43,17 @@ export function instantiateLocalTripleDocument(dataset: Dataset, subjectCache: S
       updatedMetadata.webSocketRef = webSocketRef;
     }
 
+    const etag = response.headers.get('ETag');
+    if (etag) {
+      updatedMetadata.etag = etag;
+    }
+
+    // Not every Pod reports access modes when creating a Document, in which case we ask for them:
+    const accessModes = extractAccessModes(response) || await requestAccessModes(metadata.documentRef, metadata);
+    if (accessModes) {
+      updatedMetadata.accessModes = accessModes;
+    }
+
     // Instantiate a new TripleDocument that includes the updated Triples:
     return instantiateDocument(pendingChanges.newTriples, updatedMetadata);
   };
@@ -59,3 +71,16 @@ export function instantiateLocalTripleDocument(dataset: Dataset, subjectCache: S
   subjectCache.setDocument(tripleDocumentWithRef);
   return tripleDocumentWithRef;
 }
+
+/**
+ * Since the Document has already been created at this point, failing to determine the access
+ * modes should not make saving it fail; they will just be unknown.
+ */
+async function requestAccessModes(documentRef: Reference, metadata: DocumentMetadata): Promise<DocumentAccessModes | null> {
+  try {
+    const response = await head(documentRef, { fetch: metadata.fetch });
+    return response.ok ? extractAccessModes(response) : null;
+  } catch (e) {
+    return null;
+  }
+}
@@ -1,7 +1,8 @@
 import { Reference } from '..';
 import { head, createInContainer } from '../pod';
 import { Dataset } from '../n3dataset';
-import { SubjectCache, DocumentMetadata, LocalTripleDocumentForContainer, instantiateBareTripleDocument, getPendingChanges, extractAclRef, instantiateDocument } from '../document';
+import { createHttpError, HttpError } from '../errors';
+import { SubjectCache, DocumentMetadata, LocalTripleDocumentForContainer, instantiateBareTripleDocument, getPendingChanges, validateBeforeSave, extractAclRef, extractAccessModes, instantiateDocument } from '../document';
 
 /**
  * @internal
@@ -12,18 +13,37 @@ export function instantiateLocalTripleDocumentForContainer(dataset: Dataset, sub
   const bareTripleDocument = instantiateBareTripleDocument(subjectCache, metadata);
 
   const save = async (subjects = Object.values(subjectCache.getAccessedSubjects())) => {
-    const pendingChanges = getPendingChanges(subjects, localTripleDocumentForContainer, dataset);
+    const pendingChanges = getPendingChanges(subjects, localTripleDocumentForContainer);
+    validateBeforeSave(pendingChanges.newTriples, metadata);
 
     let updatedMetadata: DocumentMetadata & {
       existsOnPod: true;
       documentRef: Reference;
     };
 
-    const containerResponse = await createInContainer(metadata.containerRef, pendingChanges.allAdditions);
+    const containerResponse = await createInContainer(
+      metadata.containerRef,
+      pendingChanges.allAdditions,
+      { fetch: metadata.fetch },
+    );
+    if (!containerResponse.ok) {
+      throw await createHttpError(
+        'Creating the Document',
+        containerResponse,
+        { url: metadata.containerRef, method: 'POST' },
+      );
+    }
     const locationHeader = containerResponse.headers.get('Location');
-    if (!containerResponse.ok || locationHeader === null) {
-      const message = await containerResponse.text();
-      throw new Error(message);
+    if (locationHeader === null) {
+      throw new HttpError(
+        'Creating the Document failed: the Pod did not report where it was created.',
+        {
+          status: containerResponse.status,
+          url: metadata.containerRef,
+          method: 'POST',
+          responseBody: await containerResponse.text(),
+        },
+      );
     }
 
     const documentRef = new URL(locationHeader, new URL(metadata.containerRef).origin).href;
@@ -34,7 +54,7 @@ export function instantiateLocalTripleDocumentForContainer(dataset: Dataset, sub
       existsOnPod: true,
     };
 
-    const documentResponse = await head(documentRef);
+    const documentResponse = await head(documentRef, { fetch: metadata.fetch });
 
     const aclRef = extractAclRef(documentResponse, documentRef);
     if (aclRef) {
@@ -46,6 +66,16 @@ export function instantiateLocalTripleDocumentForContainer(dataset: Dataset, sub
       updatedMetadata.webSocketRef = webSocketRef;
     }
 
+    const etag = documentResponse.headers.get('ETag');
+    if (etag) {
+      updatedMetadata.etag = etag;
+    }
+
+    const accessModes = extractAccessModes(documentResponse);
+    if (accessModes) {
+      updatedMetadata.accessModes = accessModes;
+    }
+
     // Instantiate a new TripleDocument that includes the updated Triples:
     return instantiateDocument(pendingChanges.newTriples, updatedMetadata);
   };
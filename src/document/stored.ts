@@ -1,8 +1,13 @@
+import { Quad } from 'rdf-js';
 import { Reference, isReference } from '..';
 import { update } from '../pod';
 import { findSubjectInDataset, findSubjectsInDataset, FindEntityInDataset, FindEntitiesInDataset, findEntitiesInDataset } from '../getEntities';
 import { Dataset } from '../n3dataset';
-import { SubjectCache, DocumentMetadata, TripleDocument, getPendingChanges, instantiateDocument } from '../document';
+import { SubjectCache, DocumentMetadata, DocumentAccessModes, TripleDocument, getPendingChanges, validateBeforeSave, instantiateDocument, fetchTriplesAndMetadata, deleteDocumentAndAcl, extractAccessModes } from '../document';
+import { EditConflictError, PreconditionFailedError, createHttpError } from '../errors';
+import { Changes, rebaseChanges, applyResolutions } from '../merge';
+import { watchResource } from '../watch';
+import { getTriplesAfterChanges } from '../triples';
 import { instantiateLocalTripleDocument } from "./local";
 
 /**
@@ -22,6 +27,59 @@ export function instantiateFullTripleDocument(dataset: Dataset, subjectCache: Su
     return metadata.webSocketRef || null;
   };
 
+  const getAccessModes: () => DocumentAccessModes | null = () => {
+    return metadata.accessModes || null;
+  };
+
+  const subscribe = (
+    onUpdate: (document: TripleDocument) => void,
+    onError: (error: Error) => void = () => undefined,
+  ) => {
+    if (!metadata.webSocketRef) {
+      throw new Error('The Pod does not support notifying of updates to this Document.');
+    }
+    // Only fetch one update at a time, so that responses can not arrive out of order and make
+    // `onUpdate` receive an outdated Document last. Updates published in the meantime are handled by
+    // a single fetch afterwards:
+    let isFetching = false;
+    let hasQueuedUpdate = false;
+    // Fetches that are still running when unsubscribing should no longer notify the listeners:
+    let isStopped = false;
+    const fetchUpdate = () => {
+      if (isStopped) {
+        return;
+      }
+      if (isFetching) {
+        hasQueuedUpdate = true;
+        return;
+      }
+      isFetching = true;
+      fetchTriplesAndMetadata(metadata.documentRef, metadata)
+        .then(current => {
+          if (!isStopped) {
+            onUpdate(instantiateDocument(current.triples, current.metadata));
+          }
+        })
+        .catch((error) => {
+          if (!isStopped) {
+            onError(error);
+          }
+        })
+        .then(() => {
+          isFetching = false;
+          if (hasQueuedUpdate) {
+            hasQueuedUpdate = false;
+            fetchUpdate();
+          }
+        });
+    };
+    const stopWatching = watchResource(metadata.webSocketRef, metadata.documentRef, fetchUpdate);
+    return () => {
+      isStopped = true;
+      stopWatching();
+    };
+  };
+
   const removeSubject = (subjectRef: Reference) => {
     const subject = subjectCache.getSubject(subjectRef);
     return subject.clear();
@@ -56,22 +114,20 @@ export function instantiateFullTripleDocument(dataset: Dataset, subjectCache: Su
   };
 
   const save = async (subjects = Object.values(subjectCache.getAccessedSubjects())) => {
-    const pendingChanges = getPendingChanges(subjects, tripleDocument, dataset);
-
-    let updatedMetadata: DocumentMetadata & {
-      existsOnPod: true;
-      documentRef: Reference;
-    };
-
-    const response = await update(metadata.documentRef, pendingChanges.allDeletions, pendingChanges.allAdditions);
-    if (!response.ok) {
-      const message = await response.text();
-      throw new Error(message);
-    }
+    const pendingChanges = getPendingChanges(subjects, tripleDocument);
+    validateBeforeSave(pendingChanges.newTriples, metadata);
+
+    return saveChanges(
+      dataset.toArray(),
+      metadata,
+      { deletions: pendingChanges.allDeletions, additions: pendingChanges.allAdditions },
+      maxMergeAttempts,
+    );
+  };
 
-    updatedMetadata = { ...metadata, existsOnPod: true };
-    // Instantiate a new TripleDocument that includes the updated Triples:
-    return instantiateDocument(pendingChanges.newTriples, updatedMetadata);
+  const deleteDocument = (options: { deleteAcl?: boolean } = {}) => {
+    const aclRef = options.deleteAcl ? metadata.aclRef : undefined;
+    return deleteDocumentAndAcl(metadata.documentRef, aclRef, { fetch: metadata.fetch });
   };
 
   const getStore = () => dataset;
@@ -87,6 +143,9 @@ export function instantiateFullTripleDocument(dataset: Dataset, subjectCache: Su
     findSubjects: findSubjects,
     getAclRef: getAclRef,
     getWebSocketRef: getWebSocketRef,
+    getAccessModes: getAccessModes,
+    subscribe: subscribe,
+    delete: deleteDocument,
     // Experimental methods:
     experimental_getAllSubjects: getAllSubjects,
     // Escape hatches, should not be necessary:
@@ -104,6 +163,75 @@ export function instantiateFullTripleDocument(dataset: Dataset, subjectCache: Su
   return tripleDocument;
 }
 
+/**
+ * The number of times changes will be re-applied if the Document keeps being modified on the Pod
+ * while trying to save them, before giving up.
+ */
+const maxMergeAttempts = 3;
+
+async function saveChanges(
+  originalTriples: Quad[],
+  metadata: DocumentMetadata & { existsOnPod: true; documentRef: Reference; },
+  changes: Changes,
+  mergeAttemptsLeft: number,
+): Promise<TripleDocument> {
+  const response = await update(
+    metadata.documentRef,
+    changes.deletions,
+    changes.additions,
+    { fetch: metadata.fetch, etag: metadata.etag },
+    originalTriples,
+  );
+  if (!response.ok) {
+    const error = await createHttpError(
+      'Saving the Document',
+      response,
+      { url: metadata.documentRef, method: 'PATCH' },
+    );
+    if (!(error instanceof PreconditionFailedError)) {
+      throw error;
+    }
+
+    const current = await fetchTriplesAndMetadata(metadata.documentRef, metadata);
+    const currentDocument = instantiateDocument(current.triples, current.metadata);
+    const conflictMessage = 'The Document was modified on the Pod after it was fetched.';
+    if (typeof metadata.onConflict === 'undefined' || metadata.onConflict === 'error' || mergeAttemptsLeft === 0) {
+      throw new EditConflictError(conflictMessage, error, currentDocument);
+    }
+
+    const rebasedChanges = rebaseChanges(originalTriples, current.triples, changes);
+    const conflicts = rebasedChanges.conflicts.map(conflict => conflict.report);
+    if (conflicts.length > 0 && metadata.onConflict === 'merge') {
+      throw new EditConflictError(conflictMessage, error, currentDocument, conflicts);
+    }
+    const resolutions = (conflicts.length > 0 && typeof metadata.onConflict === 'function')
+      ? await metadata.onConflict(conflicts)
+      : [];
+
+    const mergedChanges = applyResolutions(rebasedChanges, resolutions);
+    // The merged changes might not conform to the Document's shapes, even if the original ones did:
+    validateBeforeSave(getTriplesAfterChanges(current.triples, mergedChanges), current.metadata);
+
+    return saveChanges(
+      current.triples,
+      current.metadata,
+      mergedChanges,
+      mergeAttemptsLeft - 1,
+    );
+  }
+
+  const newTriples = getTriplesAfterChanges(originalTriples, changes);
+  // The ETag we had no longer applies after our changes, so only keep the one (if any)
+  // describing the updated Document:
+  const updatedMetadata: DocumentMetadata & { existsOnPod: true; documentRef: Reference; } = {
+    ...metadata,
+    etag: response.headers.get('ETag') || undefined,
+    accessModes: extractAccessModes(response) || metadata.accessModes,
+  };
+  // Instantiate a new TripleDocument that includes the updated Triples:
+  return instantiateDocument(newTriples, updatedMetadata);
+}
+
 const withDocumentSingular = (
   getEntityFromTriples: FindEntityInDataset,
   dataset: Dataset,
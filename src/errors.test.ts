@@ -0,0 +1,64 @@
+import { Response } from 'node-fetch';
+import {
+  createHttpError,
+  HttpError,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+  PreconditionFailedError,
+  ServerError,
+} from './errors';
+
+const mockRequest = { url: 'https://some-document.com', method: 'GET' };
+
+describe('createHttpError', () => {
+  it('should return a NotFoundError for 404 responses', async () => {
+    const error = await createHttpError('Some request', new Response('', { status: 404 }) as any, mockRequest);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.name).toBe('NotFoundError');
+  });
+
+  it('should return an UnauthorizedError for 401 responses', async () => {
+    const error = await createHttpError('Some request', new Response('', { status: 401 }) as any, mockRequest);
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error.name).toBe('UnauthorizedError');
+  });
+
+  it('should return a ForbiddenError for 403 responses', async () => {
+    const error = await createHttpError('Some request', new Response('', { status: 403 }) as any, mockRequest);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.name).toBe('ForbiddenError');
+  });
+
+  it('should return a ConflictError for 409 responses', async () => {
+    const error = await createHttpError('Some request', new Response('', { status: 409 }) as any, mockRequest);
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.name).toBe('ConflictError');
+  });
+
+  it('should return a PreconditionFailedError for 412 responses', async () => {
+    const error = await createHttpError('Some request', new Response('', { status: 412 }) as any, mockRequest);
+    expect(error).toBeInstanceOf(PreconditionFailedError);
+    expect(error.name).toBe('PreconditionFailedError');
+  });
+
+  it('should return a ServerError for 5xx responses', async () => {
+    const error = await createHttpError('Some request', new Response('', { status: 503 }) as any, mockRequest);
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.name).toBe('ServerError');
+  });
+
+  it('should return a generic HttpError for other error responses', async () => {
+    const error = await createHttpError('Some request', new Response('Some error', { status: 418 }) as any, mockRequest);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).not.toBeInstanceOf(NotFoundError);
+    expect(error.name).toBe('HttpError');
+    expect(error.message).toBe('Some request failed: 418 I\'m a Teapot.');
+    expect(error.status).toBe(418);
+    expect(error.url).toBe('https://some-document.com');
+    expect(error.method).toBe('GET');
+    expect(error.responseBody).toBe('Some error');
+  });
+});
@@ -0,0 +1,269 @@
+import { Reference } from '.';
+import { TripleDocument } from './document';
+import { EditConflict } from './merge';
+import { SaveAllResult } from './transaction';
+import { ValidationReport } from './shacl';
+
+/*
+ * Note: since we compile to ES5, extending Error does not set up the prototype chain properly,
+ *       which would break `instanceof` checks. Hence, every error class below explicitly sets its
+ *       prototype. See
+ *       https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#extending-built-ins-like-error-array-and-map-may-no-longer-work
+ *
+ *       Additionally, TypeScript's ES5 output for `super()` contains a branch we cannot reach,
+ *       which is why the constructors are excluded from code coverage.
+ */
+
+/**
+ * Details of a failed request to the Pod.
+ *
+ * @ignore This is documented on use.
+ */
+export interface RequestDetails {
+  /**
+   * The HTTP status code the server responded with.
+   */
+  status: number;
+  /**
+   * The URL the request was sent to.
+   */
+  url: Reference;
+  /**
+   * The HTTP method of the request, e.g. `GET` or `PATCH`.
+   */
+  method: string;
+  /**
+   * The body of the server's response, which might contain more information about the error.
+   */
+  responseBody: string;
+};
+
+/**
+ * Thrown when a request to the Pod fails.
+ *
+ * More specific errors, e.g. when the requested Resource does not exist, are thrown as subclasses
+ * of this error, so you can check for them using `instanceof`.
+ */
+export class HttpError extends Error implements RequestDetails {
+  public status: number;
+  public url: Reference;
+  public method: string;
+  public responseBody: string;
+
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message);
+    Object.setPrototypeOf(this, HttpError.prototype);
+    this.name = 'HttpError';
+    this.status = details.status;
+    this.url = details.url;
+    this.method = details.method;
+    this.responseBody = details.responseBody;
+  }
+}
+
+/**
+ * Thrown when the requested Resource does not exist (HTTP status 404).
+ */
+export class NotFoundError extends HttpError {
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message, details);
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when the request requires the user to be authenticated, and they are not (HTTP status 401).
+ */
+export class UnauthorizedError extends HttpError {
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message, details);
+    Object.setPrototypeOf(this, UnauthorizedError.prototype);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Thrown when the current user is not allowed to perform the request (HTTP status 403).
+ */
+export class ForbiddenError extends HttpError {
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message, details);
+    Object.setPrototypeOf(this, ForbiddenError.prototype);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Thrown when the request conflicts with the current state of the Resource, e.g. when trying to
+ * delete a Container that is not empty (HTTP status 409).
+ */
+export class ConflictError extends HttpError {
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message, details);
+    Object.setPrototypeOf(this, ConflictError.prototype);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Thrown when the Resource on the Pod is not in the state the request expected it to be in, e.g.
+ * when trying to create a Document that already exists (HTTP status 412).
+ */
+export class PreconditionFailedError extends HttpError {
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message, details);
+    Object.setPrototypeOf(this, PreconditionFailedError.prototype);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * Thrown when the Pod encountered an error while handling the request (HTTP status 5xx).
+ */
+export class ServerError extends HttpError {
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message, details);
+    Object.setPrototypeOf(this, ServerError.prototype);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Thrown when the Pod returned a Document that could not be parsed as Turtle.
+ *
+ * Note that the request itself succeeded, so [[status]] will be a successful status code.
+ */
+export class ParseError extends HttpError {
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, details: RequestDetails) {
+    super(message, details);
+    Object.setPrototypeOf(this, ParseError.prototype);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Thrown when saving a Document failed because it was changed on the Pod since it was fetched.
+ *
+ * The Document as it is currently stored on the Pod is available as [[document]], so that you can
+ * e.g. show the user what changed, or re-apply their changes to it and try again. If the Document
+ * was set to merge changes on conflicts, the changes that could not be merged are listed in
+ * [[conflicts]].
+ */
+export class EditConflictError extends PreconditionFailedError {
+  /**
+   * The Document as it is currently stored on the Pod.
+   */
+  public document: TripleDocument;
+  /**
+   * The properties that were modified both locally and on the Pod, in incompatible ways.
+   */
+  public conflicts: EditConflict[];
+
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(
+    message: string,
+    details: RequestDetails,
+    document: TripleDocument,
+    conflicts: EditConflict[] = [],
+  ) {
+    super(message, details);
+    Object.setPrototypeOf(this, EditConflictError.prototype);
+    this.name = 'EditConflictError';
+    this.document = document;
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Thrown when [[saveAll]] could not save every Document.
+ *
+ * The changes to Documents that were already saved will have been reverted, if possible. The state
+ * every Document ended up in is listed in [[results]].
+ */
+export class SaveAllError extends Error {
+  /**
+   * The error that caused saving the Documents to be aborted.
+   */
+  public cause: Error;
+  /**
+   * For every Document passed to [[saveAll]], at the same index, what happened to it.
+   */
+  public results: SaveAllResult[];
+
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, cause: Error, results: SaveAllResult[]) {
+    super(message);
+    Object.setPrototypeOf(this, SaveAllError.prototype);
+    this.name = 'SaveAllError';
+    this.cause = cause;
+    this.results = results;
+  }
+}
+
+/**
+ * Thrown when saving a Document was refused because its data would not conform to the `shapes` it
+ * was fetched or created with.
+ *
+ * Nothing will have been sent to the Pod. Why the data does not conform is listed in [[report]].
+ */
+export class ValidationError extends Error {
+  /**
+   * The result of validating the Document as it would have been after saving.
+   */
+  public report: ValidationReport;
+
+  /* istanbul ignore next: see the note at the top of this file */
+  constructor(message: string, report: ValidationReport) {
+    super(message);
+    Object.setPrototypeOf(this, ValidationError.prototype);
+    this.name = 'ValidationError';
+    this.report = report;
+  }
+}
+
+/**
+ * @internal Utility function for other parts of Tripledoc; not part of the public API.
+ * @param description Description of what the request was trying to do, e.g. "Fetching the Document".
+ * @param response The error response returned by the Pod.
+ * @param request The URL and HTTP method of the failed request.
+ * @returns The error that best describes the failed request.
+ */
+export async function createHttpError(
+  description: string,
+  response: Response,
+  request: { url: Reference; method: string },
+): Promise<HttpError> {
+  const message = `${description} failed: ${response.status} ${response.statusText}.`;
+  const details: RequestDetails = {
+    status: response.status,
+    url: request.url,
+    method: request.method,
+    responseBody: await response.text(),
+  };
+
+  switch (response.status) {
+    case 401:
+      return new UnauthorizedError(message, details);
+    case 403:
+      return new ForbiddenError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 409:
+      return new ConflictError(message, details);
+    case 412:
+      return new PreconditionFailedError(message, details);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new HttpError(message, details);
+}
@@ -0,0 +1,328 @@
+import { Quad } from 'rdf-js';
+import { Response } from 'node-fetch';
+import { fetchDocument, DocumentOptions } from './document';
+import { createHistory } from './history';
+
+const mockDocument = 'https://document.com/';
+const mockSubject = 'https://document.com/#subject1';
+const mockSubject2 = 'https://document.com/#subject2';
+const mockPredicate = 'https://mock-predicate.com/';
+const mockObject = 'https://mock-object.com/';
+const mockObject2 = 'https://mock-object-2.com/';
+const mockObject3 = 'https://mock-object-3.com/';
+const mockTurtle = `<${mockSubject}> <${mockPredicate}> <${mockObject}>.`;
+
+let mockGetter: jest.Mock;
+let mockUpdater: jest.Mock;
+jest.mock('./pod', () => {
+  mockGetter = jest.fn(() => Promise.resolve(new Response(mockTurtle)));
+  mockUpdater = jest.fn(() => Promise.resolve(new Response()));
+  return {
+    get: mockGetter,
+    update: mockUpdater,
+  };
+});
+
+function getMockHistory(options: DocumentOptions = {}) {
+  return fetchDocument(mockDocument, { readPendingChanges: true, ...options }).then(createHistory);
+}
+
+function getObjects(triples: Quad[]) {
+  return triples.map(triple => triple.object.value);
+}
+
+describe('undo', () => {
+  it('should revert the most recent change', async () => {
+    const history = await getMockHistory();
+    const subject = history.getDocument().getSubject(mockSubject);
+    subject.addRef(mockPredicate, mockObject2);
+    subject.addRef(mockPredicate, mockObject3);
+
+    history.undo();
+    expect(subject.getAllRefs(mockPredicate)).toEqual([mockObject, mockObject2]);
+    history.undo();
+    expect(subject.getAllRefs(mockPredicate)).toEqual([mockObject]);
+    expect(history.getDocument().hasPendingChanges()).toBe(false);
+  });
+
+  it('should revert changes to different Subjects separately', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).setRef(mockPredicate, mockObject2);
+    history.getDocument().getSubject(mockSubject2).addRef(mockPredicate, mockObject3);
+
+    history.undo();
+    expect(history.getDocument().getSubject(mockSubject).getRef(mockPredicate)).toBe(mockObject2);
+    expect(history.getDocument().getSubject(mockSubject2).getRef(mockPredicate)).toBeNull();
+  });
+
+  it('should be able to revert discarding changes', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).setRef(mockPredicate, mockObject2);
+    history.getDocument().discardChanges();
+
+    history.undo();
+    expect(history.getDocument().getSubject(mockSubject).getRef(mockPredicate)).toBe(mockObject2);
+  });
+
+  it('should not record methods that do not change anything', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).addRef(mockPredicate, mockObject);
+    history.getDocument().discardChanges();
+
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should not record changes made before the history was created', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockTripleDocument.getSubject(mockSubject).addRef(mockPredicate, mockObject2);
+    const history = createHistory(mockTripleDocument);
+
+    expect(history.canUndo()).toBe(false);
+    history.undo();
+    expect(mockTripleDocument.hasPendingChanges()).toBe(true);
+  });
+
+  it('should revert changes that were already saved when saving again', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).setRef(mockPredicate, mockObject2);
+    await history.save();
+    expect(history.getDocument().getSubject(mockSubject).getRef(mockPredicate)).toBe(mockObject2);
+
+    history.undo();
+    expect(history.getDocument().getSubject(mockSubject).getRef(mockPredicate)).toBe(mockObject);
+    const savedDocument = await history.save();
+
+    expect(mockUpdater.mock.calls.length).toBe(2);
+    expect(getObjects(mockUpdater.mock.calls[1][1])).toEqual([mockObject2]);
+    expect(getObjects(mockUpdater.mock.calls[1][2])).toEqual([mockObject]);
+    expect(savedDocument.getSubject(mockSubject).getAllRefs(mockPredicate)).toEqual([mockObject]);
+  });
+
+  it('should revert multiple changes to the same Subject that were already saved', async () => {
+    const history = await getMockHistory();
+    history.group(() => {
+      const subject = history.getDocument().getSubject(mockSubject);
+      subject.addRef(mockPredicate, mockObject2);
+      subject.addRef(mockPredicate, mockObject3);
+      subject.removeRef(mockPredicate, mockObject2);
+    });
+    await history.save();
+
+    history.undo();
+    await history.save();
+
+    expect(getObjects(mockUpdater.mock.calls[1][1])).toEqual([mockObject3]);
+    expect(getObjects(mockUpdater.mock.calls[1][2])).toEqual([]);
+  });
+
+  it('should combine the reverted changes of multiple saved steps', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).addRef(mockPredicate, mockObject2);
+    await history.save();
+    history.getDocument().getSubject(mockSubject).removeRef(mockPredicate, mockObject2);
+    await history.save();
+
+    history.undo();
+    history.undo();
+    await history.save();
+
+    // Re-adding mockObject2 and then removing it again cancel each other out:
+    expect(mockUpdater.mock.calls[2][1]).toEqual([]);
+    expect(mockUpdater.mock.calls[2][2]).toEqual([]);
+  });
+
+  it('should cancel out reverting the removal and re-addition of a saved value', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).removeRef(mockPredicate, mockObject);
+    await history.save();
+    history.getDocument().getSubject(mockSubject).addRef(mockPredicate, mockObject);
+    await history.save();
+
+    history.undo();
+    history.undo();
+
+    expect(history.getDocument().hasPendingChanges()).toBe(false);
+  });
+
+  it('should not remove values that are no longer stored on the Pod', async () => {
+    const mockResolver = jest.fn(() => ['remote' as const]);
+    const history = await getMockHistory({ onConflict: mockResolver });
+    history.getDocument().getSubject(mockSubject).setRef(mockPredicate, mockObject2);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockSubject}> <${mockPredicate}> <${mockObject}>, <${mockObject3}>.`,
+    )));
+    await history.save();
+    expect(history.getDocument().getSubject(mockSubject).getAllRefs(mockPredicate))
+      .toEqual([mockObject, mockObject3]);
+
+    history.undo();
+
+    // mockObject2 was never saved, and mockObject was kept:
+    expect(history.getDocument().hasPendingChanges()).toBe(false);
+  });
+
+  it('should revert adding local Subjects that were already saved', async () => {
+    const history = await getMockHistory();
+    history.group(() => {
+      const localSubject = history.getDocument().getSubject(mockSubject).addLocalSubject(mockPredicate);
+      localSubject.addRef(mockPredicate, mockObject2);
+    });
+    await history.save();
+
+    history.undo();
+    await history.save();
+
+    expect(mockUpdater.mock.calls[1][1]).toEqual(mockUpdater.mock.calls[0][2]);
+    expect(mockUpdater.mock.calls[1][2]).toEqual([]);
+  });
+
+  it('should do nothing if there is nothing to undo', async () => {
+    const history = await getMockHistory();
+
+    expect(history.canUndo()).toBe(false);
+    history.undo();
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should not be possible while grouping changes', async () => {
+    const history = await getMockHistory();
+
+    expect(() => history.group(() => history.undo()))
+      .toThrowError('Changes can not be undone while they are being grouped.');
+  });
+});
+
+describe('redo', () => {
+  it('should re-apply the most recently undone change', async () => {
+    const history = await getMockHistory();
+    const subject = history.getDocument().getSubject(mockSubject);
+    subject.addRef(mockPredicate, mockObject2);
+    subject.addRef(mockPredicate, mockObject3);
+    history.undo();
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+
+    history.redo();
+    expect(subject.getAllRefs(mockPredicate)).toEqual([mockObject, mockObject2]);
+    history.redo();
+    expect(subject.getAllRefs(mockPredicate)).toEqual([mockObject, mockObject2, mockObject3]);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should no longer be possible after making new changes', async () => {
+    const history = await getMockHistory();
+    const subject = history.getDocument().getSubject(mockSubject);
+    subject.addRef(mockPredicate, mockObject2);
+    history.undo();
+    subject.addRef(mockPredicate, mockObject3);
+
+    expect(history.canRedo()).toBe(false);
+    history.redo();
+    expect(subject.getAllRefs(mockPredicate)).toEqual([mockObject, mockObject3]);
+  });
+
+  it('should cancel out reverting changes that were already saved, if that was not saved yet', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).addRef(mockPredicate, mockObject2);
+    await history.save();
+
+    history.undo();
+    history.redo();
+
+    expect(history.getDocument().hasPendingChanges()).toBe(false);
+    expect(history.getDocument().getSubject(mockSubject).getAllRefs(mockPredicate))
+      .toEqual([mockObject, mockObject2]);
+  });
+
+  it('should re-apply undone changes that were already saved when saving again', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).addRef(mockPredicate, mockObject2);
+    history.undo();
+    await history.save();
+
+    history.redo();
+    await history.save();
+
+    expect(getObjects(mockUpdater.mock.calls[1][1])).toEqual([]);
+    expect(getObjects(mockUpdater.mock.calls[1][2])).toEqual([mockObject2]);
+
+    // Redone changes can be undone again:
+    history.undo();
+    expect(history.getDocument().getSubject(mockSubject).getAllRefs(mockPredicate)).toEqual([mockObject]);
+  });
+
+  it('should not be possible while grouping changes', async () => {
+    const history = await getMockHistory();
+    history.getDocument().getSubject(mockSubject).addRef(mockPredicate, mockObject2);
+    history.undo();
+
+    expect(() => history.group(() => history.redo()))
+      .toThrowError('Changes can not be redone while they are being grouped.');
+  });
+});
+
+describe('group', () => {
+  it('should undo and redo all grouped changes at once', async () => {
+    const history = await getMockHistory();
+    const subject = history.getDocument().getSubject(mockSubject);
+    history.group(() => {
+      subject.addRef(mockPredicate, mockObject2);
+      history.group(() => {
+        subject.addRef(mockPredicate, mockObject3);
+      });
+      history.getDocument().getSubject(mockSubject2).addRef(mockPredicate, mockObject);
+    });
+
+    history.undo();
+    expect(history.canUndo()).toBe(false);
+    expect(history.getDocument().hasPendingChanges()).toBe(false);
+
+    history.redo();
+    expect(subject.getAllRefs(mockPredicate)).toEqual([mockObject, mockObject2, mockObject3]);
+    expect(history.getDocument().getSubject(mockSubject2).getRef(mockPredicate)).toBe(mockObject);
+  });
+
+  it('should not record a step if nothing was changed', async () => {
+    const history = await getMockHistory();
+    history.group(() => undefined);
+
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should stop grouping changes if making them failed', async () => {
+    const history = await getMockHistory();
+    const subject = history.getDocument().getSubject(mockSubject);
+    expect(() => history.group(() => {
+      subject.addRef(mockPredicate, mockObject2);
+      subject.addInteger(mockPredicate, 4.2);
+    })).toThrowError('The given value is not an integer.');
+    subject.addRef(mockPredicate, mockObject3);
+
+    history.undo();
+    expect(subject.getAllRefs(mockPredicate)).toEqual([mockObject, mockObject2]);
+  });
+});
+
+describe('save', () => {
+  it('should keep recording changes to the saved Document', async () => {
+    const history = await getMockHistory();
+    const originalDocument = history.getDocument();
+    const savedDocument = await history.save();
+    expect(history.getDocument()).toBe(savedDocument);
+
+    originalDocument.getSubject(mockSubject).addRef(mockPredicate, mockObject2);
+    expect(history.canUndo()).toBe(false);
+    savedDocument.getSubject(mockSubject).addRef(mockPredicate, mockObject2);
+    expect(history.canUndo()).toBe(true);
+  });
+
+  it('should keep the current Document if saving failed', async () => {
+    const history = await getMockHistory();
+    const originalDocument = history.getDocument();
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 403 })));
+
+    await expect(history.save()).rejects.toThrowError();
+    expect(history.getDocument()).toBe(originalDocument);
+  });
+});
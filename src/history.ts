@@ -0,0 +1,255 @@
+import { Quad } from 'rdf-js';
+import { TripleDocument } from './document';
+import { TripleSubject, SubjectChange } from './subject';
+import { Changes } from './merge';
+import { contains, groupBySubject, getTriplesAfterChanges } from './triples';
+
+/**
+ * Keeps track of the changes made to a [[TripleDocument]], so that they can be undone and redone.
+ *
+ * Every call to one of the `add*`, `set*` and `remove*` methods of the Document's
+ * [[TripleSubject]]s is recorded as a separate step, unless it is made inside [[group]]. Changes
+ * that have already been saved can be undone as well: the changes needed to revert them will then
+ * be applied to the Document, and sent to the Pod the next time you call [[save]].
+ */
+export interface TripleHistory {
+  /**
+   * @returns The Document whose changes are being recorded. This is a different Document after
+   *          every call to [[save]].
+   */
+  getDocument: () => TripleDocument;
+  /**
+   * Record every change made in `makeChanges` as a single step, so that they are undone and redone
+   * together, e.g. all the changes made when submitting a form.
+   *
+   * @param group.makeChanges Function that modifies the Document's Subjects.
+   */
+  group: (makeChanges: () => void) => void;
+  /**
+   * @returns Whether there are changes that can be undone.
+   */
+  canUndo: () => boolean;
+  /**
+   * @returns Whether there are undone changes that can be redone.
+   */
+  canRedo: () => boolean;
+  /**
+   * Undo the most recent step that has not been undone yet.
+   */
+  undo: () => void;
+  /**
+   * Redo the most recently undone step.
+   */
+  redo: () => void;
+  /**
+   * Save the Document's changes to the Pod, including those made by undoing or redoing steps that
+   * were already saved.
+   *
+   * Use this instead of calling [[TripleDocument.save]] directly, so that the history keeps
+   * recording changes to the saved Document.
+   *
+   * @returns The saved Document, which will also be returned by [[getDocument]] from now on.
+   */
+  save: () => Promise<TripleDocument>;
+};
+
+/**
+ * The pending deletions and additions of a Subject.
+ */
+type PendingTriples = [Quad[], Quad[]];
+
+interface HistoryStep {
+  /**
+   * How often the Document had been saved when these changes were last applied. If it has been
+   * saved since, the Subjects in `changes` belong to an outdated version of the Document.
+   */
+  saveCount: number;
+  changes: SubjectChange[];
+};
+
+/**
+ * Start recording the changes made to a Document, so that they can be undone and redone
+ *
+ * Usage:
+ *
+ *     const history = createHistory(await fetchDocument('https://pod.example/notes.ttl'));
+ *     history.getDocument().getSubject('#note').setString(schema.text, 'Hello world');
+ *     history.undo();
+ *
+ * @param document The Document whose changes should be recorded. Changes made before calling this
+ *                 can not be undone.
+ * @returns The history of `document`.
+ */
+export function createHistory(document: TripleDocument): TripleHistory {
+  let currentDocument = document;
+  let saveCount = 0;
+  let undoSteps: HistoryStep[] = [];
+  let redoSteps: HistoryStep[] = [];
+  let groupDepth = 0;
+  let currentGroup: HistoryStep | null = null;
+
+  const recordChange = (change: SubjectChange) => {
+    // Making a new change means the undone steps can no longer be redone:
+    redoSteps = [];
+    if (currentGroup) {
+      currentGroup.changes.push(change);
+      return;
+    }
+    undoSteps.push({ saveCount: saveCount, changes: [change] });
+  };
+  let stopRecording = currentDocument.addChangeListener(recordChange);
+
+  const group = (makeChanges: () => void) => {
+    const step: HistoryStep = currentGroup || { saveCount: saveCount, changes: [] };
+    currentGroup = step;
+    groupDepth++;
+    try {
+      makeChanges();
+    } finally {
+      groupDepth--;
+      // When groups are nested, all their changes are recorded as a single step:
+      if (groupDepth === 0) {
+        currentGroup = null;
+        if (step.changes.length > 0) {
+          undoSteps.push(step);
+        }
+      }
+    }
+  };
+
+  const undo = () => {
+    if (currentGroup) {
+      throw new Error('Changes can not be undone while they are being grouped.');
+    }
+    const step = undoSteps.pop();
+    if (!step) {
+      return;
+    }
+    if (step.saveCount === saveCount) {
+      step.changes.slice().reverse().forEach(change => change.subject.setPendingTriples(change.previous));
+      redoSteps.push(step);
+      return;
+    }
+    // The changes were already saved, so they have to be reverted on the current Document:
+    const { deletions, additions } = getNetChanges(step);
+    const revertingChanges = applyToCurrentDocument({ deletions: additions, additions: deletions });
+    // Redoing this step means undoing the changes that reverted it:
+    redoSteps.push({ saveCount: saveCount, changes: revertingChanges.map(flip) });
+  };
+
+  const redo = () => {
+    if (currentGroup) {
+      throw new Error('Changes can not be redone while they are being grouped.');
+    }
+    const step = redoSteps.pop();
+    if (!step) {
+      return;
+    }
+    if (step.saveCount === saveCount) {
+      step.changes.forEach(change => change.subject.setPendingTriples(change.current));
+      undoSteps.push(step);
+      return;
+    }
+    // The changes were undone and saved, so they have to be re-applied to the current Document:
+    const reappliedChanges = applyToCurrentDocument(getNetChanges(step));
+    undoSteps.push({ saveCount: saveCount, changes: reappliedChanges });
+  };
+
+  const applyToCurrentDocument = (changes: Changes) => groupBySubject(changes, currentDocument.asRef())
+    .map(({ subjectRef, changes: subjectChanges }) => applyChanges(currentDocument.getSubject(subjectRef), subjectChanges));
+
+  const save = async () => {
+    const savedDocument = await currentDocument.save();
+    stopRecording();
+    currentDocument = savedDocument;
+    saveCount++;
+    stopRecording = currentDocument.addChangeListener(recordChange);
+    return savedDocument;
+  };
+
+  return {
+    getDocument: () => currentDocument,
+    group: group,
+    canUndo: () => undoSteps.length > 0,
+    canRedo: () => redoSteps.length > 0,
+    undo: undo,
+    redo: redo,
+    save: save,
+  };
+}
+
+/**
+ * @param step A step whose changes might have modified the same Subject multiple times.
+ * @returns The Triples that were removed and added by `step`.
+ */
+function getNetChanges(step: HistoryStep): Changes {
+  const subjects = step.changes
+    .map(change => change.subject)
+    .filter((subject, index, allSubjects) => allSubjects.indexOf(subject) === index);
+
+  return subjects.reduce<Changes>((changesSoFar, subject) => {
+    const subjectChanges = step.changes.filter(change => change.subject === subject);
+    const storedTriples = getStoredTriples(subject);
+    const triplesBefore = getTriplesAfterChanges(storedTriples, toChanges(subjectChanges[0].previous));
+    const triplesAfter = getTriplesAfterChanges(
+      storedTriples,
+      toChanges(subjectChanges[subjectChanges.length - 1].current),
+    );
+    return {
+      deletions: changesSoFar.deletions.concat(triplesBefore.filter(triple => !contains(triplesAfter, triple))),
+      additions: changesSoFar.additions.concat(triplesAfter.filter(triple => !contains(triplesBefore, triple))),
+    };
+  }, { deletions: [], additions: [] });
+}
+
+/**
+ * Add pending deletions and additions to a Subject, cancelling out its existing pending changes
+ * where possible.
+ *
+ * @returns The Subject's pending Triples before and after the changes were added.
+ */
+function applyChanges(subject: TripleSubject, changes: Changes): SubjectChange {
+  const storedTriples = getStoredTriples(subject);
+  const [previousDeletions, previousAdditions] = subject.getPendingTriples();
+  let pendingDeletions = previousDeletions.slice();
+  let pendingAdditions = previousAdditions.slice();
+
+  changes.deletions.forEach((triple) => {
+    if (contains(pendingAdditions, triple)) {
+      pendingAdditions = pendingAdditions.filter(pendingAddition => !pendingAddition.equals(triple));
+    } else if (contains(storedTriples, triple) && !contains(pendingDeletions, triple)) {
+      pendingDeletions.push(triple);
+    }
+  });
+  changes.additions.forEach((triple) => {
+    if (contains(pendingDeletions, triple)) {
+      pendingDeletions = pendingDeletions.filter(pendingDeletion => !pendingDeletion.equals(triple));
+    } else if (!contains(storedTriples, triple) && !contains(pendingAdditions, triple)) {
+      pendingAdditions.push(triple);
+    }
+  });
+
+  subject.setPendingTriples([pendingDeletions, pendingAdditions]);
+  return {
+    subject: subject,
+    previous: [previousDeletions.slice(), previousAdditions.slice()],
+    current: [pendingDeletions, pendingAdditions],
+  };
+}
+
+/**
+ * @returns The Triples in the version of the Document `subject` belongs to, since its pending
+ *          Triples can also describe other Subjects, e.g. the nodes of a list.
+ */
+function getStoredTriples(subject: TripleSubject): Quad[] {
+  // Only changes to TripleDocuments are recorded, so Subjects always belong to one:
+  return (subject.getDocument() as TripleDocument).getTriples();
+}
+
+function toChanges([deletions, additions]: PendingTriples): Changes {
+  return { deletions: deletions, additions: additions };
+}
+
+function flip(change: SubjectChange): SubjectChange {
+  return { subject: change.subject, previous: change.current, current: change.previous };
+}
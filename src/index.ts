@@ -4,20 +4,123 @@ export {
   LocalTripleDocumentWithRef,
   LocalTripleDocumentForContainer,
   TripleDocument,
+  AccessModes,
+  DocumentAccessModes,
+  ChangeSummary,
+  PropertyChanges,
   createDocument,
   createDocumentInContainer,
   fetchDocument,
+  deleteDocument,
   isSavedToPod,
   hasRef,
 } from './document';
 export {
   TripleSubject,
+  DateTimeOptions,
 } from './subject';
+export {
+  TripleHistory,
+  createHistory,
+} from './history';
+export {
+  SaveAllResult,
+  SaveAllState,
+  saveAll,
+} from './transaction';
+export {
+  TripleContainer,
+  ContainerChild,
+  WalkedChild,
+  fetchContainer,
+  walkContainer,
+  createContainer,
+  createContainerInContainer,
+  ensureContainerPath,
+  deleteContainer,
+  moveContainer,
+} from './container';
+export {
+  TripleAcl,
+  EffectiveAcl,
+  Authorization,
+  AccessMode,
+  AclTarget,
+  fetchAcl,
+  fetchEffectiveAcl,
+} from './acl';
+export {
+  Fetcher,
+  setDefaultFetch,
+} from './pod';
+export {
+  HttpError,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+  PreconditionFailedError,
+  ServerError,
+  ParseError,
+  EditConflictError,
+  SaveAllError,
+  ValidationError,
+} from './errors';
+export {
+  EditConflict,
+  ConflictResolution,
+  ConflictResolver,
+} from './merge';
+export {
+  DatatypeCodec,
+  registerDatatype,
+} from './datatypes';
+export {
+  Schema,
+  SchemaField,
+  ValueField,
+  LocalSubjectField,
+  ValueTypes,
+  SchemaObject,
+  MappedSubject,
+  defineSchema,
+  mapSubject,
+} from './schema';
+export {
+  Shapes,
+  ValidationReport,
+  ValidationResult,
+  loadShapes,
+} from './shacl';
+export {
+  ShExSchema,
+  ShapeMapEntry,
+  ShExValidationReport,
+  ShExValidationResult,
+  parseShExSchema,
+} from './shex';
 
 /**
  * Literal values, i.e. values that do not point to other nodes in the Linked Data graph.
  */
-export type LiteralTypes = string | number | Date;
+export type LiteralTypes = string | number | boolean | Date | CustomLiteralTypes[keyof CustomLiteralTypes];
+/**
+ * The types of values of datatypes registered using [[registerDatatype]]. It is empty by default;
+ * add your own types to it using declaration merging, so that they are included in
+ * [[LiteralTypes]]:
+ *
+ *     declare module 'tripledoc' {
+ *       interface CustomLiteralTypes {
+ *         amount: Amount;
+ *       }
+ *     }
+ */
+export interface CustomLiteralTypes {};
+/**
+ * A value in an ordered list: either a Literal value, or a [[Reference]] wrapped in an object, so
+ * that it can be told apart from a string.
+ */
+export type ListItem = LiteralTypes | { ref: Reference };
 /**
  * A URL that points to a node in the Linked Data graph.
  */
@@ -76,6 +179,15 @@ export function isLocaleStringLiteral<T, Locale extends string>(
     param.datatype.value === 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString' &&
     param.language.toLowerCase() === locale.toLowerCase();
 }
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 locale string Literal.
+ * @returns Whether `param` is an N3 locale string Literal, regardless of its locale.
+ */
+export function isLangStringLiteral<T>(param: T | Literal): param is LocaleStringLiteral<string> {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString';
+}
 /**
  * Primarily useful to create type guarsd for use in e.g. `Array.prototype.filter`.
  * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
@@ -85,6 +197,21 @@ export function generateLocaleTypeGuard<Locale extends string>(locale: Locale) {
     return isLocaleStringLiteral(param, locale);
   }
 }
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface TypedLiteral<Datatype extends Reference> extends Literal {
+  datatype: NamedNode & { value: Datatype };
+}
+/**
+ * Primarily useful to create type guards for use in e.g. `Array.prototype.filter`.
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export function generateDatatypeTypeGuard<Datatype extends Reference>(datatype: Datatype) {
+  return function typeGuard<T>(param: T | Literal): param is TypedLiteral<Datatype> {
+    return isLiteral(param) && param.datatype.value === datatype;
+  }
+}
 /**
  * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
  */
@@ -130,6 +257,141 @@ export interface DateTimeLiteral extends Literal {
 export function isDateTimeLiteral<T>(param: T | Literal): param is DateTimeLiteral {
   return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#dateTime';
 }
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface BooleanLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#boolean' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 boolean Literal.
+ * @returns Whether `param` is an N3 boolean Literal.
+ */
+export function isBooleanLiteral<T>(param: T | Literal): param is BooleanLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#boolean';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface DateLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#date' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 Date Literal.
+ * @returns Whether `param` is an N3 Date Literal.
+ */
+export function isDateLiteral<T>(param: T | Literal): param is DateLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#date';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface TimeLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#time' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 time Literal.
+ * @returns Whether `param` is an N3 time Literal.
+ */
+export function isTimeLiteral<T>(param: T | Literal): param is TimeLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#time';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface DurationLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#duration' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 duration Literal.
+ * @returns Whether `param` is an N3 duration Literal.
+ */
+export function isDurationLiteral<T>(param: T | Literal): param is DurationLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#duration';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface DoubleLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#double' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 double Literal.
+ * @returns Whether `param` is an N3 double Literal.
+ */
+export function isDoubleLiteral<T>(param: T | Literal): param is DoubleLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#double';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface FloatLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#float' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 float Literal.
+ * @returns Whether `param` is an N3 float Literal.
+ */
+export function isFloatLiteral<T>(param: T | Literal): param is FloatLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#float';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface LongLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#long' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 long Literal.
+ * @returns Whether `param` is an N3 long Literal.
+ */
+export function isLongLiteral<T>(param: T | Literal): param is LongLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#long';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface GYearLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#gYear' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 gYear Literal.
+ * @returns Whether `param` is an N3 gYear Literal.
+ */
+export function isGYearLiteral<T>(param: T | Literal): param is GYearLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#gYear';
+}
+/**
+ * @internal This is an internal TripleDoc data type that should not be exposed to library consumers.
+ */
+export interface AnyUriLiteral extends Literal {
+  datatype: NamedNode & { value: 'http://www.w3.org/2001/XMLSchema#anyURI' };
+}
+/**
+ * @internal Tripledoc's methods should be explicit about whether they return or accept a specific
+ *           type, so this is merely an internal utility function, rather than a public API.
+ * @param param A value that might or might not be an N3 anyURI Literal.
+ * @returns Whether `param` is an N3 anyURI Literal.
+ */
+export function isAnyUriLiteral<T>(param: T | Literal): param is AnyUriLiteral {
+  return isLiteral(param) && param.datatype.value === 'http://www.w3.org/2001/XMLSchema#anyURI';
+}
 
 /**
  * @ignore Deprecated function.
@@ -0,0 +1,196 @@
+import { BlankNode } from 'rdf-js';
+import { DataFactory } from './n3dataset';
+import { rebaseChanges, applyResolutions } from './merge';
+
+const { triple, namedNode, literal, blankNode } = DataFactory;
+
+const mockSubject = 'https://document.com/#subject';
+const mockPredicate = 'https://mock-predicate.com/';
+const mockPredicate2 = 'https://mock-predicate-2.com/';
+
+function getMockTriple(value: string, predicate = mockPredicate) {
+  return triple(namedNode(mockSubject), namedNode(predicate), literal(value));
+}
+
+describe('rebaseChanges', () => {
+  it('should re-apply changes to properties that were not modified remotely', () => {
+    const originalTriples = [getMockTriple('Original value'), getMockTriple('Other value', mockPredicate2)];
+    const currentTriples = [getMockTriple('Original value'), getMockTriple('New remote value', mockPredicate2)];
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [getMockTriple('Original value')],
+      additions: [getMockTriple('New local value')],
+    });
+
+    expect(rebased.deletions).toEqual([getMockTriple('Original value')]);
+    expect(rebased.additions).toEqual([getMockTriple('New local value')]);
+    expect(rebased.conflicts).toEqual([]);
+  });
+
+  it('should re-apply additions to properties that were modified remotely', () => {
+    const originalTriples = [getMockTriple('Original value')];
+    const currentTriples = [getMockTriple('New remote value')];
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [],
+      additions: [getMockTriple('New local value'), getMockTriple('New remote value')],
+    });
+
+    expect(rebased.deletions).toEqual([]);
+    expect(rebased.additions).toEqual([getMockTriple('New local value')]);
+    expect(rebased.conflicts).toEqual([]);
+  });
+
+  it('should only re-apply deletions of values that still exist remotely', () => {
+    const originalTriples = [getMockTriple('Value 1'), getMockTriple('Value 2')];
+    const currentTriples = [getMockTriple('Value 2'), getMockTriple('New remote value')];
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [getMockTriple('Value 1'), getMockTriple('Value 2'), getMockTriple('Value 2')],
+      additions: [],
+    });
+
+    expect(rebased.deletions).toEqual([getMockTriple('Value 2')]);
+    expect(rebased.additions).toEqual([]);
+    expect(rebased.conflicts).toEqual([]);
+  });
+
+  it('should not report a conflict if both sides made the same change', () => {
+    const originalTriples = [getMockTriple('Original value')];
+    const currentTriples = [getMockTriple('New value')];
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [getMockTriple('Original value')],
+      additions: [getMockTriple('New value')],
+    });
+
+    expect(rebased.deletions).toEqual([]);
+    expect(rebased.additions).toEqual([]);
+    expect(rebased.conflicts).toEqual([]);
+  });
+
+  it('should report a conflict if both sides replaced the values of the same property', () => {
+    const originalTriples = [getMockTriple('Original value')];
+    const currentTriples = [getMockTriple('New remote value')];
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [getMockTriple('Original value')],
+      additions: [getMockTriple('New local value')],
+    });
+
+    expect(rebased.deletions).toEqual([]);
+    expect(rebased.additions).toEqual([]);
+    expect(rebased.conflicts).toEqual([{
+      report: {
+        subject: mockSubject,
+        predicate: mockPredicate,
+        originalValues: ['Original value'],
+        localValues: ['New local value'],
+        remoteValues: ['New remote value'],
+      },
+      localChanges: {
+        deletions: [getMockTriple('New remote value')],
+        additions: [getMockTriple('New local value')],
+      },
+    }]);
+  });
+
+  it('should report a conflict if both sides set a property that had no values yet', () => {
+    const rebased = rebaseChanges([], [getMockTriple('New remote value')], {
+      deletions: [],
+      additions: [getMockTriple('New local value')],
+    });
+
+    expect(rebased.additions).toEqual([]);
+    expect(rebased.conflicts.map(conflict => conflict.report)).toEqual([{
+      subject: mockSubject,
+      predicate: mockPredicate,
+      originalValues: [],
+      localValues: ['New local value'],
+      remoteValues: ['New remote value'],
+    }]);
+  });
+
+  it('should refer to Blank Nodes by their label in the current Triples', () => {
+    const getAddressTriples = (address: BlankNode, street: string) => [
+      triple(namedNode(mockSubject), namedNode(mockPredicate), address),
+      triple(address, namedNode(mockPredicate2), literal(street, 'en')),
+    ];
+    const originalAddress = blankNode('original-label');
+    const currentAddress = blankNode('current-label');
+    const originalTriples = getAddressTriples(originalAddress, 'Main Street');
+    const currentTriples = getAddressTriples(currentAddress, 'Main Street')
+      .concat(getMockTriple('New remote value'));
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [originalTriples[1]],
+      additions: [triple(originalAddress, namedNode(mockPredicate2), literal('Side Street'))],
+    });
+
+    expect(rebased.deletions).toEqual([currentTriples[1]]);
+    expect(rebased.additions).toEqual([triple(currentAddress, namedNode(mockPredicate2), literal('Side Street'))]);
+    expect(rebased.conflicts).toEqual([]);
+  });
+
+  it('should leave Blank Nodes that can not be told apart as they are', () => {
+    const node1 = blankNode('node-1');
+    const node2 = blankNode('node-2');
+    const originalTriples = [
+      triple(namedNode(mockSubject), namedNode(mockPredicate), node1),
+      triple(namedNode(mockSubject), namedNode(mockPredicate), node2),
+      triple(node1, namedNode(mockPredicate), node2),
+      triple(node2, namedNode(mockPredicate), node1),
+    ];
+    const currentTriples = originalTriples.slice(0, 2).map(stored => triple(
+      stored.subject,
+      stored.predicate,
+      blankNode(stored.object.value + '-reparsed'),
+    ));
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [originalTriples[2]],
+      additions: [],
+    });
+
+    expect(rebased.deletions).toEqual([]);
+  });
+
+    it('should not expose Blank Nodes in conflict reports', () => {
+    const blankNodeTriple = triple(namedNode(mockSubject), namedNode(mockPredicate), blankNode());
+    const originalTriples = [getMockTriple('Original value'), blankNodeTriple];
+    const currentTriples = [blankNodeTriple];
+
+    const rebased = rebaseChanges(originalTriples, currentTriples, {
+      deletions: [getMockTriple('Original value')],
+      additions: [getMockTriple('New local value')],
+    });
+
+    expect(rebased.conflicts[0].report.originalValues).toEqual(['Original value']);
+    expect(rebased.conflicts[0].report.remoteValues).toEqual([]);
+  });
+});
+
+describe('applyResolutions', () => {
+  const rebased = rebaseChanges(
+    [getMockTriple('Original value'), getMockTriple('Original value', mockPredicate2)],
+    [getMockTriple('New remote value'), getMockTriple('New remote value', mockPredicate2)],
+    {
+      deletions: [getMockTriple('Original value'), getMockTriple('Original value', mockPredicate2)],
+      additions: [getMockTriple('New local value'), getMockTriple('New local value', mockPredicate2)],
+    },
+  );
+
+  it('should apply the local changes for conflicts resolved as local', () => {
+    const changes = applyResolutions(rebased, ['local', 'remote']);
+
+    expect(changes.deletions).toEqual([getMockTriple('New remote value')]);
+    expect(changes.additions).toEqual([getMockTriple('New local value')]);
+  });
+
+  it('should not apply any changes for conflicts resolved as remote', () => {
+    const changes = applyResolutions(rebased, ['remote', 'remote']);
+
+    expect(changes.deletions).toEqual([]);
+    expect(changes.additions).toEqual([]);
+  });
+});
@@ -0,0 +1,253 @@
+import { Quad, Term } from 'rdf-js';
+import { Reference, LiteralTypes, isLiteral } from './index';
+import { fromLiteral } from './subject';
+import { DataFactory } from './n3dataset';
+import { contains, unique, isSameSet, isSameProperty, getPropertyTriples } from './triples';
+
+/**
+ * A property of a Subject that was modified both locally and on the Pod, in incompatible ways.
+ */
+export interface EditConflict {
+  /**
+   * The Subject whose property was modified.
+   */
+  subject: Reference;
+  /**
+   * The property that was modified.
+   */
+  predicate: Reference;
+  /**
+   * The values of this property when the Document was fetched.
+   */
+  originalValues: Array<Reference | LiteralTypes>;
+  /**
+   * The values this property would have after applying your changes.
+   */
+  localValues: Array<Reference | LiteralTypes>;
+  /**
+   * The values of this property as currently stored on the Pod.
+   */
+  remoteValues: Array<Reference | LiteralTypes>;
+};
+
+/**
+ * Which version of a property to keep: the one including your changes (`'local'`), or the one
+ * currently stored on the Pod (`'remote'`).
+ */
+export type ConflictResolution = 'local' | 'remote';
+
+/**
+ * Function that decides which version to keep for every [[EditConflict]].
+ *
+ * @param conflicts Every property that was modified both locally and on the Pod.
+ * @returns For every conflict, at the same index, which version of the property should be kept.
+ */
+export type ConflictResolver =
+  (conflicts: EditConflict[]) => ConflictResolution[] | Promise<ConflictResolution[]>;
+
+/**
+ * @internal
+ */
+export interface Changes {
+  deletions: Quad[];
+  additions: Quad[];
+};
+
+/**
+ * @internal
+ */
+export interface RebasedChanges extends Changes {
+  conflicts: Array<{
+    report: EditConflict;
+    /**
+     * The changes needed to apply the local version of the conflicting property.
+     */
+    localChanges: Changes;
+  }>;
+};
+
+/**
+ * Re-apply changes made to a Document onto its current contents on the Pod.
+ *
+ * Changes to properties that were not modified on the Pod are simply re-applied, as are changes
+ * that only add or only remove values. If both the local changes and the Pod replaced the values
+ * of a property (e.g. using `setString`) with different values, that is reported as a conflict.
+ * Adding values to a property that had none counts as replacing its values.
+ *
+ * @internal Utility function for use by [[TripleDocument]]; not part of the public API.
+ * @param originalTriples The Triples in the Document at the time it was fetched.
+ * @param currentTriples The Triples in the Document as currently stored on the Pod.
+ * @param changes The Triples that were deleted from and added to `originalTriples` locally.
+ */
+export function rebaseChanges(
+  originalTriples: Quad[],
+  currentTriples: Quad[],
+  changes: Changes,
+): RebasedChanges {
+  const rebased: RebasedChanges = { deletions: [], additions: [], conflicts: [] };
+
+  // Blank Nodes get a different label every time the Document is parsed, so refer to the Blank
+  // Nodes in the local changes by the labels they have in the current Triples:
+  const toCurrentBlankNodes = getBlankNodeTranslator(originalTriples, currentTriples);
+  originalTriples = toCurrentBlankNodes(originalTriples);
+  changes = {
+    deletions: toCurrentBlankNodes(changes.deletions),
+    additions: toCurrentBlankNodes(changes.additions),
+  };
+
+  const changedProperties = changes.deletions.concat(changes.additions);
+  const handledProperties: Quad[] = [];
+  changedProperties.forEach((changedProperty) => {
+    if (handledProperties.some(handled => isSameProperty(handled, changedProperty))) {
+      return;
+    }
+    handledProperties.push(changedProperty);
+
+    const original = getPropertyTriples(originalTriples, changedProperty);
+    const current = getPropertyTriples(currentTriples, changedProperty);
+    const localDeletions = getPropertyTriples(changes.deletions, changedProperty);
+    const localAdditions = getPropertyTriples(changes.additions, changedProperty);
+    const desired = unique(difference(original, localDeletions).concat(localAdditions));
+
+    const modifiedRemotely = !isSameSet(original, current);
+    // Setting a property that did not have a value yet replaces its (lack of) values as well:
+    const replacedLocally = localAdditions.length > 0 && (localDeletions.length > 0 || original.length === 0);
+    if (!modifiedRemotely || !replacedLocally) {
+      rebased.deletions.push(...unique(intersection(localDeletions, current)));
+      rebased.additions.push(...unique(difference(localAdditions, current)));
+      return;
+    }
+
+    if (isSameSet(desired, current)) {
+      // Both sides made the same change, so there's nothing left to do:
+      return;
+    }
+
+    rebased.conflicts.push({
+      report: {
+        subject: changedProperty.subject.value,
+        predicate: changedProperty.predicate.value,
+        originalValues: toValues(original),
+        localValues: toValues(desired),
+        remoteValues: toValues(current),
+      },
+      localChanges: {
+        deletions: difference(current, desired),
+        additions: difference(desired, current),
+      },
+    });
+  });
+
+  return rebased;
+}
+
+/**
+ * @internal Utility function for use by [[TripleDocument]]; not part of the public API.
+ * @param rebased Changes re-applied to a Document's current contents, including conflicts.
+ * @param resolutions For every conflict in `rebased`, which version of the property to keep.
+ * @returns The changes that should be applied to the Document's current contents.
+ */
+export function applyResolutions(rebased: RebasedChanges, resolutions: ConflictResolution[]): Changes {
+  return rebased.conflicts.reduce<Changes>(
+    (changesSoFar, conflict, index) => {
+      if (resolutions[index] !== 'local') {
+        return changesSoFar;
+      }
+      return {
+        deletions: changesSoFar.deletions.concat(conflict.localChanges.deletions),
+        additions: changesSoFar.additions.concat(conflict.localChanges.additions),
+      };
+    },
+    { deletions: rebased.deletions, additions: rebased.additions },
+  );
+}
+
+function difference(triples: Quad[], triplesToExclude: Quad[]): Quad[] {
+  return triples.filter(triple => !contains(triplesToExclude, triple));
+}
+
+function intersection(triples1: Quad[], triples2: Quad[]): Quad[] {
+  return triples1.filter(triple => contains(triples2, triple));
+}
+
+function toValues(triples: Quad[]): Array<Reference | LiteralTypes> {
+  return triples
+    .map(triple => triple.object)
+    .filter(isValue)
+    .map(object => isLiteral(object) ? fromLiteral(object) : object.value);
+}
+
+function isValue(term: Term): boolean {
+  // Blank Nodes are not exposed to library consumers:
+  return term.termType !== 'BlankNode';
+}
+
+/**
+ * Find out which Blank Nodes in `originalTriples` correspond to which Blank Nodes in
+ * `currentTriples`, by comparing the Triples that refer to and describe them.
+ *
+ * @returns A function that replaces the Blank Nodes from `originalTriples` in the given Triples by
+ *          their counterparts in `currentTriples`. Blank Nodes that have no counterpart, or that
+ *          can not be told apart from other Blank Nodes, are left as they are.
+ */
+function getBlankNodeTranslator(originalTriples: Quad[], currentTriples: Quad[]): (triples: Quad[]) => Quad[] {
+  const originalSignatures = getBlankNodeSignatures(originalTriples);
+  const currentSignatures = getBlankNodeSignatures(currentTriples);
+  const translations: Array<[Term, Term]> = [];
+  originalSignatures.forEach(([originalNode, signature]) => {
+    const originalMatches = originalSignatures.filter(candidate => candidate[1] === signature);
+    const currentMatches = currentSignatures.filter(candidate => candidate[1] === signature);
+    if (originalMatches.length === 1 && currentMatches.length === 1) {
+      translations.push([originalNode, currentMatches[0][0]]);
+    }
+  });
+
+  const translate = <T extends Term>(term: T): T => {
+    const translation = translations.find(([originalNode]) => originalNode.equals(term));
+    return (typeof translation !== 'undefined') ? translation[1] as T : term;
+  };
+  return (triples) => triples.map(triple => DataFactory.triple(
+    translate(triple.subject),
+    triple.predicate,
+    translate(triple.object),
+  ));
+}
+
+function getBlankNodeSignatures(triples: Quad[]): Array<[Term, string]> {
+  const blankNodes = triples
+    .map<Term>(triple => triple.subject)
+    .concat(triples.map(triple => triple.object))
+    .filter(term => term.termType === 'BlankNode');
+  return blankNodes
+    .filter((node, index) => blankNodes.findIndex(other => other.equals(node)) === index)
+    .map(node => [node, getBlankNodeSignature(node, triples)] as [Term, string]);
+}
+
+/**
+ * @returns A description of `node` that does not depend on its label: the named Subjects that
+ *          refer to it, followed by its own description.
+ */
+function getBlankNodeSignature(node: Term, triples: Quad[]): string {
+  const referrers = triples
+    .filter(triple => triple.object.equals(node) && triple.subject.termType !== 'BlankNode')
+    .map(triple => `<${triple.subject.value}> <${triple.predicate.value}>`)
+    .sort();
+  return referrers.join(' ') + ' ' + describeBlankNode(node, triples, []);
+}
+
+function describeBlankNode(term: Term, triples: Quad[], visitedNodes: Term[]): string {
+  if (isLiteral(term)) {
+    return JSON.stringify([term.value, term.datatype.value, term.language]);
+  }
+  if (term.termType !== 'BlankNode') {
+    return `<${term.value}>`;
+  }
+  if (visitedNodes.some(visitedNode => visitedNode.equals(term))) {
+    return '[...]';
+  }
+  const description = triples
+    .filter(triple => triple.subject.equals(term))
+    .map(triple => `<${triple.predicate.value}> ${describeBlankNode(triple.object, triples, visitedNodes.concat(term))}`)
+    .sort();
+  return `[${description.join('; ')}]`;
+}
@@ -0,0 +1,58 @@
+import { Response } from 'node-fetch';
+import { head, setDefaultFetch } from './pod';
+
+let mockSolidAuthClientFetch: jest.Mock;
+jest.mock('solid-auth-client', () => {
+  mockSolidAuthClientFetch = jest.fn(() => Promise.resolve(new Response()));
+  return {
+    __esModule: true,
+    default: { fetch: mockSolidAuthClientFetch },
+  };
+});
+
+const mockUrl = 'https://document.com/';
+
+afterEach(() => {
+  setDefaultFetch(undefined);
+});
+
+describe('Selecting the fetch function', () => {
+  it('should use solid-auth-client if no other fetch function was set', async () => {
+    await head(mockUrl);
+
+    expect(mockSolidAuthClientFetch.mock.calls).toEqual([[mockUrl, { method: 'HEAD' }]]);
+  });
+
+  it('should prefer the default fetch function over solid-auth-client', async () => {
+    const mockDefaultFetch = jest.fn(() => Promise.resolve(new Response()));
+    setDefaultFetch(mockDefaultFetch as any);
+
+    await head(mockUrl);
+
+    expect(mockDefaultFetch.mock.calls).toEqual([[mockUrl, { method: 'HEAD' }]]);
+    expect(mockSolidAuthClientFetch.mock.calls.length).toBe(0);
+  });
+
+  it('should prefer the fetch function passed in the options over the default', async () => {
+    const mockDefaultFetch = jest.fn(() => Promise.resolve(new Response()));
+    const mockOptionsFetch = jest.fn(() => Promise.resolve(new Response()));
+    setDefaultFetch(mockDefaultFetch as any);
+
+    await head(mockUrl, { fetch: mockOptionsFetch as any });
+
+    expect(mockOptionsFetch.mock.calls).toEqual([[mockUrl, { method: 'HEAD' }]]);
+    expect(mockDefaultFetch.mock.calls.length).toBe(0);
+    expect(mockSolidAuthClientFetch.mock.calls.length).toBe(0);
+  });
+
+  it('should revert to solid-auth-client when the default fetch function is reset', async () => {
+    const mockDefaultFetch = jest.fn(() => Promise.resolve(new Response()));
+    setDefaultFetch(mockDefaultFetch as any);
+    setDefaultFetch(undefined);
+
+    await head(mockUrl);
+
+    expect(mockDefaultFetch.mock.calls.length).toBe(0);
+    expect(mockSolidAuthClientFetch.mock.calls.length).toBe(1);
+  });
+});
@@ -1,18 +1,53 @@
 import { Quad } from 'rdf-js';
 import SolidAuthClient from 'solid-auth-client';
 import { triplesToTurtle } from './turtle';
+import { createSparqlUpdate } from './sparql';
 import { Reference } from '.';
 
+/**
+ * A function with the same signature as the browser's `fetch`, used to send requests to the Pod.
+ */
+export type Fetcher = (input: RequestInfo, init?: RequestInit) => Promise<Response>;
+
+/**
+ * @ignore This is documented on use.
+ */
+export interface RequestOptions {
+  fetch?: Fetcher;
+};
+
+let defaultFetcher: Fetcher | undefined;
+
+/**
+ * Set the function that should be used to send requests to the Pod when no specific `fetch`
+ * function is passed.
+ *
+ * By default, Tripledoc uses solid-auth-client's `fetch`. You can use this to make Tripledoc use
+ * e.g. a different authentication library instead. Pass `undefined` to revert to the default.
+ *
+ * @param fetcher Function with the same signature as the browser's `fetch`.
+ */
+export function setDefaultFetch(fetcher: Fetcher | undefined) {
+  defaultFetcher = fetcher;
+}
+
+function getFetcher(options: RequestOptions): Fetcher {
+  return options.fetch
+    || defaultFetcher
+    || ((input: RequestInfo, init?: RequestInit) => SolidAuthClient.fetch(input, init));
+}
+
 /**
  * Utility function that gets Triples located at a URL
  *
  * @param url Location of the Document contains the Triples.
+ * @param options Optionally, the `fetch` function to use to send the request.
  * @returns Promise that resolves with the Triples
  * @internal Should not be used by library consumers directly.
  */
 /* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
-export async function get(url: string) {
-  const response = await SolidAuthClient.fetch(url, {
+export async function get(url: string, options: RequestOptions = {}) {
+  const response = await getFetcher(options)(url, {
     headers: {
       Accept: 'text/turtle',
     },
@@ -25,43 +60,94 @@ export async function get(url: string) {
  * Utility function that gets a URL's metadata
  *
  * @param url Location of the Document to get the metadata of
+ * @param options Optionally, the `fetch` function to use to send the request.
  * @returns Promise that resolves with the Response
  * @internal Should not be used by library consumers directly.
  */
 /* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
-export async function head(url: string) {
-  const response = await SolidAuthClient.fetch(url, {
+export async function head(url: string, options: RequestOptions = {}) {
+  const response = await getFetcher(options)(url, {
     method: 'HEAD',
   });
 
   return response;
 }
 
+/**
+ * Utility function that gets a Resource in whatever format the Pod stores it in
+ *
+ * @param url Location of the Resource.
+ * @param options Optionally, the `fetch` function to use to send the request.
+ * @returns Promise that resolves with the Response
+ * @internal Should not be used by library consumers directly.
+ */
+/* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
+export async function getRaw(url: Reference, options: RequestOptions = {}): Promise<Response> {
+  const response = await getFetcher(options)(url);
+
+  return response;
+}
+
+/**
+ * Utility function that sends a PUT request to the Pod to create a new Resource with arbitrary contents
+ *
+ * @param url URL of the Resource that should be created.
+ * @param body Contents of the new Resource.
+ * @param contentType Media type of `body`.
+ * @param options Optionally, the `fetch` function to use to send the request.
+ * @returns Promise that resolves with the response when the Resource was created successfully, and rejects if not.
+ * @internal Should not be used by library consumers directly.
+ */
+/* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
+export async function createRaw(
+  url: Reference,
+  body: ArrayBuffer,
+  contentType: string,
+  options: RequestOptions = {},
+): Promise<Response> {
+  const response = await getFetcher(options)(url, {
+    method: 'PUT',
+    body: body,
+    headers: {
+      'Content-Type': contentType,
+      'If-None-Match': '*',
+    },
+  });
+  return response;
+}
+
 /**
  * Utility function that sends a PATCH request to the Pod to update a Document
  *
  * @param url Location of the Document that contains the Triples to delete, and should have the Triples to add.
  * @param triplesToDelete Triples currently present on the Pod that should be deleted.
  * @param triplesToAdd Triples not currently present on the Pod that should be added.
+ * @param options Optionally, the `fetch` function to use to send the request, and the ETag of the
+ *                version of the Document the changes are based on. If the latter is set, the server
+ *                will reject the update if the Document has been modified since.
+ * @param storedTriples The Triples currently in the Document, needed to identify its Blank Nodes.
  * @returns Promise that resolves when the update was executed successfully, and rejects if not.
  * @internal Should not be used by library consumers directly.
  */
 /* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
-export async function update(url: Reference, triplesToDelete: Quad[], triplesToAdd: Quad[]) {
-  const rawTriplesToDelete = await triplesToTurtle(triplesToDelete);
-  const rawTriplesToAdd = await triplesToTurtle(triplesToAdd);
-  const deleteStatement = (triplesToDelete.length > 0)
-    ? `DELETE DATA {${rawTriplesToDelete}};`
-    : '';
-  const insertStatement = (triplesToAdd.length > 0)
-    ? `INSERT DATA {${rawTriplesToAdd}};`
-    : '';
-  const response = await SolidAuthClient.fetch(url, {
+export async function update(
+  url: Reference,
+  triplesToDelete: Quad[],
+  triplesToAdd: Quad[],
+  options: RequestOptions & { etag?: string } = {},
+  storedTriples: Quad[] = [],
+) {
+  const sparqlUpdate = await createSparqlUpdate(triplesToDelete, triplesToAdd, storedTriples);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/sparql-update',
+  };
+  if (options.etag) {
+    headers['If-Match'] = options.etag;
+  }
+  const response = await getFetcher(options)(url, {
     method: 'PATCH',
-    body: `${deleteStatement} ${insertStatement}`,
-    headers: {
-      'Content-Type': 'application/sparql-update',
-    },
+    body: sparqlUpdate,
+    headers: headers,
   });
   return response;
 }
@@ -71,13 +157,18 @@ export async function update(url: Reference, triplesToDelete: Quad[], triplesToA
  *
  * @param url URL of the Document that should be created.
  * @param triplesToAdd Triples that should be added to the Document.
+ * @param options Optionally, the `fetch` function to use to send the request.
  * @returns Promise that resolves with the response when the Document was created successfully, and rejects if not.
  * @internal Should not be used by library consumers directly.
  */
 /* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
-export async function create(url: Reference, triplesToAdd: Quad[]): Promise<Response> {
+export async function create(
+  url: Reference,
+  triplesToAdd: Quad[],
+  options: RequestOptions = {},
+): Promise<Response> {
   const rawTurtle = await triplesToTurtle(triplesToAdd);
-  const response = await SolidAuthClient.fetch(url, {
+  const response = await getFetcher(options)(url, {
     method: 'PUT',
     body: rawTurtle,
     headers: {
@@ -93,6 +184,7 @@ export async function create(url: Reference, triplesToAdd: Quad[]): Promise<Resp
  *
  * @param containerUrl URL of the Container in which the Document should be created.
  * @param triplesToAdd Triples that should be added to the Document.
+ * @param options Optionally, the `fetch` function to use to send the request, and a suggestion for the Document's name.
  * @returns Promise that resolves with the response when the Document was created successfully, and rejects if not.
  * @internal Should not be used by library consumers directly.
  */
@@ -100,7 +192,7 @@ export async function create(url: Reference, triplesToAdd: Quad[]): Promise<Resp
 export async function createInContainer(
   containerUrl: Reference,
   triplesToAdd: Quad[],
-  options: { slugSuggestion?: string } = {}
+  options: RequestOptions & { slugSuggestion?: string } = {}
 ): Promise<Response> {
   const rawTurtle = await triplesToTurtle(triplesToAdd);
   const headers: Record<string, string> = {
@@ -109,10 +201,74 @@ export async function createInContainer(
   if (options.slugSuggestion){
     headers.slug = options.slugSuggestion;
   }
-  const response = await SolidAuthClient.fetch(containerUrl, {
+  const response = await getFetcher(options)(containerUrl, {
     method: 'POST',
     body: rawTurtle,
     headers: headers,
   });
   return response;
 }
+
+/**
+ * Utility function that sends a DELETE request to the Pod to remove a Resource
+ *
+ * @param url URL of the Resource that should be deleted.
+ * @param options Optionally, the `fetch` function to use to send the request.
+ * @returns Promise that resolves with the response when the Resource was deleted successfully, and rejects if not.
+ * @internal Should not be used by library consumers directly.
+ */
+/* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
+export async function remove(url: Reference, options: RequestOptions = {}): Promise<Response> {
+  const response = await getFetcher(options)(url, {
+    method: 'DELETE',
+  });
+  return response;
+}
+
+/**
+ * Utility function that sends a PUT request to the Pod to create a new Container
+ *
+ * @param url URL of the Container that should be created, ending in a slash.
+ * @param options Optionally, the `fetch` function to use to send the request.
+ * @returns Promise that resolves with the response when the Container was created successfully, and rejects if not.
+ * @internal Should not be used by library consumers directly.
+ */
+/* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
+export async function createContainer(url: Reference, options: RequestOptions = {}): Promise<Response> {
+  const response = await getFetcher(options)(url, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'text/turtle',
+      'If-None-Match': '*',
+      'Link': '<http://www.w3.org/ns/ldp#BasicContainer>; rel="type"',
+    },
+  });
+  return response;
+}
+
+/**
+ * Utility function that sends a POST request to a Container in the Pod to create a new Container in it
+ *
+ * @param containerUrl URL of the Container in which the new Container should be created.
+ * @param options Optionally, the `fetch` function to use to send the request, and a suggestion for the Container's name.
+ * @returns Promise that resolves with the response when the Container was created successfully, and rejects if not.
+ * @internal Should not be used by library consumers directly.
+ */
+/* istanbul ignore next Just a thin wrapper around solid-auth-client, yet cumbersome to test due to side effects */
+export async function createContainerInContainer(
+  containerUrl: Reference,
+  options: RequestOptions & { slugSuggestion?: string } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'text/turtle',
+    'Link': '<http://www.w3.org/ns/ldp#BasicContainer>; rel="type"',
+  };
+  if (options.slugSuggestion){
+    headers.slug = options.slugSuggestion;
+  }
+  const response = await getFetcher(options)(containerUrl, {
+    method: 'POST',
+    headers: headers,
+  });
+  return response;
+}
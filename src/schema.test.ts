@@ -0,0 +1,236 @@
+import { DataFactory } from './n3dataset';
+import { instantiateDocument } from './document';
+import { turtleToTriples } from './turtle';
+import { defineSchema, mapSubject } from './schema';
+
+const { literal, namedNode } = DataFactory;
+
+const mockDocument = 'https://document.com/';
+const mockSubject = 'https://document.com/#subject';
+const mockName = 'https://mock-vocab.com/#name';
+const mockNickname = 'https://mock-vocab.com/#nickname';
+const mockAge = 'https://mock-vocab.com/#age';
+const mockBirthday = 'https://mock-vocab.com/#birthday';
+const mockFriend = 'https://mock-vocab.com/#friend';
+const mockAddress = 'https://mock-vocab.com/#address';
+const mockStreet = 'https://mock-vocab.com/#street';
+const mockObjectRef = 'https://mock-object.com/';
+
+const addressSchema = defineSchema({
+  street: { predicate: mockStreet, type: 'string', required: true },
+});
+const personSchema = defineSchema({
+  name: { predicate: mockName, type: 'string', required: true },
+  nicknames: { predicate: mockNickname, type: 'string', multiple: true },
+  age: { predicate: mockAge, type: 'integer' },
+  birthday: { predicate: mockBirthday, type: 'date' },
+  friends: { predicate: mockFriend, type: 'ref', multiple: true },
+  address: { predicate: mockAddress, type: 'localSubject', schema: addressSchema },
+});
+const addressesSchema = defineSchema({
+  addresses: { predicate: mockAddress, type: 'localSubject', schema: addressSchema, multiple: true },
+});
+
+async function getMockSubject(turtle: string) {
+  const triples = await turtleToTriples(
+    `@prefix xsd: <http://www.w3.org/2001/XMLSchema#>. ${turtle}`,
+    mockDocument,
+  );
+  const mockTripleDocument = instantiateDocument(
+    triples,
+    { documentRef: mockDocument, existsOnPod: true, readPendingChanges: true },
+  );
+  return mockTripleDocument.getSubject(mockSubject);
+}
+
+describe('mapSubject', () => {
+  describe('toObject', () => {
+    it('should read the fields described by the Schema', async () => {
+      const subject = await getMockSubject(`
+        <${mockSubject}> <${mockName}> "Alice"; <${mockNickname}> "Al", "Ali"; <${mockAge}> 42;
+          <${mockBirthday}> "1978-02-28"^^xsd:date; <${mockFriend}> <${mockObjectRef}>;
+          <${mockAddress}> [ <${mockStreet}> "Main Street" ].
+      `);
+
+      const person = mapSubject(subject, personSchema).toObject();
+
+      expect(person).toEqual({
+        name: 'Alice',
+        nicknames: ['Al', 'Ali'],
+        age: 42,
+        birthday: new Date(Date.UTC(1978, 1, 28)),
+        friends: [mockObjectRef],
+        address: { street: 'Main Street' },
+      });
+      // The result is typed according to the Schema:
+      const street: string = person.address!.street;
+      expect(street).toBe('Main Street');
+    });
+
+    it('should represent missing values as `null` or empty arrays', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockName}> "Alice".`);
+
+      expect(mapSubject(subject, personSchema).toObject()).toEqual({
+        name: 'Alice',
+        nicknames: [],
+        age: null,
+        birthday: null,
+        friends: [],
+        address: null,
+      });
+    });
+
+    it('should throw an error if a required value is missing', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockAge}> 42.`);
+
+      expect(() => mapSubject(subject, personSchema).toObject())
+        .toThrowError(`The Subject <${mockSubject}> has no value for the required field \`name\`.`);
+    });
+  });
+
+  describe('applyObject', () => {
+    it('should only modify the given fields', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockName}> "Alice"; <${mockAge}> 42.`);
+      const person = mapSubject(subject, personSchema);
+
+      person.applyObject({ name: 'Bob', nicknames: ['Bobby'], age: undefined });
+
+      expect(subject.getString(mockName)).toBe('Bob');
+      expect(subject.getAllStrings(mockNickname)).toEqual(['Bobby']);
+      expect(subject.getInteger(mockAge)).toBe(42);
+      expect(person.getSubject()).toBe(subject);
+    });
+
+    it('should not result in changes if the values did not change', async () => {
+      const subject = await getMockSubject(`
+        <${mockSubject}> <${mockName}> "Alice"; <${mockNickname}> "Al", "Ali";
+          <${mockBirthday}> "1978-02-28"^^xsd:date; <${mockAddress}> [ <${mockStreet}> "Main Street" ].
+      `);
+      const person = mapSubject(subject, personSchema);
+
+      person.applyObject(person.toObject());
+
+      expect(subject.getDocument().hasPendingChanges()).toBe(false);
+    });
+
+    it('should only add and remove the values of multiple-valued fields that changed', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockNickname}> "Al", "Ali".`);
+
+      mapSubject(subject, personSchema).applyObject({ nicknames: ['Ali', 'Lisa'] });
+
+      const [deletions, additions] = subject.getPendingTriples();
+      expect(deletions.map(triple => triple.object)).toEqual([literal('Al')]);
+      expect(additions.map(triple => triple.object)).toEqual([literal('Lisa')]);
+    });
+
+    it('should remove values set to `null`', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockName}> "Alice"; <${mockAge}> 42.`);
+
+      mapSubject(subject, personSchema).applyObject({ age: null, birthday: new Date(Date.UTC(1978, 1, 28)) });
+
+      expect(subject.getInteger(mockAge)).toBeNull();
+      expect(subject.getPendingTriples()[1].map(triple => triple.object))
+        .toEqual([literal('1978-02-28', namedNode('http://www.w3.org/2001/XMLSchema#date'))]);
+    });
+
+    it('should refuse invalid values', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockName}> "Alice".`);
+      const person = mapSubject(subject, personSchema);
+
+      expect(() => person.applyObject({ name: null as any }))
+        .toThrowError('The field `name` is required, but the given value is `null`.');
+      expect(() => person.applyObject({ nicknames: 'Al' as any }))
+        .toThrowError('The field `nicknames` has multiple values, but the given value is not an array.');
+      expect(() => person.applyObject({ age: '42' as any })).toThrowError('The given value is not an integer.');
+      expect(() => person.applyObject({ nicknames: [{ nickname: 'Al' }] as any }))
+        .toThrowError('The field `nicknames` has a value that is not a Literal or Reference.');
+    });
+
+    it('should support every type of value', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockName}> "Alice".`);
+      const vocab = 'https://mock-vocab.com/#';
+      const valuesSchema = defineSchema({
+        string: { predicate: vocab + 'string', type: 'string' },
+        integer: { predicate: vocab + 'integer', type: 'integer' },
+        decimal: { predicate: vocab + 'decimal', type: 'decimal' },
+        double: { predicate: vocab + 'double', type: 'double' },
+        float: { predicate: vocab + 'float', type: 'float' },
+        long: { predicate: vocab + 'long', type: 'long' },
+        bigInt: { predicate: vocab + 'bigInt', type: 'bigInt' },
+        decimalString: { predicate: vocab + 'decimalString', type: 'decimalString' },
+        boolean: { predicate: vocab + 'boolean', type: 'boolean' },
+        dateTime: { predicate: vocab + 'dateTime', type: 'dateTime' },
+        date: { predicate: vocab + 'date', type: 'date' },
+        time: { predicate: vocab + 'time', type: 'time' },
+        duration: { predicate: vocab + 'duration', type: 'duration' },
+        year: { predicate: vocab + 'year', type: 'year' },
+        anyUri: { predicate: vocab + 'anyUri', type: 'anyUri' },
+        ref: { predicate: vocab + 'ref', type: 'ref' },
+      });
+      const values = mapSubject(subject, valuesSchema);
+      const firstValues = {
+        string: 'Some value', integer: 42, decimal: 4.2, double: 4.2e1, float: 0.5, long: 1337,
+        bigInt: BigInt('9007199254740993'), decimalString: '4.20', boolean: true,
+        dateTime: new Date(Date.UTC(2020, 2, 1, 10)), date: new Date(Date.UTC(2020, 2, 1)),
+        time: '10:00:00', duration: 'P1D', year: 2020, anyUri: mockObjectRef, ref: mockObjectRef,
+      };
+      const secondValues = {
+        string: 'Other value', integer: 43, decimal: 4.3, double: 4.3e1, float: 1.5, long: 1338,
+        bigInt: BigInt(-1), decimalString: '4.30', boolean: false,
+        dateTime: new Date(Date.UTC(2020, 2, 2, 10)), date: new Date(Date.UTC(2020, 2, 2)),
+        time: '11:00:00', duration: 'P2D', year: 2021, anyUri: mockAddress, ref: mockAddress,
+      };
+
+      values.applyObject(firstValues);
+      expect(values.toObject()).toEqual(firstValues);
+      values.applyObject(secondValues);
+      expect(values.toObject()).toEqual(secondValues);
+    });
+
+    it('should ignore fields that are not part of the Schema', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockName}> "Alice".`);
+
+      mapSubject(subject, personSchema).applyObject({ unknownField: 'Some value' } as any);
+
+      expect(subject.hasPendingChanges()).toBe(false);
+    });
+
+    it('should update existing local Subjects, or add them if needed', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockAddress}> [ <${mockStreet}> "Main Street" ].`);
+      const addresses = mapSubject(subject, addressesSchema);
+      const existingAddress = subject.getLocalSubject(mockAddress)!;
+
+      addresses.applyObject({ addresses: [{ street: 'High Street' }, { street: 'Church Street' }] });
+
+      expect(addresses.toObject()).toEqual({ addresses: [{ street: 'High Street' }, { street: 'Church Street' }] });
+      expect(subject.getAllLocalSubjects(mockAddress)[0].asRef()).toBe(existingAddress.asRef());
+    });
+
+    it('should replace the local Subjects if there are fewer values than local Subjects', async () => {
+      const subject = await getMockSubject(`
+        <${mockSubject}> <${mockAddress}> [ <${mockStreet}> "Main Street" ], [ <${mockStreet}> "High Street" ].
+      `);
+      const addresses = mapSubject(subject, addressesSchema);
+
+      addresses.applyObject({ addresses: [{ street: 'Church Street' }] });
+
+      expect(addresses.toObject()).toEqual({ addresses: [{ street: 'Church Street' }] });
+
+      mapSubject(subject, personSchema).applyObject({ address: null });
+      expect(subject.getAllLocalSubjects(mockAddress)).toEqual([]);
+    });
+
+    it('should not leave the Triples of replaced local Subjects behind if they were not saved yet', async () => {
+      const subject = await getMockSubject(`<${mockSubject}> <${mockName}> "Alice".`);
+      const addresses = mapSubject(subject, addressesSchema);
+
+      addresses.applyObject({ addresses: [{ street: 'Main Street' }, { street: 'High Street' }] });
+      addresses.applyObject({ addresses: [{ street: 'Church Street' }] });
+
+      const [pendingDeletions, pendingAdditions] = subject.getDocument().getPendingTriples();
+      expect(pendingDeletions).toEqual([]);
+      expect(pendingAdditions.length).toBe(2);
+      expect(pendingAdditions.map(triple => triple.object.value)).toContain('Church Street');
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import { Reference } from '.';
+import { TripleSubject } from './subject';
+
+/**
+ * The JavaScript types of the values of the different types of [[ValueField]]s.
+ */
+export interface ValueTypes {
+  string: string;
+  integer: number;
+  decimal: number;
+  double: number;
+  float: number;
+  long: number;
+  bigInt: bigint;
+  decimalString: string;
+  boolean: boolean;
+  dateTime: Date;
+  date: Date;
+  time: string;
+  duration: string;
+  year: number;
+  anyUri: string;
+  ref: Reference;
+};
+
+interface BaseField {
+  /**
+   * The property this field represents.
+   */
+  predicate: Reference;
+  /**
+   * Whether the Subject can have multiple values for this field, in which case it is represented
+   * as an array. Defaults to `false`.
+   */
+  multiple?: boolean;
+  /**
+   * Whether the Subject should always have a value for this field, in which case it can not be
+   * `null`. Defaults to `false`; ignored for fields with multiple values.
+   */
+  required?: boolean;
+};
+
+/**
+ * A field whose values are Literals or [[Reference]]s, e.g. `{ predicate: schema.name, type: 'string' }`.
+ */
+export interface ValueField<Type extends keyof ValueTypes = keyof ValueTypes> extends BaseField {
+  type: Type;
+};
+
+/**
+ * A field whose values are local Subjects, which are described by a Schema of their own.
+ */
+export interface LocalSubjectField<S extends Schema = Schema> extends BaseField {
+  type: 'localSubject';
+  schema: S;
+};
+
+export type SchemaField = ValueField | LocalSubjectField;
+
+/**
+ * Describes how the properties of a Subject map to the fields of a plain object.
+ *
+ * Usage:
+ *
+ *     const personSchema = defineSchema({
+ *       name: { predicate: foaf.name, type: 'string', required: true },
+ *       nicknames: { predicate: foaf.nick, type: 'string', multiple: true },
+ *       address: { predicate: vcard.hasAddress, type: 'localSubject', schema: addressSchema },
+ *     });
+ */
+export interface Schema {
+  [field: string]: SchemaField;
+};
+
+type FieldValue<Field> = Field extends LocalSubjectField<infer S>
+  ? SchemaObject<S>
+  : Field extends ValueField<infer Type> ? ValueTypes[Type] : never;
+type FieldObjectValue<Field> = Field extends { multiple: true }
+  ? Array<FieldValue<Field>>
+  : Field extends { required: true } ? FieldValue<Field> : FieldValue<Field> | null;
+
+/**
+ * The plain object representing a Subject described by Schema `S`.
+ */
+export type SchemaObject<S extends Schema> = { [Field in keyof S]: FieldObjectValue<S[Field]> };
+
+/**
+ * A [[TripleSubject]], viewed through a [[Schema]].
+ */
+export interface MappedSubject<S extends Schema> {
+  /**
+   * @returns The Subject this view represents.
+   */
+  getSubject: () => TripleSubject;
+  /**
+   * @returns A plain object with the Subject's current values for the fields in the Schema.
+   */
+  toObject: () => SchemaObject<S>;
+  /**
+   * Update the Subject to have the given values
+   *
+   * Only the fields present in `object` are modified; a value of `null` (or an empty array)
+   * removes the field's values. As with the Subject's own methods, the changes are not saved to the
+   * user's Pod until you save the containing Document.
+   *
+   * @param applyObject.object The values to set, e.g. as returned by [[toObject]] and then edited.
+   */
+  applyObject: (object: Partial<SchemaObject<S>>) => void;
+};
+
+/**
+ * Define a [[Schema]], making sure TypeScript infers the exact types of its fields
+ *
+ * This merely returns `schema`, but without it, TypeScript would e.g. infer the type of
+ * `{ type: 'string' }` to be `{ type: string }`, so that it can no longer determine the type of the
+ * field's values.
+ *
+ * @param schema Describes how the properties of a Subject map to the fields of a plain object.
+ * @returns `schema`.
+ */
+export function defineSchema<S extends Schema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * View a [[TripleSubject]] as a plain object described by a [[Schema]]
+ *
+ * Usage:
+ *
+ *     const person = mapSubject(document.getSubject('#me'), personSchema);
+ *     const { name, nicknames } = person.toObject();
+ *     person.applyObject({ nicknames: nicknames.concat('Tim') });
+ *     await document.save();
+ *
+ * @param subject The Subject to view.
+ * @param schema Describes how the properties of `subject` map to the fields of the plain object.
+ * @returns A view of `subject` that converts it to and from plain objects.
+ */
+export function mapSubject<S extends Schema>(subject: TripleSubject, schema: S): MappedSubject<S> {
+  const toObject = () => {
+    const object: { [field: string]: unknown } = {};
+    Object.keys(schema).forEach((fieldName) => {
+      object[fieldName] = readField(subject, fieldName, schema[fieldName]);
+    });
+    return object as SchemaObject<S>;
+  };
+
+  const applyObject = (object: Partial<SchemaObject<S>>) => {
+    (Object.keys(object) as Array<keyof S & string>).forEach((fieldName) => {
+      const field = schema[fieldName];
+      const value = object[fieldName];
+      // Fields that are not part of the Schema, or that were explicitly left undefined, are ignored:
+      if (typeof field === 'undefined' || typeof value === 'undefined') {
+        return;
+      }
+      writeField(subject, fieldName, field, value);
+    });
+  };
+
+  return {
+    getSubject: () => subject,
+    toObject: toObject,
+    applyObject: applyObject,
+  };
+}
+
+function readField(subject: TripleSubject, fieldName: string, field: SchemaField): unknown {
+  const values = (field.type === 'localSubject')
+    ? subject.getAllLocalSubjects(field.predicate).map(localSubject => mapSubject(localSubject, field.schema).toObject())
+    : valueAccessors[field.type].getAll(subject, field.predicate);
+  if (field.multiple) {
+    return values;
+  }
+  if (values.length === 0) {
+    if (field.required) {
+      throw new Error(`The Subject <${subject.asRef()}> has no value for the required field \`${fieldName}\`.`);
+    }
+    return null;
+  }
+  return values[0];
+}
+
+function writeField(subject: TripleSubject, fieldName: string, field: SchemaField, value: unknown) {
+  const values = field.multiple ? value : (value === null ? [] : [value]);
+  if (!Array.isArray(values)) {
+    throw new Error(`The field \`${fieldName}\` has multiple values, but the given value is not an array.`);
+  }
+  if (!field.multiple && field.required && values.length === 0) {
+    throw new Error(`The field \`${fieldName}\` is required, but the given value is \`null\`.`);
+  }
+
+  if (field.type === 'localSubject') {
+    writeLocalSubjects(subject, field, values);
+    return;
+  }
+
+  // Whether the values are of the field's exact type (e.g. integers) is checked by the Subject's
+  // own methods:
+  const newValues = values.filter(isFieldValue);
+  if (newValues.length !== values.length) {
+    throw new Error(`The field \`${fieldName}\` has a value that is not a Literal or Reference.`);
+  }
+  const accessor: ValueAccessor<FieldValueTypes> = valueAccessors[field.type];
+
+  // Only modify values that actually changed, so that e.g. applying an unchanged object does not
+  // result in pending changes:
+  const currentValues = accessor.getAll(subject, field.predicate);
+  currentValues
+    .filter(currentValue => !newValues.some(newValue => isSameValue(newValue, currentValue)))
+    .forEach(currentValue => accessor.remove(subject, field.predicate, currentValue));
+  newValues
+    .filter(newValue => !currentValues.some(currentValue => isSameValue(newValue, currentValue)))
+    .forEach(newValue => accessor.add(subject, field.predicate, newValue));
+}
+
+function writeLocalSubjects(subject: TripleSubject, field: LocalSubjectField, values: unknown[]) {
+  let localSubjects = subject.getAllLocalSubjects(field.predicate);
+  // Local Subjects can not be removed individually, so if there are fewer values than there are
+  // local Subjects, they are all replaced:
+  if (values.length < localSubjects.length) {
+    subject.removeAll(field.predicate);
+    localSubjects = [];
+  }
+  values.forEach((value, index) => {
+    const localSubject = (index < localSubjects.length)
+      ? localSubjects[index]
+      : subject.addLocalSubject(field.predicate);
+    mapSubject(localSubject, field.schema).applyObject(value as Partial<SchemaObject<Schema>>);
+  });
+}
+
+function isSameValue(value: unknown, otherValue: unknown): boolean {
+  if (value instanceof Date && otherValue instanceof Date) {
+    return value.getTime() === otherValue.getTime();
+  }
+  return value === otherValue;
+}
+
+type FieldValueTypes = ValueTypes[keyof ValueTypes];
+
+function isFieldValue(value: unknown): value is FieldValueTypes {
+  return ['string', 'number', 'bigint', 'boolean'].indexOf(typeof value) !== -1 || value instanceof Date;
+}
+
+/**
+ * Reads and writes values of one of the [[ValueTypes]]. `add` and `remove` are declared as methods,
+ * so that an accessor for one type can be used for values of any of those types, which the
+ * Subject's methods then check.
+ */
+interface ValueAccessor<T> {
+  getAll(subject: TripleSubject, predicate: Reference): T[];
+  add(subject: TripleSubject, predicate: Reference, value: T): void;
+  remove(subject: TripleSubject, predicate: Reference, value: T): void;
+};
+
+const valueAccessors: { [Type in keyof ValueTypes]: ValueAccessor<ValueTypes[Type]> } = {
+  string: {
+    getAll: (subject, predicate) => subject.getAllStrings(predicate),
+    add: (subject, predicate, value) => subject.addString(predicate, value),
+    remove: (subject, predicate, value) => subject.removeString(predicate, value),
+  },
+  integer: {
+    getAll: (subject, predicate) => subject.getAllIntegers(predicate),
+    add: (subject, predicate, value) => subject.addInteger(predicate, value),
+    remove: (subject, predicate, value) => subject.removeInteger(predicate, value),
+  },
+  decimal: {
+    getAll: (subject, predicate) => subject.getAllDecimals(predicate),
+    add: (subject, predicate, value) => subject.addDecimal(predicate, value),
+    remove: (subject, predicate, value) => subject.removeDecimal(predicate, value),
+  },
+  double: {
+    getAll: (subject, predicate) => subject.getAllDoubles(predicate),
+    add: (subject, predicate, value) => subject.addDouble(predicate, value),
+    remove: (subject, predicate, value) => subject.removeDouble(predicate, value),
+  },
+  float: {
+    getAll: (subject, predicate) => subject.getAllFloats(predicate),
+    add: (subject, predicate, value) => subject.addFloat(predicate, value),
+    remove: (subject, predicate, value) => subject.removeFloat(predicate, value),
+  },
+  long: {
+    getAll: (subject, predicate) => subject.getAllLongs(predicate),
+    add: (subject, predicate, value) => subject.addLong(predicate, value),
+    remove: (subject, predicate, value) => subject.removeLong(predicate, value),
+  },
+  bigInt: {
+    getAll: (subject, predicate) => subject.getAllBigInts(predicate),
+    add: (subject, predicate, value) => subject.addBigInt(predicate, value),
+    remove: (subject, predicate, value) => subject.removeBigInt(predicate, value),
+  },
+  decimalString: {
+    getAll: (subject, predicate) => subject.getAllDecimalStrings(predicate),
+    add: (subject, predicate, value) => subject.addDecimalString(predicate, value),
+    remove: (subject, predicate, value) => subject.removeDecimalString(predicate, value),
+  },
+  boolean: {
+    getAll: (subject, predicate) => subject.getAllBooleans(predicate),
+    add: (subject, predicate, value) => subject.addBoolean(predicate, value),
+    remove: (subject, predicate, value) => subject.removeBoolean(predicate, value),
+  },
+  dateTime: {
+    getAll: (subject, predicate) => subject.getAllDateTimes(predicate),
+    add: (subject, predicate, value) => subject.addDateTime(predicate, value),
+    remove: (subject, predicate, value) => subject.removeDateTime(predicate, value),
+  },
+  date: {
+    getAll: (subject, predicate) => subject.getAllDates(predicate),
+    add: (subject, predicate, value) => subject.addDate(predicate, value),
+    remove: (subject, predicate, value) => subject.removeDate(predicate, value),
+  },
+  time: {
+    getAll: (subject, predicate) => subject.getAllTimes(predicate),
+    add: (subject, predicate, value) => subject.addTime(predicate, value),
+    remove: (subject, predicate, value) => subject.removeTime(predicate, value),
+  },
+  duration: {
+    getAll: (subject, predicate) => subject.getAllDurations(predicate),
+    add: (subject, predicate, value) => subject.addDuration(predicate, value),
+    remove: (subject, predicate, value) => subject.removeDuration(predicate, value),
+  },
+  year: {
+    getAll: (subject, predicate) => subject.getAllYears(predicate),
+    add: (subject, predicate, value) => subject.addYear(predicate, value),
+    remove: (subject, predicate, value) => subject.removeYear(predicate, value),
+  },
+  anyUri: {
+    getAll: (subject, predicate) => subject.getAllAnyUris(predicate),
+    add: (subject, predicate, value) => subject.addAnyUri(predicate, value),
+    remove: (subject, predicate, value) => subject.removeAnyUri(predicate, value),
+  },
+  ref: {
+    getAll: (subject, predicate) => subject.getAllRefs(predicate),
+    add: (subject, predicate, value) => subject.addRef(predicate, value),
+    remove: (subject, predicate, value) => subject.removeRef(predicate, value),
+  },
+};
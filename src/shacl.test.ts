@@ -0,0 +1,359 @@
+import { DataFactory } from './n3dataset';
+import { instantiateDocument, createDocument } from './document';
+import { turtleToTriples } from './turtle';
+import { loadShapes } from './shacl';
+import { ValidationError } from './errors';
+
+const { blankNode, namedNode, triple } = DataFactory;
+
+const mockDocument = 'https://document.com/';
+const mockSubject = 'https://document.com/#subject';
+const mockSubject2 = 'https://document.com/#subject2';
+const mockShapes = 'https://shapes.com/';
+const mockVocab = 'https://mock-vocab.com/#';
+const prefixes = `
+  @prefix sh: <http://www.w3.org/ns/shacl#>.
+  @prefix xsd: <http://www.w3.org/2001/XMLSchema#>.
+  @prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>.
+  @prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#>.
+  @prefix ex: <${mockVocab}>.
+`;
+const sh = 'http://www.w3.org/ns/shacl#';
+const rdfType = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+
+async function getMockDocument(turtle: string) {
+  const triples = await turtleToTriples(prefixes + turtle, mockDocument);
+  return instantiateDocument(triples, { documentRef: mockDocument, existsOnPod: true });
+}
+
+function getShapes(turtle: string) {
+  return loadShapes(prefixes + turtle, mockShapes);
+}
+
+describe('loadShapes', () => {
+  it('should load shapes from a Document', async () => {
+    const shapesTriples = await turtleToTriples(
+      prefixes + `<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1 ].`,
+      mockShapes,
+    );
+    const shapesDocument = instantiateDocument(shapesTriples, { documentRef: mockShapes, existsOnPod: true });
+    const shapes = await loadShapes(shapesDocument);
+
+    const document = await getMockDocument(`<#subject> a ex:Person.`);
+
+    expect(shapes.validateDocument(document).conforms).toBe(false);
+  });
+
+  it('should load shapes from Turtle without a base IRI', async () => {
+    const shapes = await loadShapes(prefixes + `[] sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1 ].`);
+
+    const document = await getMockDocument(`<#subject> a ex:Person; ex:name "Alice".`);
+
+    expect(shapes.validateDocument(document)).toEqual({ conforms: true, results: [] });
+  });
+
+  it('should throw an error if a pattern is invalid', async () => {
+    await expect(getShapes(`<#Person> sh:targetClass ex:Person; sh:pattern "(unclosed".`))
+      .rejects.toThrowError(`Could not load the shapes: the pattern of <${mockShapes}#Person> is invalid:`);
+    await expect(getShapes(`<#Person> sh:targetClass ex:Person; sh:pattern "^a"; sh:flags "not flags".`))
+      .rejects.toThrowError(`Could not load the shapes: the pattern of <${mockShapes}#Person> is invalid:`);
+  });
+});
+
+describe('validateDocument', () => {
+  it('should report values that are missing', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property <#name>. <#name> sh:path ex:name; sh:minCount 1.`);
+    const document = await getMockDocument(`<#subject> a ex:Person.`);
+
+    expect(shapes.validateDocument(document)).toEqual({
+      conforms: false,
+      results: [{
+        focusNode: mockSubject,
+        path: mockVocab + 'name',
+        constraint: sh + 'MinCountConstraintComponent',
+        shape: mockShapes + '#name',
+        message: `<${mockSubject}> should have at least 1 value(s) for <${mockVocab}name>, but has 0.`,
+      }],
+    });
+  });
+
+  it('should report too many values', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:maxCount 1 ].`);
+    const document = await getMockDocument(`<#subject> a ex:Person; ex:name "Alice", "Bob".`);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.conforms).toBe(false);
+    expect(report.results).toHaveLength(1);
+    expect(report.results[0].constraint).toBe(sh + 'MaxCountConstraintComponent');
+    expect(report.results[0].message).toBe(
+      `<${mockSubject}> should have at most 1 value(s) for <${mockVocab}name>, but has 2.`,
+    );
+  });
+
+  it('should report values of the wrong datatype', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:age; sh:datatype xsd:integer ].`);
+    const document = await getMockDocument(`<#subject> a ex:Person; ex:age 42, "42", ex:someNode.`);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => result.value)).toEqual(['42', mockVocab + 'someNode']);
+    expect(report.results[0]).toEqual({
+      focusNode: mockSubject,
+      path: mockVocab + 'age',
+      value: '42',
+      constraint: sh + 'DatatypeConstraintComponent',
+      shape: expect.stringMatching(/^_:/),
+      message: `The value of <${mockVocab}age> should be a Literal of type <http://www.w3.org/2001/XMLSchema#integer>, but is "42".`,
+    });
+  });
+
+  it('should report values that are not instances of the given class', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:knows; sh:class ex:Person ].`);
+    const document = await getMockDocument(`
+      ex:Student rdfs:subClassOf ex:Person.
+      <#subject> a ex:Person; ex:knows <#subject2>, <#subject3>, <#subject4>, "Alice".
+      <#subject2> a ex:Student.
+      <#subject3> a ex:Robot.
+    `);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => result.value)).toEqual([mockDocument + '#subject3', mockDocument + '#subject4', 'Alice']);
+    expect(report.results[0].constraint).toBe(sh + 'ClassConstraintComponent');
+    expect(report.results[0].message).toBe(
+      `The value of <${mockVocab}knows> should be an instance of <${mockVocab}Person>, but <${mockDocument}#subject3> is not.`,
+    );
+  });
+
+  it('should target instances of subclasses of the target class', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1 ].`);
+    const document = await getMockDocument(`
+      ex:Student rdfs:subClassOf ex:Person.
+      ex:Person rdfs:subClassOf ex:Student.
+      ex:Robot rdfs:subClassOf ex:Machine.
+      ex:Machine rdfs:subClassOf ex:Robot.
+      <#subject> a ex:Student.
+      <#subject2> a ex:Robot.
+    `);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => result.focusNode)).toEqual([mockSubject]);
+  });
+
+  it('should report values that do not match the given pattern', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:email; sh:pattern "^mailto:" ], [ sh:path ex:name; sh:pattern "^a"; sh:flags "i" ].
+    `);
+    const document = await getMockDocument(`
+      <#subject> a ex:Person; ex:email <mailto:alice@example.com>, "alice@example.com", [ ex:name "Alice" ]; ex:name "Alice", "Bob".
+    `);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => result.value)).toEqual(['alice@example.com', expect.stringMatching(/^_:/), 'Bob']);
+    expect(report.results[0].constraint).toBe(sh + 'PatternConstraintComponent');
+    expect(report.results[0].message).toBe(
+      `The value of <${mockVocab}email> should match the pattern /^mailto:/, but "alice@example.com" does not.`,
+    );
+  });
+
+  it('should report values that are not in the list of allowed values', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:status; sh:in (ex:Active ex:Inactive) ], [ sh:path ex:name; sh:in <#notAList> ].
+    `);
+    const document = await getMockDocument(`<#subject> a ex:Person; ex:status ex:Active, ex:Deleted; ex:name "Alice".`);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => result.value)).toEqual([mockVocab + 'Deleted', 'Alice']);
+    expect(report.results[0].constraint).toBe(sh + 'InConstraintComponent');
+    expect(report.results[0].message).toBe(
+      `The value of <${mockVocab}status> should be one of <${mockVocab}Active>, <${mockVocab}Inactive>, but is <${mockVocab}Deleted>.`,
+    );
+  });
+
+  it('should not get stuck on lists of allowed values that loop back onto themselves', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:status; sh:in <#list> ].
+      <#list> rdf:first ex:Active; rdf:rest <#rest>.
+      <#rest> rdf:first ex:Inactive; rdf:rest <#list>.
+    `);
+    const document = await getMockDocument(`<#subject> a ex:Person; ex:status ex:Deleted.`);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => result.message)).toEqual([
+      `The value of <${mockVocab}status> should be one of <${mockVocab}Active>, <${mockVocab}Inactive>, but is <${mockVocab}Deleted>.`,
+    ]);
+  });
+
+  it('should report values that do not conform to the given node shape', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:address; sh:node <#Address> ].
+      <#Address> sh:property [ sh:path ex:street; sh:minCount 1 ].
+    `);
+    const document = await getMockDocument(`
+      <#subject> a ex:Person; ex:address [ ex:street "Main Street" ], [ ex:city "Springfield" ].
+    `);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results).toHaveLength(1);
+    expect(report.results[0].constraint).toBe(sh + 'NodeConstraintComponent');
+    expect(report.results[0].shape).toMatch(/^_:/);
+    expect(report.results[0].message).toMatch(
+      new RegExp(`^The value of <${mockVocab}address> should conform to the shape <${mockShapes}#Address>, but _:.* does not\\.$`),
+    );
+  });
+
+  it('should not get stuck on node shapes that refer to themselves', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:knows; sh:node <#Person> ], [ sh:path ex:name; sh:minCount 1 ].
+    `);
+    const document = await getMockDocument(`
+      <#subject> a ex:Person; ex:name "Alice"; ex:knows <#subject2>.
+      <#subject2> ex:name "Bob"; ex:knows <#subject>, <#subject3>.
+    `);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => [result.focusNode, result.constraint])).toEqual([
+      [mockSubject, sh + 'NodeConstraintComponent'],
+    ]);
+  });
+
+  it('should apply constraints to the focus node itself', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetNode <${mockSubject}>, <${mockSubject2}>; sh:node <#Named>; sh:pattern "subject$".
+      <#Named> sh:property [ sh:path ex:name; sh:minCount 1 ].
+    `);
+    const document = await getMockDocument(`<#subject> ex:name "Alice".`);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results).toEqual([
+      expect.objectContaining({ focusNode: mockSubject2, path: null, constraint: sh + 'PatternConstraintComponent' }),
+      expect.objectContaining({ focusNode: mockSubject2, path: null, constraint: sh + 'NodeConstraintComponent' }),
+    ]);
+    expect(report.results[0].message).toBe(
+      `<${mockSubject2}> should match the pattern /subject$/, but <${mockSubject2}> does not.`,
+    );
+  });
+
+  it('should target the subjects and objects of the given predicates', async () => {
+    const shapes = await getShapes(`
+      <#Knower> sh:targetSubjectsOf ex:knows; sh:property [ sh:path ex:name; sh:minCount 1 ].
+      <#Known> sh:targetObjectsOf ex:knows; sh:property [ sh:path ex:email; sh:minCount 1 ].
+    `);
+    const document = await getMockDocument(`<#subject> ex:knows <#subject2>.`);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => [result.focusNode, result.path])).toEqual([
+      [mockSubject, mockVocab + 'name'],
+      [mockSubject2, mockVocab + 'email'],
+    ]);
+  });
+
+  it('should ignore deactivated shapes and unsupported paths', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetClass ex:Person; sh:property
+        [ sh:path ex:name; sh:minCount 1; sh:deactivated true ],
+        [ sh:path ex:email; sh:minCount 1; sh:deactivated false ],
+        [ sh:path (ex:address ex:street); sh:minCount 1 ],
+        [ sh:minCount 1 ].
+      <#Robot> sh:targetClass ex:Robot; sh:deactivated true; sh:property [ sh:path ex:name; sh:minCount 1 ].
+      <#Animal> sh:targetClass ex:Animal; sh:property [ sh:path ex:species; sh:node <#Deactivated> ].
+      <#Deactivated> sh:deactivated true; sh:property [ sh:path ex:name; sh:minCount 1 ].
+    `);
+    const document = await getMockDocument(`
+      <#subject> a ex:Person, ex:Robot.
+      <#subject2> a ex:Animal; ex:species ex:Cat.
+    `);
+
+    const report = shapes.validateDocument(document);
+
+    expect(report.results.map(result => result.path)).toEqual([mockVocab + 'email']);
+  });
+
+  it('should use the message of the shape, if given', async () => {
+    const shapes = await getShapes(`
+      <#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1; sh:message "A person needs a name." ].
+    `);
+    const document = await getMockDocument(`<#subject> a ex:Person.`);
+
+    expect(shapes.validateDocument(document).results[0].message).toBe('A person needs a name.');
+  });
+
+  it('should validate the Document as it will be after saving', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1; sh:maxCount 1 ].`);
+    const document = await getMockDocument(`<#subject> a ex:Person; ex:name "Alice". <#subject2> a ex:Person.`);
+
+    document.getSubject(mockSubject).setString(mockVocab + 'name', 'Bob');
+    document.getSubject(mockSubject).addString(mockVocab + 'name', 'Bob');
+
+    expect(shapes.validateDocument(document).results.map(result => result.focusNode)).toEqual([mockSubject2]);
+
+    document.getSubject(mockSubject2).addString(mockVocab + 'name', 'Carol');
+    document.getSubject(mockSubject).addString(mockVocab + 'name', 'Dave');
+
+    expect(shapes.validateDocument(document).results.map(result => result.focusNode)).toEqual([mockSubject]);
+  });
+
+  it('should validate Documents that have not been saved to the Pod yet', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1 ].`);
+    const document = createDocument(mockDocument);
+    const subject = document.addSubject();
+    subject.addRef('http://www.w3.org/1999/02/22-rdf-syntax-ns#type', mockVocab + 'Person');
+
+    expect(shapes.validateDocument(document).results.map(result => result.focusNode)).toEqual([subject.asRef()]);
+
+    subject.addString(mockVocab + 'name', 'Alice');
+
+    expect(shapes.validateDocument(document).conforms).toBe(true);
+  });
+});
+
+describe('validating before saving', () => {
+  it('should validate the same Triples as validateDocument', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1 ].`);
+    const document = await getMockDocument(`<#subject> a ex:Person; ex:name "Alice".`);
+    const documentWithShapes = instantiateDocument(
+      document.getTriples(),
+      { documentRef: mockDocument, existsOnPod: true, shapes: shapes },
+    );
+    documentWithShapes.getSubject(mockSubject).removeAll(mockVocab + 'name');
+    documentWithShapes.getSubject(mockSubject2).addRef(rdfType, mockVocab + 'Person');
+    documentWithShapes.getSubject(mockSubject2).addString(mockVocab + 'name', 'Bob');
+
+    const error = await documentWithShapes.save().catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.report).toEqual(shapes.validateDocument(documentWithShapes));
+  });
+});
+
+describe('validateSubject', () => {
+  it('should only report the results for the given Subject', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1 ].`);
+    const document = await getMockDocument(`<#subject> a ex:Person. <#subject2> a ex:Person; ex:name "Bob".`);
+
+    expect(shapes.validateSubject(document.getSubject(mockSubject)).conforms).toBe(false);
+    expect(shapes.validateSubject(document.getSubject(mockSubject2)).conforms).toBe(true);
+  });
+});
+
+describe('validateTriples', () => {
+  it('should identify local Subjects by their Blank Node identifier', async () => {
+    const shapes = await getShapes(`<#Person> sh:targetClass ex:Person; sh:property [ sh:path ex:name; sh:minCount 1 ].`);
+
+    const report = shapes.validateTriples([
+      triple(blankNode('some-person'), namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#type'), namedNode(mockVocab + 'Person')),
+    ]);
+
+    expect(report.results[0].focusNode).toBe('_:some-person');
+    expect(report.results[0].message).toBe(`_:some-person should have at least 1 value(s) for <${mockVocab}name>, but has 0.`);
+  });
+});
@@ -0,0 +1,371 @@
+import { Quad, Term } from 'rdf-js';
+import { Reference, LiteralTypes, isLiteral } from '.';
+import { BareTripleDocument, TripleDocument, getTriplesAfterSave } from './document';
+import { TripleSubject, fromLiteral } from './subject';
+import { DataFactory, initialiseDataset, Dataset } from './n3dataset';
+import { turtleToTriples } from './turtle';
+import { unique, toRef, describeTerm } from './triples';
+
+/**
+ * A single way in which data does not conform to a set of [[Shapes]].
+ */
+export interface ValidationResult {
+  /**
+   * The Subject that does not conform, e.g. `https://pod.example/profile#me`. Local Subjects are
+   * identified by `_:` followed by their Blank Node identifier.
+   */
+  focusNode: Reference;
+  /**
+   * The property whose values do not conform, or `null` if the Subject itself does not conform.
+   */
+  path: Reference | null;
+  /**
+   * The value that does not conform, if the violation is caused by a specific value.
+   */
+  value?: Reference | LiteralTypes;
+  /**
+   * The kind of constraint that is violated, e.g. `http://www.w3.org/ns/shacl#MinCountConstraintComponent`.
+   */
+  constraint: Reference;
+  /**
+   * The shape that contains the violated constraint.
+   */
+  shape: Reference;
+  /**
+   * A human-readable description of the violation: the shape's `sh:message` if it has one, or a
+   * description generated by Tripledoc otherwise.
+   */
+  message: string;
+};
+
+/**
+ * The outcome of validating data against a set of [[Shapes]].
+ */
+export interface ValidationReport {
+  /**
+   * Whether the data conforms to the shapes, i.e. whether [[results]] is empty.
+   */
+  conforms: boolean;
+  results: ValidationResult[];
+};
+
+/**
+ * A set of SHACL shapes that data can be validated against.
+ *
+ * Tripledoc supports the following subset of SHACL:
+ *
+ * - targets: `sh:targetClass`, `sh:targetNode`, `sh:targetSubjectsOf` and `sh:targetObjectsOf`;
+ * - property shapes (`sh:property`) whose `sh:path` is a single predicate;
+ * - constraints: `sh:datatype`, `sh:minCount`, `sh:maxCount`, `sh:class`, `sh:pattern` (with
+ *   `sh:flags`), `sh:in` and `sh:node`;
+ * - `sh:message` and `sh:deactivated`.
+ *
+ * Other constraints are ignored.
+ */
+export interface Shapes {
+  /**
+   * Validate a Subject, including the changes to its Document that have not been saved yet.
+   *
+   * @param validateSubject.subject The Subject to validate.
+   * @returns Whether the Subject conforms to the shapes that target it, and if not, why not.
+   */
+  validateSubject: (subject: TripleSubject) => ValidationReport;
+  /**
+   * Validate a Document as it will be after its pending changes have been saved.
+   *
+   * @param validateDocument.document The Document to validate.
+   * @returns Whether every Subject in the Document conforms to the shapes that target it, and if
+   *          not, why not.
+   */
+  validateDocument: (document: BareTripleDocument) => ValidationReport;
+  /**
+   * @internal Used to validate Documents before saving them; not part of the public API.
+   * @param validateTriples.triples The Triples to validate.
+   * @returns Whether the Triples conform to the shapes, and if not, why not.
+   */
+  validateTriples: (triples: Quad[]) => ValidationReport;
+};
+
+const sh = 'http://www.w3.org/ns/shacl#';
+const rdfType = DataFactory.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#type');
+const rdfFirst = DataFactory.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#first');
+const rdfRest = DataFactory.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#rest');
+const rdfsSubClassOf = DataFactory.namedNode('http://www.w3.org/2000/01/rdf-schema#subClassOf');
+
+/**
+ * Load SHACL shapes to validate data against
+ *
+ * Usage:
+ *
+ *     const shapes = await loadShapes(await fetchDocument('https://pod.example/shapes/person.ttl'));
+ *     const report = shapes.validateSubject(profile.getSubject('#me'));
+ *
+ * To prevent saving data that does not conform to the shapes, pass them to e.g. [[fetchDocument]]
+ * as the `shapes` option.
+ *
+ * @param source The shapes, either as a Turtle string or as a Document.
+ * @param baseRef The IRI relative IRIs in the Turtle string are relative to; ignored for Documents.
+ * @returns The shapes, which can validate Subjects and Documents.
+ * @throws An error if a shape has an invalid `sh:pattern` or `sh:flags`.
+ */
+export async function loadShapes(source: string | TripleDocument, baseRef?: Reference): Promise<Shapes> {
+  const shapesTriples = (typeof source === 'string')
+    ? await turtleToTriples(source, baseRef || '')
+    : source.getTriples();
+  return createShapes(shapesTriples);
+}
+
+function createShapes(shapesTriples: Quad[]): Shapes {
+  const shapesGraph = initialiseDataset();
+  shapesGraph.addAll(shapesTriples);
+
+  const getValues = (node: Term, parameter: string) => {
+    return shapesGraph.match(node, DataFactory.namedNode(sh + parameter), null, null).toArray()
+      .map(triple => triple.object);
+  };
+  const getValue = (node: Term, parameter: string): Term | undefined => getValues(node, parameter)[0];
+  const isDeactivated = (shape: Term) => {
+    const deactivated = getValue(shape, 'deactivated');
+    return typeof deactivated !== 'undefined' && deactivated.value === 'true';
+  };
+  // Patterns are compiled up front, so that invalid ones are reported when loading the shapes:
+  const patterns = shapesGraph.match(null, DataFactory.namedNode(sh + 'pattern'), null, null).toArray()
+    .map(triple => ({
+      shape: triple.subject,
+      pattern: triple.object,
+      regExp: createRegExp(triple.subject, triple.object, getValue(triple.subject, 'flags')),
+    }));
+  const targetParameters = ['targetClass', 'targetNode', 'targetSubjectsOf', 'targetObjectsOf'];
+  const targetedShapes = unique(
+    targetParameters
+      .map(parameter => shapesGraph.match(null, DataFactory.namedNode(sh + parameter), null, null).toArray())
+      .reduce((triplesSoFar, triples) => triplesSoFar.concat(triples), [])
+      .map(triple => triple.subject),
+  );
+
+  const validateTriples = (triples: Quad[], isFocusNode: (node: Term) => boolean = () => true) => {
+    const dataGraph = initialiseDataset();
+    dataGraph.addAll(triples);
+
+    const getTargetNodes = (shape: Term): Term[] => {
+      const classTargets = getValues(shape, 'targetClass')
+        .map(targetClass => getInstances(targetClass, dataGraph))
+        .reduce((nodesSoFar, nodes) => nodesSoFar.concat(nodes), []);
+      const nodeTargets = getValues(shape, 'targetNode');
+      const subjectsOfTargets = getValues(shape, 'targetSubjectsOf')
+        .map(predicate => dataGraph.match(null, predicate, null, null).toArray().map(triple => triple.subject))
+        .reduce<Term[]>((nodesSoFar, nodes) => nodesSoFar.concat(nodes), []);
+      const objectsOfTargets = getValues(shape, 'targetObjectsOf')
+        .map(predicate => dataGraph.match(null, predicate, null, null).toArray().map(triple => triple.object))
+        .reduce<Term[]>((nodesSoFar, nodes) => nodesSoFar.concat(nodes), []);
+      return unique(classTargets.concat(nodeTargets, subjectsOfTargets, objectsOfTargets));
+    };
+
+    /**
+     * @param visited Shapes and nodes that are already being validated, to guard against shapes
+     *                that refer to themselves through `sh:node`.
+     */
+    const validateNode = (shape: Term, focusNode: Term, visited: Array<[Term, Term]>): ValidationResult[] => {
+      if (isDeactivated(shape)) {
+        return [];
+      }
+      const nodesBeingValidated = visited.concat([[shape, focusNode]]);
+      const nodeResults = validateValues(shape, focusNode, null, [focusNode], nodesBeingValidated);
+      const propertyResults = getValues(shape, 'property')
+        .filter(propertyShape => !isDeactivated(propertyShape))
+        .map(propertyShape => validateProperty(propertyShape, focusNode, nodesBeingValidated))
+        .reduce((resultsSoFar, results) => resultsSoFar.concat(results), []);
+      return nodeResults.concat(propertyResults);
+    };
+
+    const validateProperty = (propertyShape: Term, focusNode: Term, visited: Array<[Term, Term]>) => {
+      const path = getValue(propertyShape, 'path');
+      // Only paths consisting of a single predicate are supported:
+      if (typeof path === 'undefined' || path.termType !== 'NamedNode') {
+        return [];
+      }
+      const values = dataGraph.match(focusNode, path, null, null).toArray().map(triple => triple.object);
+      const createResult = getResultCreator(propertyShape, focusNode, path);
+      const results: ValidationResult[] = [];
+
+      const minCount = getValue(propertyShape, 'minCount');
+      if (typeof minCount !== 'undefined' && values.length < parseInt(minCount.value, 10)) {
+        results.push(createResult(
+          'MinCountConstraintComponent',
+          `${describeTerm(focusNode)} should have at least ${minCount.value} value(s) for ${describeTerm(path)}, but has ${values.length}.`,
+        ));
+      }
+      const maxCount = getValue(propertyShape, 'maxCount');
+      if (typeof maxCount !== 'undefined' && values.length > parseInt(maxCount.value, 10)) {
+        results.push(createResult(
+          'MaxCountConstraintComponent',
+          `${describeTerm(focusNode)} should have at most ${maxCount.value} value(s) for ${describeTerm(path)}, but has ${values.length}.`,
+        ));
+      }
+
+      return results.concat(validateValues(propertyShape, focusNode, path, values, visited));
+    };
+
+    /**
+     * Apply the constraints that every value node should satisfy individually.
+     */
+    const validateValues = (
+      shape: Term,
+      focusNode: Term,
+      path: Term | null,
+      values: Term[],
+      visited: Array<[Term, Term]>,
+    ): ValidationResult[] => {
+      const createResult = getResultCreator(shape, focusNode, path);
+      const results: ValidationResult[] = [];
+      const subject = (path === null) ? describeTerm(focusNode) : `The value of ${describeTerm(path)}`;
+
+      getValues(shape, 'datatype').forEach((datatype) => {
+        values
+          .filter(value => !isLiteral(value) || value.datatype.value !== datatype.value)
+          .forEach(value => results.push(createResult(
+            'DatatypeConstraintComponent',
+            `${subject} should be a Literal of type ${describeTerm(datatype)}, but is ${describeTerm(value)}.`,
+            value,
+          )));
+      });
+      getValues(shape, 'class').forEach((requiredClass) => {
+        values
+          .filter(value => !isInstanceOf(value, requiredClass, dataGraph))
+          .forEach(value => results.push(createResult(
+            'ClassConstraintComponent',
+            `${subject} should be an instance of ${describeTerm(requiredClass)}, but ${describeTerm(value)} is not.`,
+            value,
+          )));
+      });
+      patterns.filter(({ shape: patternShape }) => patternShape.equals(shape)).forEach(({ pattern, regExp }) => {
+        values
+          .filter(value => value.termType === 'BlankNode' || !regExp.test(value.value))
+          .forEach(value => results.push(createResult(
+            'PatternConstraintComponent',
+            `${subject} should match the pattern /${pattern.value}/, but ${describeTerm(value)} does not.`,
+            value,
+          )));
+      });
+      getValues(shape, 'in').forEach((list) => {
+        const allowedValues = getListItems(list, shapesGraph);
+        values
+          .filter(value => !allowedValues.some(allowedValue => allowedValue.equals(value)))
+          .forEach(value => results.push(createResult(
+            'InConstraintComponent',
+            `${subject} should be one of ${allowedValues.map(describeTerm).join(', ')}, but is ${describeTerm(value)}.`,
+            value,
+          )));
+      });
+      getValues(shape, 'node').forEach((nodeShape) => {
+        const isBeingValidated = (value: Term) => visited.some(
+          ([otherShape, otherNode]) => otherShape.equals(nodeShape) && otherNode.equals(value),
+        );
+        values
+          // A node that is already being validated against this shape is assumed to conform to it:
+          .filter(value => !isBeingValidated(value) && validateNode(nodeShape, value, visited).length > 0)
+          .forEach(value => results.push(createResult(
+            'NodeConstraintComponent',
+            `${subject} should conform to the shape ${describeTerm(nodeShape)}, but ${describeTerm(value)} does not.`,
+            value,
+          )));
+      });
+
+      return results;
+    };
+
+    const getResultCreator = (shape: Term, focusNode: Term, path: Term | null) => {
+      const customMessage = getValue(shape, 'message');
+      return (constraint: string, message: string, value?: Term): ValidationResult => {
+        const result: ValidationResult = {
+          focusNode: toRef(focusNode),
+          path: (path === null) ? null : path.value,
+          constraint: sh + constraint,
+          shape: toRef(shape),
+          message: (typeof customMessage !== 'undefined') ? customMessage.value : message,
+        };
+        if (typeof value !== 'undefined') {
+          result.value = isLiteral(value) ? fromLiteral(value) : toRef(value);
+        }
+        return result;
+      };
+    };
+
+    const results = targetedShapes
+      .filter(shape => !isDeactivated(shape))
+      .map(shape => getTargetNodes(shape)
+        .filter(isFocusNode)
+        .map(focusNode => validateNode(shape, focusNode, []))
+        .reduce((resultsSoFar, nodeResults) => resultsSoFar.concat(nodeResults), []))
+      .reduce((resultsSoFar, shapeResults) => resultsSoFar.concat(shapeResults), []);
+
+    return {
+      conforms: results.length === 0,
+      results: results,
+    };
+  };
+
+  const validateSubject = (subject: TripleSubject) => {
+    return validateTriples(getTriplesAfterSave(subject.getDocument()), node => node.equals(subject.asNode()));
+  };
+
+  const validateDocument = (document: BareTripleDocument) => validateTriples(getTriplesAfterSave(document));
+
+  return {
+    validateSubject: validateSubject,
+    validateDocument: validateDocument,
+    validateTriples: (triples: Quad[]) => validateTriples(triples),
+  };
+}
+
+function getInstances(targetClass: Term, dataGraph: Dataset): Term[] {
+  return dataGraph.match(null, rdfType, null, null).toArray()
+    .filter(triple => isSubClassOf(triple.object, targetClass, dataGraph, []))
+    .map(triple => triple.subject);
+}
+
+function isInstanceOf(node: Term, requiredClass: Term, dataGraph: Dataset): boolean {
+  if (isLiteral(node)) {
+    return false;
+  }
+  return dataGraph.match(node, rdfType, null, null).toArray()
+    .some(triple => isSubClassOf(triple.object, requiredClass, dataGraph, []));
+}
+
+/**
+ * @returns Whether `type` is `superClass` or one of its (indirect) subclasses.
+ */
+function isSubClassOf(type: Term, superClass: Term, dataGraph: Dataset, visitedTypes: Term[]): boolean {
+  if (type.equals(superClass)) {
+    return true;
+  }
+  if (visitedTypes.some(visitedType => visitedType.equals(type))) {
+    return false;
+  }
+  return dataGraph.match(type, rdfsSubClassOf, null, null).toArray()
+    .some(triple => isSubClassOf(triple.object, superClass, dataGraph, visitedTypes.concat(type)));
+}
+
+/**
+ * @param visitedNodes The list nodes preceding `list`, to guard against lists that loop back onto
+ *                     themselves.
+ */
+function getListItems(list: Term, shapesGraph: Dataset, visitedNodes: Term[] = []): Term[] {
+  if (visitedNodes.some(visitedNode => visitedNode.equals(list))) {
+    return [];
+  }
+  const first = shapesGraph.match(list, rdfFirst, null, null).toArray();
+  const rest = shapesGraph.match(list, rdfRest, null, null).toArray();
+  if (first.length === 0 || rest.length === 0) {
+    return [];
+  }
+  return ([first[0].object] as Term[]).concat(getListItems(rest[0].object, shapesGraph, visitedNodes.concat(list)));
+}
+
+function createRegExp(shape: Term, pattern: Term, flags?: Term): RegExp {
+  try {
+    return new RegExp(pattern.value, (typeof flags !== 'undefined') ? flags.value : undefined);
+  } catch (e) {
+    throw new Error(`Could not load the shapes: the pattern of ${describeTerm(shape)} is invalid: ${e.message}`);
+  }
+}
@@ -0,0 +1,378 @@
+import { DataFactory } from './n3dataset';
+import { instantiateDocument, createDocument, createDocumentInContainer } from './document';
+import { turtleToTriples } from './turtle';
+import { parseShExSchema } from './shex';
+
+const { blankNode, literal, namedNode, triple } = DataFactory;
+
+const mockDocument = 'https://document.com/';
+const mockSubject = 'https://document.com/#subject';
+const mockSubject2 = 'https://document.com/#subject2';
+const mockShapes = 'https://shapes.com/';
+const mockVocab = 'https://mock-vocab.com/#';
+const rdfType = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const prefixes = `
+  PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+  PREFIX ex: <${mockVocab}>
+`;
+
+async function getMockDocument(turtle: string) {
+  const triples = await turtleToTriples(
+    `@prefix xsd: <http://www.w3.org/2001/XMLSchema#>. @prefix ex: <${mockVocab}>. ${turtle}`,
+    mockDocument,
+  );
+  return instantiateDocument(triples, { documentRef: mockDocument, existsOnPod: true });
+}
+
+function getSchema(shexc: string) {
+  return parseShExSchema(prefixes + shexc, mockShapes);
+}
+
+describe('parseShExSchema', () => {
+  it('should support the documented subset of ShExC', () => {
+    expect(() => parseShExSchema(`
+      # A comment
+      BASE <https://shapes.com/>
+      PREFIX : <${mockVocab}>
+      prefix xsd: <http://www.w3.org/2001/XMLSchema#>
+      start = @<#Person>
+      <#Person> CLOSED EXTRA a :status {
+        a [ :Person ] ;
+        :name xsd:string + ;
+        :nick LITERAL {0,3} ;
+        :age xsd:integer ? ;
+        :homepage IRI {1,} ;
+        :status [ "active" 'inactive' "actif"@fr "1"^^xsd:integer 1 1.5 true false ] ;
+        :knows @<#Person> * ;
+        :address { :street . } {1} ;
+        :account BNODE {0,*} ;
+        :pet NONLITERAL ;
+      }
+      <#Name> xsd:string
+    `)).not.toThrow();
+  });
+
+  it('should throw an error when the schema contains unsupported syntax', () => {
+    expect(() => parseShExSchema(`<#Person> { ex:name ~ }`)).toThrowError(
+      'Could not parse the ShEx schema: unexpected character `~` on line 1.',
+    );
+    expect(() => getSchema(`\n<#Person> { ex:name . | ex:nick . }`)).toThrowError(
+      'Could not parse the ShEx schema: expected `;` or `}`, but found `|` on line 5.',
+    );
+    expect(() => getSchema(`<#Person> { ex:name . ; `)).toThrowError(
+      'Could not parse the ShEx schema: expected an IRI, but found the end of the schema.',
+    );
+    expect(() => getSchema(`<#Person> ( ex:name . )`)).toThrowError(
+      'Could not parse the ShEx schema: expected a shape, but found `(` on line 4.',
+    );
+    expect(() => getSchema(`<#Person> { ex:status [ ex:Active ) }`)).toThrowError(
+      'Could not parse the ShEx schema: expected a value, but found `)` on line 4.',
+    );
+    expect(() => getSchema(`<#Person> { ex:name . {1,a} }`)).toThrowError(
+      'Could not parse the ShEx schema: expected a number or `*`, but found `a` on line 4.',
+    );
+    expect(() => getSchema(`<#Person> { ex:name . {1 ; }`)).toThrowError(
+      'Could not parse the ShEx schema: expected `}`, but found `;` on line 4.',
+    );
+    expect(() => getSchema(`start = <#Person>`)).toThrowError(
+      'Could not parse the ShEx schema: expected `@`, but found `#Person` on line 4.',
+    );
+    expect(() => getSchema(`start @<#Person>`)).toThrowError(
+      'Could not parse the ShEx schema: expected `=`, but found `@` on line 4.',
+    );
+    expect(() => getSchema(`PREFIX <${mockVocab}>`)).toThrowError(
+      `Could not parse the ShEx schema: expected a prefix, but found \`${mockVocab}\` on line 4.`,
+    );
+  });
+
+  it('should throw an error when the schema uses undeclared prefixes or shapes', () => {
+    expect(() => getSchema(`<#Person> { foaf:name . }`)).toThrowError(
+      'Could not parse the ShEx schema: the prefix `foaf:` on line 4 was not declared.',
+    );
+    expect(() => getSchema(`<#Person> { ex:knows { ex:friend @<#Friend> } }`)).toThrowError(
+      'Could not parse the ShEx schema: the shape <https://shapes.com/#Friend> is referred to, but not declared.',
+    );
+    expect(() => getSchema(`start = @<#Person>`)).toThrowError(
+      'Could not parse the ShEx schema: the shape <https://shapes.com/#Person> is referred to, but not declared.',
+    );
+  });
+
+  it('should keep relative IRIs as they are if no base IRI was given', async () => {
+    const schema = parseShExSchema(`start = @<#Person> <#Person> { <${mockVocab}name> . }`);
+    const document = await getMockDocument(`<#subject> ex:name "Alice".`);
+
+    expect(schema.validateSubject(document.getSubject(mockSubject)).conforms).toBe(true);
+    expect(schema.validateSubject(document.getSubject(mockSubject), '#Person').conforms).toBe(true);
+  });
+});
+
+describe('validateSubject', () => {
+  it('should report missing values', async () => {
+    const schema = getSchema(`start = @<#Person> <#Person> { ex:name xsd:string }`);
+    const document = await getMockDocument(`<#subject> ex:age 42.`);
+
+    expect(schema.validateSubject(document.getSubject(mockSubject))).toEqual({
+      conforms: false,
+      results: [{
+        focusNode: mockSubject,
+        shape: mockShapes + '#Person',
+        predicate: mockVocab + 'name',
+        message: `<${mockSubject}> should have at least 1 value(s) for <${mockVocab}name> that are a Literal of type <http://www.w3.org/2001/XMLSchema#string>, but has 0.`,
+      }],
+    });
+    expect(schema.validateSubject(document.getSubject(mockSubject2)).results[0].focusNode).toBe(mockSubject2);
+  });
+
+  it('should report too many values', async () => {
+    const schema = getSchema(`start = @<#Person> <#Person> { ex:nick . {0,2} }`);
+    const document = await getMockDocument(`<#subject> ex:nick "Al", "Ali", "Alice".`);
+
+    const report = schema.validateSubject(document.getSubject(mockSubject));
+
+    expect(report.results.map(result => result.message)).toEqual([
+      `<${mockSubject}> should have at most 2 value(s) for <${mockVocab}nick> that are anything, but has 3.`,
+    ]);
+  });
+
+  it('should report values that do not match the triple constraint', async () => {
+    const schema = getSchema(`
+      start = @<#Person>
+      <#Person> { ex:age xsd:integer ; ex:homepage IRI * ; ex:status [ ex:Active "active"@en ] * }
+    `);
+    const document = await getMockDocument(`
+      <#subject> ex:age 42, "42"; ex:homepage <https://alice.example>, "https://alice.example"; ex:status ex:Active, "active"@EN, ex:Deleted.
+    `);
+
+    const report = schema.validateSubject(document.getSubject(mockSubject));
+
+    expect(report.results.map(result => result.value)).toEqual(['42', 'https://alice.example', mockVocab + 'Deleted']);
+    expect(report.results[0]).toEqual({
+      focusNode: mockSubject,
+      shape: mockShapes + '#Person',
+      predicate: mockVocab + 'age',
+      value: '42',
+      message: `The value "42" of <${mockVocab}age> does not match any triple constraint of the shape <${mockShapes}#Person>.`,
+    });
+  });
+
+  it('should compare values against value sets', async () => {
+    const schema = getSchema(`start = @<#Note> <#Note> { ex:text [ "" "Say \\"hi\\"\\n" ] + }`);
+    const document = await getMockDocument(`<#subject> ex:text "", "Say \\"hi\\"\\n", "Say hi".`);
+
+    const report = schema.validateSubject(document.getSubject(mockSubject));
+
+    expect(report.results.map(result => result.value)).toEqual(['Say hi']);
+  });
+
+  it('should allow values that do not match the triple constraint for EXTRA predicates', async () => {
+    const schema = getSchema(`start = @<#Person> <#Person> EXTRA a { a [ ex:Person ] }`);
+    const document = await getMockDocument(`<#subject> a ex:Person, ex:Agent.`);
+
+    expect(schema.validateSubject(document.getSubject(mockSubject)).conforms).toBe(true);
+  });
+
+  it('should only allow predicates mentioned in CLOSED shapes', async () => {
+    const schema = getSchema(`
+      <#Person> CLOSED EXTRA ex:tag { ex:name . }
+    `);
+    const document = await getMockDocument(`<#subject> ex:name "Alice"; ex:tag "a"; ex:age 42.`);
+
+    const report = schema.validateSubject(document.getSubject(mockSubject), mockShapes + '#Person');
+
+    expect(report.results).toEqual([{
+      focusNode: mockSubject,
+      shape: mockShapes + '#Person',
+      predicate: mockVocab + 'age',
+      value: 42,
+      message: `<${mockSubject}> should not have values for <${mockVocab}age>, since the shape <${mockShapes}#Person> is closed.`,
+    }]);
+  });
+
+  it('should match every value against a single triple constraint', async () => {
+    const schema = getSchema(`
+      start = @<#Person>
+      <#Person> { ex:email [ "alice@example.com" ] ; ex:email LITERAL {1,2} }
+    `);
+    const document = await getMockDocument(`<#subject> ex:email "alice@example.com".`);
+
+    const report = schema.validateSubject(document.getSubject(mockSubject));
+
+    expect(report.results.map(result => result.message)).toEqual([
+      `<${mockSubject}> should have at least 1 value(s) for <${mockVocab}email> that are a Literal, but has 0.`,
+    ]);
+  });
+
+  it('should validate values against referenced and nested shapes', async () => {
+    const schema = getSchema(`
+      start = @<#Person>
+      <#Person> { ex:knows @<#Person> * ; ex:name . ; ex:address { ex:street LITERAL } ? }
+    `);
+    const document = await getMockDocument(`
+      <#subject> ex:name "Alice"; ex:knows <#subject>, <#subject2>, <#subject3>; ex:address [ ex:street ex:MainStreet ].
+      <#subject2> ex:name "Bob"; ex:knows <#subject>.
+      <#subject3> ex:knows <#subject2>.
+    `);
+
+    const report = schema.validateSubject(document.getSubject(mockSubject));
+
+    expect(report.results.map(result => result.message)).toEqual([
+      `The value <${mockDocument}#subject3> of <${mockVocab}knows> does not match any triple constraint of the shape <${mockShapes}#Person>.`,
+      `The value ${report.results[1].value} of <${mockVocab}address> does not match any triple constraint of the shape <${mockShapes}#Person>.`,
+    ]);
+    expect(report.results[1].value).toMatch(/^_:/);
+  });
+
+  it('should validate Subjects against node constraints', async () => {
+    const schema = getSchema(`
+      <#Named> @<#Person>
+      <#Person> NONLITERAL
+      <#Robot> BNODE
+      <#Active> [ <${mockSubject2}> ]
+    `);
+    const document = await getMockDocument(`<#subject> ex:name "Alice".`);
+    const subject = document.getSubject(mockSubject);
+
+    expect(schema.validateSubject(subject, mockShapes + '#Named').conforms).toBe(true);
+    expect(schema.validateSubject(subject, mockShapes + '#Robot').results).toEqual([{
+      focusNode: mockSubject,
+      shape: mockShapes + '#Robot',
+      predicate: null,
+      message: `<${mockSubject}> should be a Blank Node.`,
+    }]);
+    expect(schema.validateSubject(subject, mockShapes + '#Active').results[0].message).toBe(
+      `<${mockSubject}> should be one of <${mockSubject2}>.`,
+    );
+  });
+
+  it('should describe every type of value expression', async () => {
+    const schema = getSchema(`
+      start = @<#Person>
+      <#Person> { ex:a IRI ; ex:b LITERAL ; ex:c NONLITERAL ; ex:d @<#Person> ; ex:e { ex:f . } }
+    `);
+    const document = await getMockDocument(`<#subject> ex:name "Alice".`);
+
+    const report = schema.validateSubject(document.getSubject(mockSubject));
+
+    expect(report.results.map(result => result.message.replace(/^.* that are (.*), but has 0\.$/, '$1'))).toEqual([
+      'an IRI',
+      'a Literal',
+      'not a Literal',
+      `conforming to the shape <${mockShapes}#Person>`,
+      'conforming to a nested shape',
+    ]);
+  });
+
+  it('should validate local Subjects and changes that have not been saved yet', async () => {
+    const schema = getSchema(`start = @<#Address> <#Address> { ex:street LITERAL }`);
+    const document = createDocument(mockDocument);
+    const address = document.addSubject().addLocalSubject(mockVocab + 'address');
+    address.addString(mockVocab + 'city', 'Springfield');
+
+    const report = schema.validateSubject(address);
+
+    expect(report.results[0].focusNode).toBe('_:' + address.asRef());
+
+    address.addString(mockVocab + 'street', 'Main Street');
+
+    expect(schema.validateSubject(address).conforms).toBe(true);
+  });
+
+  it('should not mistake a local Subject for a Subject whose IRI equals its identifier', async () => {
+    const schema = getSchema(`start = @<#Person> <#Person> { ex:name LITERAL }`);
+    const document = instantiateDocument(
+      [triple(blankNode(mockSubject), namedNode(mockVocab + 'name'), literal('Alice'))],
+      { documentRef: mockDocument, existsOnPod: true },
+    );
+
+    const report = schema.validateSubject(document.getSubject(mockSubject));
+
+    expect(report.results.map(result => result.focusNode)).toEqual([mockSubject]);
+  });
+
+  it('should throw an error when there is no shape to validate against', async () => {
+    const schema = getSchema(`<#Person> { ex:name . }`);
+    const document = await getMockDocument(`<#subject> ex:name "Alice".`);
+
+    expect(() => schema.validateSubject(document.getSubject(mockSubject))).toThrowError(
+      'No shape was given, and the ShEx schema does not declare a start shape.',
+    );
+    expect(() => schema.validateSubject(document.getSubject(mockSubject), '#Robot')).toThrowError(
+      `The ShEx schema does not declare a shape <${mockShapes}#Robot>.`,
+    );
+  });
+});
+
+describe('validateDocument', () => {
+  it('should validate the Subjects in the shape map', async () => {
+    const schema = getSchema(`
+      start = @<#Person>
+      <#Person> { ex:name . }
+      <#Movie> { ex:title . }
+    `);
+    const document = await getMockDocument(`
+      <#subject> a ex:Movie.
+      <#subject2> a ex:Movie; ex:title "Some title".
+      <#subject3> a ex:Movie.
+    `);
+    document.getSubject(mockDocument + '#subject3').addString(mockVocab + 'title', 'Some other title');
+
+    const report = schema.validateDocument(document, [
+      { focus: mockSubject2 },
+      { focus: { type: mockVocab + 'Movie' }, shape: '#Movie' },
+    ]);
+
+    expect(report.results.map(result => [result.focusNode, result.shape])).toEqual([
+      [mockSubject2, mockShapes + '#Person'],
+      [mockSubject, mockShapes + '#Movie'],
+    ]);
+  });
+
+  it('should only validate Subjects of the given type once', async () => {
+    const schema = getSchema(`<#Movie> { ex:title . }`);
+    const document = await getMockDocument(`<#subject> a ex:Movie; <${rdfType}> ex:Movie, ex:Film.`);
+
+    const report = schema.validateDocument(document, [{ focus: { type: mockVocab + 'Movie' }, shape: '#Movie' }]);
+
+    expect(report.results).toHaveLength(1);
+  });
+
+  it('should not select Subjects whose type is a Literal', async () => {
+    const schema = getSchema(`<#Movie> { ex:title . }`);
+    const document = await getMockDocument(`<#subject> <${rdfType}> "${mockVocab}Movie".`);
+
+    const report = schema.validateDocument(document, [{ focus: { type: mockVocab + 'Movie' }, shape: '#Movie' }]);
+
+    expect(report.results).toEqual([]);
+  });
+
+  it('should resolve relative references and support local Subjects in the shape map', async () => {
+    const schema = getSchema(`<#Address> { ex:street LITERAL }`);
+    const document = await getMockDocument(`
+      <#subject> a <#Address>; ex:address _:address.
+      _:address ex:city "Springfield".
+    `);
+    const localSubject = document.getSubject(mockSubject).getLocalSubject(mockVocab + 'address')!;
+
+    const report = schema.validateDocument(document, [
+      { focus: '_:' + localSubject.asRef(), shape: '#Address' },
+      { focus: '#subject2', shape: '#Address' },
+      { focus: { type: '#Address' }, shape: '#Address' },
+    ]);
+
+    expect(report.results.map(result => result.focusNode)).toEqual([
+      '_:' + localSubject.asRef(),
+      mockSubject2,
+      mockSubject,
+    ]);
+  });
+  it('should use absolute references as-is for Documents that do not have a reference yet', async () => {
+    const schema = getSchema(`<#Person> { ex:name LITERAL }`);
+    const document = createDocumentInContainer('https://pod.com/container/');
+    const subject = document.addSubject();
+    subject.addRef(rdfType, mockShapes + '#Person');
+
+    const report = schema.validateDocument(document, [{ focus: { type: mockShapes + '#Person' }, shape: '#Person' }]);
+
+    expect(report.results.map(result => result.focusNode)).toEqual([subject.asRef()]);
+  });
+});
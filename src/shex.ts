@@ -0,0 +1,655 @@
+import { Quad, Term } from 'rdf-js';
+import { Reference, LiteralTypes, isLiteral } from '.';
+import { BareTripleDocument, getTriplesAfterSave, hasRef } from './document';
+import { TripleSubject, fromLiteral } from './subject';
+import { DataFactory, initialiseDataset, Dataset } from './n3dataset';
+import { toRef, describeTerm } from './triples';
+
+/**
+ * Associates Subjects with the ShEx shape they should conform to.
+ */
+export interface ShapeMapEntry {
+  /**
+   * The Subject to validate, or `{ type: <class> }` to validate every Subject of that type.
+   * Relative references are relative to the Document; local Subjects are referred to by `_:`
+   * followed by their Blank Node identifier, as in [[ShExValidationResult.focusNode]].
+   */
+  focus: Reference | { type: Reference };
+  /**
+   * The label of the shape the Subject should conform to. Defaults to the schema's `start` shape.
+   */
+  shape?: Reference;
+};
+
+/**
+ * A single way in which a Subject does not conform to a ShEx shape.
+ */
+export interface ShExValidationResult {
+  /**
+   * The Subject that does not conform. Local Subjects are identified by `_:` followed by their
+   * Blank Node identifier.
+   */
+  focusNode: Reference;
+  /**
+   * The label of the shape the Subject does not conform to.
+   */
+  shape: Reference;
+  /**
+   * The predicate of the triple constraint that failed, or `null` if the Subject itself does not
+   * satisfy the shape's node constraint.
+   */
+  predicate: Reference | null;
+  /**
+   * The value that caused the triple constraint to fail, if the failure is caused by a specific
+   * value rather than by the number of values.
+   */
+  value?: Reference | LiteralTypes;
+  message: string;
+};
+
+/**
+ * The outcome of validating data against a [[ShExSchema]].
+ */
+export interface ShExValidationReport {
+  /**
+   * Whether the data conforms to the shapes, i.e. whether [[results]] is empty.
+   */
+  conforms: boolean;
+  results: ShExValidationResult[];
+};
+
+/**
+ * A ShEx schema that data can be validated against.
+ *
+ * Tripledoc supports the following subset of ShExC:
+ *
+ * - `PREFIX`, `BASE` and `start` declarations;
+ * - shapes consisting of triple constraints separated by `;`, optionally `CLOSED` or with `EXTRA`
+ *   predicates;
+ * - value expressions: `.`, `IRI`, `LITERAL`, `BNODE`, `NONLITERAL`, datatypes, value sets
+ *   (`[ ... ]`), references to other shapes (`@<Shape>`) and nested shapes (`{ ... }`);
+ * - cardinalities: `?`, `*`, `+` and `{m}`, `{m,}` and `{m,n}`.
+ *
+ * One-of expressions (`|`), groups, inverse triple constraints, facets, annotations and semantic
+ * actions are not supported.
+ */
+export interface ShExSchema {
+  /**
+   * Validate a Subject, including the changes to its Document that have not been saved yet.
+   *
+   * @param validateSubject.subject The Subject to validate.
+   * @param validateSubject.shape The label of the shape `subject` should conform to; defaults to
+   *                              the schema's `start` shape.
+   * @returns Whether the Subject conforms to the shape, and if not, which triple constraints failed.
+   */
+  validateSubject: (subject: TripleSubject, shape?: Reference) => ShExValidationReport;
+  /**
+   * Validate a Document as it will be after its pending changes have been saved.
+   *
+   * @param validateDocument.document The Document to validate.
+   * @param validateDocument.shapeMap Which Subjects in the Document should conform to which shapes.
+   * @returns Whether the Subjects conform to their shapes, and if not, which triple constraints failed.
+   */
+  validateDocument: (document: BareTripleDocument, shapeMap: ShapeMapEntry[]) => ShExValidationReport;
+};
+
+type NodeKind = 'IRI' | 'LITERAL' | 'BNODE' | 'NONLITERAL';
+type ShapeExpression =
+  { type: 'nodeKind'; nodeKind: NodeKind } |
+  { type: 'datatype'; datatype: Reference } |
+  { type: 'valueSet'; values: Term[] } |
+  { type: 'shapeRef'; label: Reference } |
+  { type: 'shape'; shape: Shape };
+type ValueExpression = ShapeExpression | { type: 'any' };
+interface TripleConstraint {
+  predicate: Reference;
+  valueExpression: ValueExpression;
+  min: number;
+  /**
+   * `Infinity` if there is no maximum number of values.
+   */
+  max: number;
+};
+interface Shape {
+  closed: boolean;
+  extra: Reference[];
+  tripleConstraints: TripleConstraint[];
+};
+
+const rdfType = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const xsd = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * Parse a ShEx schema written in ShExC, to validate data against
+ *
+ * Usage:
+ *
+ *     const schema = parseShExSchema(`
+ *       PREFIX foaf: <http://xmlns.com/foaf/0.1/>
+ *       PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+ *       start = @<#Person>
+ *       <#Person> { foaf:name xsd:string; foaf:knows @<#Person> * }
+ *     `, 'https://pod.example/shapes/person.shex');
+ *     const report = schema.validateSubject(profile.getSubject('#me'));
+ *
+ * @param shexc The schema, written in the ShEx compact syntax (ShExC).
+ * @param baseRef The IRI relative IRIs in the schema are relative to.
+ * @returns The schema, which can validate Subjects and Documents.
+ * @throws An error if `shexc` can not be parsed, e.g. because it uses unsupported features.
+ */
+export function parseShExSchema(shexc: string, baseRef?: Reference): ShExSchema {
+  const { shapes, start, base } = parseShExC(shexc, baseRef);
+
+  const validate = (triples: Quad[], focusNodes: Array<{ node: Term; shape: Reference }>) => {
+    const dataGraph = initialiseDataset();
+    dataGraph.addAll(triples);
+    const results = focusNodes
+      .map(({ node, shape }) => validateNode(node, shape, shapes, dataGraph, []))
+      .reduce((resultsSoFar, nodeResults) => resultsSoFar.concat(nodeResults), []);
+    return {
+      conforms: results.length === 0,
+      results: results,
+    };
+  };
+
+  const getShapeLabel = (shape?: Reference) => {
+    const label = (typeof shape === 'string') ? resolveIri(shape, base) : start;
+    if (typeof label === 'undefined') {
+      throw new Error('No shape was given, and the ShEx schema does not declare a start shape.');
+    }
+    if (typeof shapes[label] === 'undefined') {
+      throw new Error(`The ShEx schema does not declare a shape <${label}>.`);
+    }
+    return label;
+  };
+
+  const validateSubject = (subject: TripleSubject, shape?: Reference) => {
+    const triples = getTriplesAfterSave(subject.getDocument());
+    return validate(triples, [{ node: subject.asNode(), shape: getShapeLabel(shape) }]);
+  };
+
+  const validateDocument = (document: BareTripleDocument, shapeMap: ShapeMapEntry[]) => {
+    const triples = getTriplesAfterSave(document);
+    const documentRef = hasRef(document) ? document.asRef() : undefined;
+    const focusNodes = shapeMap
+      .map(entry => {
+        const shape = getShapeLabel(entry.shape);
+        const nodes: Term[] = (typeof entry.focus === 'string')
+          ? [toNode(entry.focus, documentRef)]
+          : getInstances(resolveIri(entry.focus.type, documentRef), triples);
+        return nodes.map(node => ({ node: node, shape: shape }));
+      })
+      .reduce((focusNodesSoFar, entryFocusNodes) => focusNodesSoFar.concat(entryFocusNodes), []);
+    return validate(triples, focusNodes);
+  };
+
+  return {
+    validateSubject: validateSubject,
+    validateDocument: validateDocument,
+  };
+}
+
+/**
+ * @param ref A [[Reference]], or `_:` followed by the identifier of a Blank Node.
+ * @param baseRef The IRI relative References are relative to.
+ */
+function toNode(ref: Reference, baseRef?: Reference): Term {
+  return (ref.substring(0, '_:'.length) === '_:')
+    ? DataFactory.blankNode(ref.substring('_:'.length))
+    : DataFactory.namedNode(resolveIri(ref, baseRef));
+}
+
+function getInstances(type: Reference, triples: Quad[]): Term[] {
+  const typeNode = DataFactory.namedNode(type);
+  const instances = triples
+    .filter(triple => triple.predicate.value === rdfType && triple.object.equals(typeNode))
+    .map(triple => triple.subject);
+  return instances.filter((instance, index) => instances.findIndex(other => other.equals(instance)) === index);
+}
+
+/**
+ * @param visited Nodes and shapes that are already being validated, to guard against shapes that
+ *                refer to themselves. Such nodes are assumed to conform to the shape.
+ */
+function validateNode(
+  node: Term,
+  label: Reference,
+  shapes: { [label: string]: ShapeExpression },
+  dataGraph: Dataset,
+  visited: Array<[Term, Reference]>,
+): ShExValidationResult[] {
+  const nodesBeingValidated = visited.concat([[node, label]]);
+  const conformsTo = (value: Term, valueExpression: ValueExpression, label: Reference): boolean => {
+    switch (valueExpression.type) {
+      case 'any':
+        return true;
+      case 'shape':
+        return validateShape(value, valueExpression.shape, label).length === 0;
+      case 'shapeRef':
+        return nodesBeingValidated.some(
+          ([otherNode, otherLabel]) => otherNode.equals(value) && otherLabel === valueExpression.label,
+        ) || validateNode(value, valueExpression.label, shapes, dataGraph, nodesBeingValidated).length === 0;
+      default:
+        return satisfiesNodeConstraint(value, valueExpression);
+    }
+  };
+
+  const validateShape = (focusNode: Term, shape: Shape, label: Reference): ShExValidationResult[] => {
+    const createResult = (predicate: Reference | null, message: string, value?: Term): ShExValidationResult => {
+      const result: ShExValidationResult = {
+        focusNode: toRef(focusNode),
+        shape: label,
+        predicate: predicate,
+        message: message,
+      };
+      if (typeof value !== 'undefined') {
+        result.value = isLiteral(value) ? fromLiteral(value) : toRef(value);
+      }
+      return result;
+    };
+
+    const triples = dataGraph.match(focusNode, null, null, null).toArray();
+    const predicates = shape.tripleConstraints
+      .map(tripleConstraint => tripleConstraint.predicate)
+      .filter((predicate, index, allPredicates) => allPredicates.indexOf(predicate) === index);
+
+    const results = predicates.map((predicate) => {
+      const predicateResults: ShExValidationResult[] = [];
+      let unmatchedValues = triples
+        .filter(triple => triple.predicate.value === predicate)
+        .map(triple => triple.object);
+
+      // Every value can only be matched by one triple constraint, so each of them takes the values
+      // that match it from those that were not matched yet:
+      shape.tripleConstraints
+        .filter(tripleConstraint => tripleConstraint.predicate === predicate)
+        .forEach((tripleConstraint) => {
+          const matchingValues = unmatchedValues
+            .filter(value => conformsTo(value, tripleConstraint.valueExpression, label));
+          const matchedValues = matchingValues.slice(0, tripleConstraint.max);
+          unmatchedValues = unmatchedValues.filter(value => matchedValues.indexOf(value) === -1);
+
+          if (matchedValues.length < tripleConstraint.min) {
+            predicateResults.push(createResult(
+              predicate,
+              `${describeTerm(focusNode)} should have at least ${tripleConstraint.min} value(s) for <${predicate}> that are ${describeExpression(tripleConstraint.valueExpression)}, but has ${matchedValues.length}.`,
+            ));
+          }
+          if (matchingValues.length > tripleConstraint.max) {
+            predicateResults.push(createResult(
+              predicate,
+              `${describeTerm(focusNode)} should have at most ${tripleConstraint.max} value(s) for <${predicate}> that are ${describeExpression(tripleConstraint.valueExpression)}, but has ${matchingValues.length}.`,
+            ));
+          }
+        });
+
+      // Values that were not matched by any triple constraint are only allowed if the predicate was
+      // declared as EXTRA:
+      if (shape.extra.indexOf(predicate) === -1) {
+        unmatchedValues
+          .filter(value => !shape.tripleConstraints.some(
+            tripleConstraint => tripleConstraint.predicate === predicate &&
+              conformsTo(value, tripleConstraint.valueExpression, label),
+          ))
+          .forEach(value => predicateResults.push(createResult(
+            predicate,
+            `The value ${describeTerm(value)} of <${predicate}> does not match any triple constraint of the shape <${label}>.`,
+            value,
+          )));
+      }
+      return predicateResults;
+    }).reduce((resultsSoFar, predicateResults) => resultsSoFar.concat(predicateResults), []);
+
+    if (shape.closed) {
+      triples
+        .filter(triple => predicates.indexOf(triple.predicate.value) === -1 && shape.extra.indexOf(triple.predicate.value) === -1)
+        .forEach(triple => results.push(createResult(
+          triple.predicate.value,
+          `${describeTerm(focusNode)} should not have values for <${triple.predicate.value}>, since the shape <${label}> is closed.`,
+          triple.object,
+        )));
+    }
+
+    return results;
+  };
+
+  const shapeExpression = shapes[label];
+  if (shapeExpression.type === 'shape') {
+    return validateShape(node, shapeExpression.shape, label);
+  }
+  if (!conformsTo(node, shapeExpression, label)) {
+    return [{
+      focusNode: toRef(node),
+      shape: label,
+      predicate: null,
+      message: `${describeTerm(node)} should be ${describeExpression(shapeExpression)}.`,
+    }];
+  }
+  return [];
+}
+
+function satisfiesNodeConstraint(
+  value: Term,
+  constraint: Exclude<ShapeExpression, { type: 'shape' | 'shapeRef' }>,
+): boolean {
+  switch (constraint.type) {
+    case 'nodeKind':
+      return (constraint.nodeKind === 'IRI' && value.termType === 'NamedNode') ||
+        (constraint.nodeKind === 'BNODE' && value.termType === 'BlankNode') ||
+        (constraint.nodeKind === 'LITERAL' && value.termType === 'Literal') ||
+        (constraint.nodeKind === 'NONLITERAL' && value.termType !== 'Literal');
+    case 'datatype':
+      return isLiteral(value) && value.datatype.value === constraint.datatype;
+    case 'valueSet':
+      return constraint.values.some(allowedValue => allowedValue.equals(value));
+  }
+}
+
+function describeExpression(valueExpression: ValueExpression): string {
+  switch (valueExpression.type) {
+    case 'any':
+      return 'anything';
+    case 'nodeKind':
+      return {
+        IRI: 'an IRI',
+        BNODE: 'a Blank Node',
+        LITERAL: 'a Literal',
+        NONLITERAL: 'not a Literal',
+      }[valueExpression.nodeKind];
+    case 'datatype':
+      return `a Literal of type <${valueExpression.datatype}>`;
+    case 'valueSet':
+      return `one of ${valueExpression.values.map(describeTerm).join(', ')}`;
+    case 'shapeRef':
+      return `conforming to the shape <${valueExpression.label}>`;
+    case 'shape':
+      return 'conforming to a nested shape';
+  }
+}
+
+function resolveIri(iri: string, baseRef?: Reference): Reference {
+  if (typeof baseRef === 'undefined' || baseRef === '') {
+    return iri;
+  }
+  return new URL(iri, baseRef).href;
+}
+
+interface Token {
+  type: 'iriRef' | 'prefixedName' | 'keyword' | 'string' | 'languageTag' | 'number' | 'punctuation';
+  value: string;
+  line: number;
+};
+
+const tokenPatterns: Array<[Token['type'], RegExp]> = [
+  ['iriRef', /^<([^<>"{}|^`\\\s]*)>/],
+  ['prefixedName', /^([A-Za-z][\w-]*)?:((?:[\w-]|\.(?=[\w-]))*)/],
+  ['keyword', /^[A-Za-z_][\w-]*/],
+  ['string', /^"((?:[^"\\\n]|\\.)*)"|^'((?:[^'\\\n]|\\.)*)'/],
+  ['number', /^[+-]?(?:\d+\.\d+|\d+)/],
+  ['punctuation', /^(?:\^\^|[{}[\]();=.*+?,@|&$^%])/],
+];
+
+function tokenise(shexc: string): Token[] {
+  const tokens: Token[] = [];
+  let remainder = shexc;
+  let line = 1;
+  while (remainder.length > 0) {
+    const whitespace = /^(?:\s|#[^\n]*)+/.exec(remainder);
+    if (whitespace !== null) {
+      line += whitespace[0].split('\n').length - 1;
+      remainder = remainder.substring(whitespace[0].length);
+      continue;
+    }
+    const previousToken = tokens[tokens.length - 1];
+    const languageTag = /^@([A-Za-z]+(?:-[A-Za-z0-9]+)*)/.exec(remainder);
+    if (languageTag !== null && typeof previousToken !== 'undefined' && previousToken.type === 'string') {
+      tokens.push({ type: 'languageTag', value: languageTag[1], line: line });
+      remainder = remainder.substring(languageTag[0].length);
+      continue;
+    }
+    const match = tokenPatterns
+      .map(([type, pattern]) => ({ type: type, match: pattern.exec(remainder) }))
+      .find(candidate => candidate.match !== null);
+    if (typeof match === 'undefined' || match.match === null) {
+      throw new Error(`Could not parse the ShEx schema: unexpected character \`${remainder.charAt(0)}\` on line ${line}.`);
+    }
+    const value = (match.type === 'iriRef')
+      ? match.match[1]
+      : (match.type === 'string') ? unescapeString(match.match[1] || match.match[2] || '') : match.match[0];
+    tokens.push({ type: match.type, value: value, line: line });
+    remainder = remainder.substring(match.match[0].length);
+  }
+  return tokens;
+}
+
+function unescapeString(escaped: string): string {
+  const escapes: { [character: string]: string } = { t: '\t', n: '\n', r: '\r' };
+  return escaped.replace(/\\(.)/g, (_, character: string) => escapes[character] || character);
+}
+
+function parseShExC(shexc: string, baseRef?: Reference) {
+  const tokens = tokenise(shexc);
+  const prefixes: { [prefix: string]: Reference } = {};
+  const shapes: { [label: string]: ShapeExpression } = {};
+  let start: Reference | undefined;
+  let base = baseRef;
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const fail = (expected: string): never => {
+    const token = peek();
+    const found = (typeof token === 'undefined')
+      ? 'the end of the schema'
+      : `\`${token.value}\` on line ${token.line}`;
+    throw new Error(`Could not parse the ShEx schema: expected ${expected}, but found ${found}.`);
+  };
+  const isPunctuation = (value: string) => {
+    const token = peek();
+    return typeof token !== 'undefined' && token.type === 'punctuation' && token.value === value;
+  };
+  const isKeyword = (value: string) => {
+    const token = peek();
+    return typeof token !== 'undefined' && token.type === 'keyword' && token.value.toUpperCase() === value;
+  };
+  const expect = (type: Token['type'], expected: string, value?: string): Token => {
+    const token = peek();
+    if (typeof token === 'undefined' || token.type !== type || (typeof value === 'string' && token.value !== value)) {
+      return fail(expected);
+    }
+    position++;
+    return token;
+  };
+
+  const parseIri = (): Reference => {
+    const token = peek();
+    if (typeof token !== 'undefined' && token.type === 'iriRef') {
+      position++;
+      return resolveIri(token.value, base);
+    }
+    if (typeof token !== 'undefined' && token.type === 'prefixedName') {
+      const [prefix, localName] = token.value.split(/:(.*)/);
+      if (typeof prefixes[prefix] === 'undefined') {
+        throw new Error(`Could not parse the ShEx schema: the prefix \`${prefix}:\` on line ${token.line} was not declared.`);
+      }
+      position++;
+      return prefixes[prefix] + localName;
+    }
+    return fail('an IRI');
+  };
+  const isIri = () => {
+    const token = peek();
+    return typeof token !== 'undefined' && (token.type === 'iriRef' || token.type === 'prefixedName');
+  };
+
+  // Unlike other keywords, `a` is case-sensitive:
+  const isRdfTypeShorthand = () => {
+    const token = peek();
+    return typeof token !== 'undefined' && token.type === 'keyword' && token.value === 'a';
+  };
+  const parsePredicate = (): Reference => {
+    if (isRdfTypeShorthand()) {
+      position++;
+      return rdfType;
+    }
+    return parseIri();
+  };
+
+  const parseLiteral = (): Term => {
+    const token = peek();
+    if (typeof token !== 'undefined' && token.type === 'number') {
+      position++;
+      return DataFactory.literal(token.value, DataFactory.namedNode(xsd + (token.value.indexOf('.') === -1 ? 'integer' : 'decimal')));
+    }
+    if (isKeyword('TRUE') || isKeyword('FALSE')) {
+      return DataFactory.literal(expect('keyword', 'a boolean').value.toLowerCase(), DataFactory.namedNode(xsd + 'boolean'));
+    }
+    const value = expect('string', 'a value').value;
+    const languageTagToken = peek();
+    if (typeof languageTagToken !== 'undefined' && languageTagToken.type === 'languageTag') {
+      position++;
+      return DataFactory.literal(value, languageTagToken.value.toLowerCase());
+    }
+    if (isPunctuation('^^')) {
+      position++;
+      return DataFactory.literal(value, DataFactory.namedNode(parseIri()));
+    }
+    return DataFactory.literal(value);
+  };
+
+  const parseShapeExpression = (): ShapeExpression => {
+    if (isPunctuation('@')) {
+      position++;
+      return { type: 'shapeRef', label: parseIri() };
+    }
+    const nodeKind = ['IRI', 'LITERAL', 'BNODE', 'NONLITERAL'].find(isKeyword) as NodeKind | undefined;
+    if (typeof nodeKind !== 'undefined') {
+      position++;
+      return { type: 'nodeKind', nodeKind: nodeKind };
+    }
+    if (isIri()) {
+      return { type: 'datatype', datatype: parseIri() };
+    }
+    if (isPunctuation('[')) {
+      position++;
+      const values: Term[] = [];
+      while (!isPunctuation(']')) {
+        values.push(isIri() ? DataFactory.namedNode(parseIri()) : parseLiteral());
+      }
+      position++;
+      return { type: 'valueSet', values: values };
+    }
+    return { type: 'shape', shape: parseShape() };
+  };
+
+  const parseShape = (): Shape => {
+    const shape: Shape = { closed: false, extra: [], tripleConstraints: [] };
+    while (isKeyword('CLOSED') || isKeyword('EXTRA')) {
+      if (isKeyword('CLOSED')) {
+        position++;
+        shape.closed = true;
+        continue;
+      }
+      position++;
+      do {
+        shape.extra.push(parsePredicate());
+      } while (isIri() || isRdfTypeShorthand());
+    }
+    expect('punctuation', 'a shape', '{');
+    while (!isPunctuation('}')) {
+      shape.tripleConstraints.push(parseTripleConstraint());
+      if (!isPunctuation(';')) {
+        break;
+      }
+      position++;
+    }
+    expect('punctuation', '`;` or `}`', '}');
+    return shape;
+  };
+
+  const parseTripleConstraint = (): TripleConstraint => {
+    const predicate = parsePredicate();
+    let valueExpression: ValueExpression;
+    if (isPunctuation('.')) {
+      position++;
+      valueExpression = { type: 'any' };
+    } else {
+      valueExpression = parseShapeExpression();
+    }
+    const [min, max] = parseCardinality();
+    return { predicate: predicate, valueExpression: valueExpression, min: min, max: max };
+  };
+
+  const parseCardinality = (): [number, number] => {
+    const shorthands: { [shorthand: string]: [number, number] } = {
+      '?': [0, 1],
+      '*': [0, Infinity],
+      '+': [1, Infinity],
+    };
+    const token = peek();
+    if (typeof token !== 'undefined' && token.type === 'punctuation' && typeof shorthands[token.value] !== 'undefined') {
+      position++;
+      return shorthands[token.value];
+    }
+    const nextToken = tokens[position + 1];
+    if (!isPunctuation('{') || typeof nextToken === 'undefined' || nextToken.type !== 'number') {
+      return [1, 1];
+    }
+    position++;
+    const min = parseInt(expect('number', 'a number').value, 10);
+    let max = min;
+    if (isPunctuation(',')) {
+      position++;
+      if (isPunctuation('*') || isPunctuation('}')) {
+        max = Infinity;
+        if (isPunctuation('*')) {
+          position++;
+        }
+      } else {
+        max = parseInt(expect('number', 'a number or `*`').value, 10);
+      }
+    }
+    expect('punctuation', '`}`', '}');
+    return [min, max];
+  };
+
+  while (position < tokens.length) {
+    if (isKeyword('PREFIX')) {
+      position++;
+      const prefix = expect('prefixedName', 'a prefix').value;
+      prefixes[prefix.substring(0, prefix.length - 1)] = parseIri();
+    } else if (isKeyword('BASE')) {
+      position++;
+      base = parseIri();
+    } else if (isKeyword('START')) {
+      position++;
+      expect('punctuation', '`=`', '=');
+      expect('punctuation', '`@`', '@');
+      start = parseIri();
+    } else {
+      const label = parseIri();
+      shapes[label] = parseShapeExpression();
+    }
+  }
+
+  const referencedLabels = Object.keys(shapes)
+    .map(label => getReferencedLabels(shapes[label]))
+    .reduce((labelsSoFar, labels) => labelsSoFar.concat(labels), (typeof start === 'string') ? [start] : []);
+  const undeclaredLabel = referencedLabels.find(label => typeof shapes[label] === 'undefined');
+  if (typeof undeclaredLabel !== 'undefined') {
+    throw new Error(`Could not parse the ShEx schema: the shape <${undeclaredLabel}> is referred to, but not declared.`);
+  }
+
+  return { shapes, start, base };
+}
+
+function getReferencedLabels(valueExpression: ValueExpression): Reference[] {
+  if (valueExpression.type === 'shapeRef') {
+    return [valueExpression.label];
+  }
+  if (valueExpression.type === 'shape') {
+    return valueExpression.shape.tripleConstraints
+      .map(tripleConstraint => getReferencedLabels(tripleConstraint.valueExpression))
+      .reduce((labelsSoFar, labels) => labelsSoFar.concat(labels), []);
+  }
+  return [];
+}
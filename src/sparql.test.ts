@@ -0,0 +1,197 @@
+import { DataFactory } from './n3dataset';
+import { createSparqlUpdate } from './sparql';
+
+const { namedNode, literal, triple, blankNode } = DataFactory;
+
+const mockSubject = namedNode('https://document.com/#subject');
+const mockPredicate = namedNode('https://mock-predicate.com/');
+const mockPredicate2 = namedNode('https://mock-predicate-2.com/');
+const mockObject = namedNode('https://mock-object.com/');
+const mockBlankNode = blankNode('arbitrary-blank-node');
+const mockBlankNode2 = blankNode('another-blank-node');
+
+function normalise(sparqlUpdate: string) {
+  return sparqlUpdate.replace(/\s+/g, ' ').trim();
+}
+
+describe('createSparqlUpdate', () => {
+  it('should delete and insert data that does not involve Blank Nodes', async () => {
+    const sparqlUpdate = await createSparqlUpdate(
+      [triple(mockSubject, mockPredicate, literal('Old value'))],
+      [triple(mockSubject, mockPredicate, literal('New value'))],
+    );
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'DELETE DATA {<https://document.com/#subject> <https://mock-predicate.com/> "Old value". }; ' +
+      'INSERT DATA {<https://document.com/#subject> <https://mock-predicate.com/> "New value". };',
+    );
+  });
+
+  it('should leave out statements without Triples', async () => {
+    const sparqlUpdate = await createSparqlUpdate(
+      [],
+      [triple(mockSubject, mockPredicate, mockObject)],
+    );
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'INSERT DATA {<https://document.com/#subject> <https://mock-predicate.com/> <https://mock-object.com/>. };',
+    );
+
+    const deletingSparqlUpdate = await createSparqlUpdate(
+      [triple(mockSubject, mockPredicate, mockObject)],
+      [],
+    );
+
+    expect(normalise(deletingSparqlUpdate)).toBe(
+      'DELETE DATA {<https://document.com/#subject> <https://mock-predicate.com/> <https://mock-object.com/>. };',
+    );
+  });
+
+  it('should insert new Blank Nodes as data', async () => {
+    const newBlankNode = blankNode('new-blank-node');
+    const sparqlUpdate = await createSparqlUpdate(
+      [],
+      [triple(mockSubject, mockPredicate, newBlankNode), triple(newBlankNode, mockPredicate, mockObject)],
+      [triple(mockSubject, mockPredicate, mockObject)],
+    );
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'INSERT DATA {<https://document.com/#subject> <https://mock-predicate.com/> _:new-blank-node. ' +
+      '_:new-blank-node <https://mock-predicate.com/> <https://mock-object.com/>. };',
+    );
+  });
+
+  it('should match deleted Blank Nodes by every stored Triple describing them', async () => {
+    const storedTriples = [
+      triple(mockSubject, mockPredicate, mockBlankNode),
+      triple(mockBlankNode, mockPredicate, mockBlankNode2),
+      triple(mockBlankNode2, mockPredicate2, literal('Some value')),
+    ];
+
+    const sparqlUpdate = await createSparqlUpdate([storedTriples[2]], [], storedTriples);
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'DELETE {?blankNode1 <https://mock-predicate-2.com/> "Some value". } ' +
+      'WHERE {?blankNode0 <https://mock-predicate.com/> ?blankNode1. ' +
+      '?blankNode1 <https://mock-predicate-2.com/> "Some value". ' +
+      '<https://document.com/#subject> <https://mock-predicate.com/> ?blankNode0. };',
+    );
+  });
+
+  it('should apply changes that do not involve stored Blank Nodes as data', async () => {
+    const storedTriples = [triple(mockSubject, mockPredicate, mockBlankNode)];
+
+    const sparqlUpdate = await createSparqlUpdate(
+      [triple(mockSubject, mockPredicate2, literal('Old value'))],
+      [triple(mockBlankNode, mockPredicate2, literal('New value'))],
+      storedTriples,
+    );
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'DELETE DATA {<https://document.com/#subject> <https://mock-predicate-2.com/> "Old value". }; ' +
+      'INSERT {?blankNode0 <https://mock-predicate-2.com/> "New value". } ' +
+      'WHERE {<https://document.com/#subject> <https://mock-predicate.com/> ?blankNode0. };',
+    );
+  });
+
+  it('should leave out the DELETE clause if nothing is deleted', async () => {
+    const storedTriples = [triple(mockSubject, mockPredicate, mockBlankNode)];
+
+    const sparqlUpdate = await createSparqlUpdate(
+      [],
+      [triple(mockBlankNode, mockPredicate2, literal('New value'))],
+      storedTriples,
+    );
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'INSERT {?blankNode0 <https://mock-predicate-2.com/> "New value". } ' +
+      'WHERE {<https://document.com/#subject> <https://mock-predicate.com/> ?blankNode0. };',
+    );
+  });
+
+  it('should add new Blank Nodes attached to stored Blank Nodes in the same operation', async () => {
+    const newBlankNode = blankNode('new-blank-node');
+    const storedTriples = [triple(mockSubject, mockPredicate, mockBlankNode)];
+
+    const sparqlUpdate = await createSparqlUpdate(
+      [],
+      [
+        triple(mockSubject, mockPredicate2, mockObject),
+        triple(mockBlankNode, mockPredicate, newBlankNode),
+        triple(newBlankNode, mockPredicate2, literal('New value')),
+      ],
+      storedTriples,
+    );
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'INSERT DATA {<https://document.com/#subject> <https://mock-predicate-2.com/> <https://mock-object.com/>. }; ' +
+      'INSERT {?blankNode0 <https://mock-predicate.com/> _:new-blank-node. ' +
+      '_:new-blank-node <https://mock-predicate-2.com/> "New value". } ' +
+      'WHERE {<https://document.com/#subject> <https://mock-predicate.com/> ?blankNode0. };',
+    );
+  });
+
+  it('should match Blank Nodes that nothing refers to by their description', async () => {
+    const storedTriples = [
+      triple(mockBlankNode, mockPredicate, mockObject),
+      triple(mockBlankNode, mockPredicate2, literal('Some value')),
+    ];
+
+    const sparqlUpdate = await createSparqlUpdate([storedTriples[0]], [], storedTriples);
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'DELETE {?blankNode0 <https://mock-predicate.com/> <https://mock-object.com/>. } ' +
+      'WHERE {?blankNode0 <https://mock-predicate.com/> <https://mock-object.com/>; ' +
+      '<https://mock-predicate-2.com/> "Some value". };',
+    );
+  });
+
+  it('should tell apart Blank Nodes under the same predicate by their description', async () => {
+    const storedTriples = [
+      triple(mockSubject, mockPredicate, mockBlankNode),
+      triple(mockSubject, mockPredicate, mockBlankNode2),
+      triple(mockBlankNode, mockPredicate2, literal('First value')),
+      triple(mockBlankNode2, mockPredicate2, literal('Second value')),
+    ];
+
+    const sparqlUpdate = await createSparqlUpdate([storedTriples[3]], [], storedTriples);
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'DELETE {?blankNode0 <https://mock-predicate-2.com/> "Second value". } ' +
+      'WHERE {<https://document.com/#subject> <https://mock-predicate.com/> ?blankNode0. ' +
+      '?blankNode0 <https://mock-predicate-2.com/> "Second value". };',
+    );
+  });
+
+  it('should error when Blank Nodes can not be told apart from other Blank Nodes', async () => {
+    const storedTriples = [
+      triple(mockSubject, mockPredicate, mockBlankNode),
+      triple(mockSubject, mockPredicate, mockBlankNode2),
+      triple(mockBlankNode, mockPredicate2, literal('Same value')),
+      triple(mockBlankNode2, mockPredicate2, literal('Same value')),
+    ];
+
+    await expect(createSparqlUpdate([], [triple(mockBlankNode, mockPredicate2, literal('New value'))], storedTriples))
+      .rejects.toThrowError(
+        'The changes to local Subjects could not be saved, since they can not be told apart from other local ' +
+        'Subjects in the Document.',
+      );
+  });
+
+  it('should not get stuck on Blank Nodes that refer to each other', async () => {
+    const storedTriples = [
+      triple(mockBlankNode, mockPredicate, mockBlankNode2),
+      triple(mockBlankNode2, mockPredicate, mockBlankNode),
+      triple(mockBlankNode, mockPredicate2, literal('Some value')),
+    ];
+
+    const sparqlUpdate = await createSparqlUpdate([storedTriples[0]], [], storedTriples);
+
+    expect(normalise(sparqlUpdate)).toBe(
+      'DELETE {?blankNode0 <https://mock-predicate.com/> ?blankNode1. } ' +
+      'WHERE {?blankNode0 <https://mock-predicate.com/> ?blankNode1. ' +
+      '?blankNode1 <https://mock-predicate.com/> ?blankNode0. ' +
+      '?blankNode0 <https://mock-predicate-2.com/> "Some value". };',
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { DataFactory } from 'n3';
+import { Quad, Term, BlankNode } from 'rdf-js';
+import { triplesToTurtle } from './turtle';
+import { contains, unique } from './triples';
+
+/**
+ * Generate a SPARQL Update that applies the given changes to a Document
+ *
+ * SPARQL Update does not allow Blank Nodes in `DELETE DATA`, and Blank Nodes in `INSERT DATA`
+ * always refer to new nodes. Thus, changes that involve Blank Nodes that are already stored in the
+ * Document are applied in a separate `DELETE { } INSERT { } WHERE { }` operation, in which those
+ * nodes are replaced by variables. Its `WHERE` clause identifies the nodes by every stored Triple
+ * describing them, so that it matches exactly one set of nodes on the Pod. All other changes are
+ * sent as `DELETE DATA` and `INSERT DATA` operations.
+ *
+ * @param triplesToDelete Triples currently present on the Pod that should be deleted.
+ * @param triplesToAdd Triples not currently present on the Pod that should be added.
+ * @param storedTriples The Triples currently in the Document, used to identify its Blank Nodes.
+ * @returns The body of a PATCH request that applies the given changes. If the stored Blank Nodes
+ *          involved can not be told apart from other Blank Nodes in the Document, this throws an
+ *          error instead.
+ * @internal Utility method for internal use by Tripledoc; not part of the public API.
+ */
+export async function createSparqlUpdate(
+  triplesToDelete: Quad[],
+  triplesToAdd: Quad[],
+  storedTriples: Quad[] = [],
+): Promise<string> {
+  const storedBlankNodes = unique(getBlankNodes(storedTriples));
+  const involvesStoredBlankNode = (triple: Quad) => getBlankNodes([triple])
+    .some(node => contains(storedBlankNodes, node));
+
+  const matchedDeletions = triplesToDelete.filter(involvesStoredBlankNode);
+  // New Blank Nodes attached to stored ones have to be added in the same operation, since Blank
+  // Nodes in different operations never refer to the same node:
+  const matchedAdditions = getConnectedTriples(triplesToAdd.filter(involvesStoredBlankNode), triplesToAdd);
+  const dataDeletions = triplesToDelete.filter(triple => !contains(matchedDeletions, triple));
+  const dataAdditions = triplesToAdd.filter(triple => !contains(matchedAdditions, triple));
+
+  const deleteDataOperation = (dataDeletions.length > 0)
+    ? `DELETE DATA {${await triplesToTurtle(dataDeletions)}};`
+    : '';
+  const insertDataOperation = (dataAdditions.length > 0)
+    ? `INSERT DATA {${await triplesToTurtle(dataAdditions)}};`
+    : '';
+  const matchingOperation = await createMatchingOperation(matchedDeletions, matchedAdditions, storedTriples);
+  return [deleteDataOperation, insertDataOperation, matchingOperation]
+    .filter(operation => operation.length > 0)
+    .join(' ');
+}
+
+async function createMatchingOperation(
+  triplesToDelete: Quad[],
+  triplesToAdd: Quad[],
+  storedTriples: Quad[],
+): Promise<string> {
+  const storedBlankNodes = getBlankNodes(storedTriples);
+  const matchedBlankNodes = unique(getBlankNodes(triplesToDelete.concat(triplesToAdd)))
+    .filter(node => contains(storedBlankNodes, node));
+  if (matchedBlankNodes.length === 0) {
+    return '';
+  }
+
+  // Every stored Triple involving the matched nodes, and the other Blank Nodes they refer to or are
+  // referred to by, is needed to tell them apart from other Blank Nodes:
+  const description = getConnectedTriples(
+    storedTriples.filter(triple => getBlankNodes([triple]).some(node => contains(matchedBlankNodes, node))),
+    storedTriples,
+  );
+  if (countMatches(description, storedTriples, [], 2) !== 1) {
+    throw new Error(
+      'The changes to local Subjects could not be saved, since they can not be told apart from other ' +
+      'local Subjects in the Document.',
+    );
+  }
+
+  const variableNodes = unique(getBlankNodes(description));
+  const toVariable = <T extends Term>(term: T) => {
+    const index = variableNodes.findIndex(node => node.equals(term));
+    return (index === -1) ? term : DataFactory.variable('blankNode' + index);
+  };
+  const toPattern = (triple: Quad) => DataFactory.triple(
+    toVariable(triple.subject),
+    triple.predicate,
+    toVariable(triple.object),
+  );
+
+  const rawTriplesToDelete = await triplesToTurtle(triplesToDelete.map(toPattern));
+  const rawTriplesToAdd = await triplesToTurtle(triplesToAdd.map(toPattern));
+  const rawWhereTriples = await triplesToTurtle(description.map(toPattern));
+  const deleteClause = (triplesToDelete.length > 0)
+    ? `DELETE {${rawTriplesToDelete}}`
+    : '';
+  const insertClause = (triplesToAdd.length > 0)
+    ? `INSERT {${rawTriplesToAdd}}`
+    : '';
+  return `${deleteClause} ${insertClause} WHERE {${rawWhereTriples}};`;
+}
+
+function getBlankNodes(triples: Quad[]): BlankNode[] {
+  return triples
+    .map(triple => [triple.subject, triple.object])
+    .reduce((termsSoFar, terms) => termsSoFar.concat(terms), [])
+    .filter((term): term is BlankNode => term.termType === 'BlankNode');
+}
+
+/**
+ * @param triples Triples to start from.
+ * @param candidates Triples that might share Blank Nodes with `triples`.
+ * @returns `triples`, plus every Triple in `candidates` that is connected to them through Blank Nodes.
+ */
+function getConnectedTriples(triples: Quad[], candidates: Quad[]): Quad[] {
+  const blankNodes = getBlankNodes(triples);
+  const connectedTriples = candidates.filter(candidate =>
+    !contains(triples, candidate) && getBlankNodes([candidate]).some(node => contains(blankNodes, node))
+  );
+  return (connectedTriples.length === 0)
+    ? triples
+    : getConnectedTriples(triples.concat(connectedTriples), candidates);
+}
+
+/**
+ * Count the ways in which `patterns` match `triples`, the way the `WHERE` clause would on the Pod.
+ *
+ * @param patterns Triples in which Blank Nodes act as variables.
+ * @param triples The Triples to match against.
+ * @param bindings The values already assigned to variables in preceding patterns.
+ * @param limit The number of matches after which to stop counting.
+ * @returns The number of matches found, up to `limit`.
+ */
+function countMatches(patterns: Quad[], triples: Quad[], bindings: Array<[BlankNode, Term]>, limit: number): number {
+  if (patterns.length === 0) {
+    return 1;
+  }
+  let matches = 0;
+  for (const triple of triples) {
+    const extendedBindings = bind(patterns[0], triple, bindings);
+    if (extendedBindings !== null) {
+      matches += countMatches(patterns.slice(1), triples, extendedBindings, limit - matches);
+    }
+    if (matches >= limit) {
+      break;
+    }
+  }
+  return matches;
+}
+
+/**
+ * @returns `bindings`, extended with the values `pattern`'s variables have if it matches `triple`,
+ *          or `null` if it does not match.
+ */
+function bind(pattern: Quad, triple: Quad, bindings: Array<[BlankNode, Term]>): Array<[BlankNode, Term]> | null {
+  if (!pattern.predicate.equals(triple.predicate)) {
+    return null;
+  }
+  return [[pattern.subject, triple.subject], [pattern.object, triple.object]]
+    .reduce<Array<[BlankNode, Term]> | null>((bindingsSoFar, [patternTerm, term]) => {
+      if (bindingsSoFar === null) {
+        return null;
+      }
+      if (patternTerm.termType !== 'BlankNode') {
+        return patternTerm.equals(term) ? bindingsSoFar : null;
+      }
+      const binding = bindingsSoFar.find(([variable]) => variable.equals(patternTerm));
+      if (typeof binding === 'undefined') {
+        return bindingsSoFar.concat([[patternTerm, term]]);
+      }
+      return binding[1].equals(term) ? bindingsSoFar : null;
+    }, bindings);
+}
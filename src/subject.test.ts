@@ -4,8 +4,9 @@ import { DataFactory } from './n3dataset';
 import {
   initialiseSubject, TripleSubject
 } from './subject';
-import { fetchDocument } from './document';
-import { triplesToTurtle } from './turtle';
+import { fetchDocument, instantiateDocument, createDocument } from './document';
+import { triplesToTurtle, turtleToTriples } from './turtle';
+import { registerDatatype } from './datatypes';
 
 const { triple, namedNode, literal, blankNode } = DataFactory;
 
@@ -508,6 +509,53 @@ describe('getAllLocalSubjects', () => {
   });
 });
 
+describe('addLocalSubject', () => {
+  it('should refer to a new local Subject', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockEmptySubject);
+
+    const localSubject = subject.addLocalSubject(mockPredicate);
+    localSubject.addRef(mockPredicate2, mockObjectRef);
+
+    const [parentAddition] = subject.getPendingTriples()[1];
+    const [localAddition] = localSubject.getPendingTriples()[1];
+    expect(parentAddition.subject.value).toBe(mockEmptySubject);
+    expect(parentAddition.object.termType).toBe('BlankNode');
+    expect(localAddition.subject).toEqual(parentAddition.object);
+    expect(localAddition.object.value).toBe(mockObjectRef);
+  });
+
+  it('should create a different local Subject every time', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockEmptySubject);
+
+    const localSubject1 = subject.addLocalSubject(mockPredicate);
+    const localSubject2 = subject.addLocalSubject(mockPredicate);
+
+    expect(localSubject1.asRef()).not.toBe(localSubject2.asRef());
+    expect(subject.getPendingTriples()[1].length).toBe(2);
+  });
+
+  it('should make the new local Subject available to getters when reading pending changes', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockEmptySubject, { readPendingChanges: true });
+
+    const localSubject = subject.addLocalSubject(mockPredicate);
+
+    expect(subject.getLocalSubject(mockPredicate)!.asRef()).toBe(localSubject.asRef());
+  });
+
+  it('should let the Document provide the local Subject, if possible', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const mockLocalSubject = initialiseSubject(mockTripleDocument, blankNode());
+    const getLocalSubject = jest.fn(() => mockLocalSubject);
+    const subject = initialiseSubject(mockTripleDocument, mockEmptySubject, { getLocalSubject: getLocalSubject });
+
+    expect(subject.addLocalSubject(mockPredicate)).toBe(mockLocalSubject);
+    expect(getLocalSubject.mock.calls.length).toBe(1);
+  });
+});
+
 describe('getRef', () => {
   it('should return a found Reference', async () => {
     const mockTripleDocument = await getMockTripleDocument();
@@ -1212,3 +1260,955 @@ describe('clear', () => {
     ]);
   });
 });
+
+describe('additional XSD datatypes', () => {
+  const mockTypedValuesSubject = mockDocument + '#typed-values';
+  const xsd = 'http://www.w3.org/2001/XMLSchema#';
+
+  async function getMockTypedValuesSubject(objectsTurtle: string) {
+    const triples = await turtleToTriples(
+      `@prefix xsd: <${xsd}>. <${mockTypedValuesSubject}> <${mockPredicate}> ${objectsTurtle}.`,
+      mockDocument,
+    );
+    const mockTripleDocument = instantiateDocument(
+      triples,
+      { documentRef: mockDocument, existsOnPod: true, readPendingChanges: true },
+    );
+    return mockTripleDocument.getSubject(mockTypedValuesSubject);
+  }
+  function getPendingObjects(subject: TripleSubject) {
+    const [deletions, additions] = subject.getPendingTriples();
+    return {
+      deleted: deletions.map(triple => triple.object),
+      added: additions.map(triple => triple.object),
+    };
+  }
+
+  describe('booleans', () => {
+    it('should read both ways of writing booleans', async () => {
+      const subject = await getMockTypedValuesSubject(`"true"^^xsd:boolean, "0"^^xsd:boolean, "Not a boolean"`);
+      expect(subject.getBoolean(mockPredicate)).toBe(true);
+      expect(subject.getAllBooleans(mockPredicate)).toEqual([true, false]);
+      expect(subject.getBoolean(mockPredicate2)).toBeNull();
+    });
+
+    it('should write booleans as `true` or `false`', async () => {
+      const subject = await getMockTypedValuesSubject(`"Some value"`);
+      subject.setBoolean(mockPredicate, false);
+      expect(getPendingObjects(subject).added).toEqual([literal('false', namedNode(xsd + 'boolean'))]);
+      expect(subject.getAllBooleans(mockPredicate)).toEqual([false]);
+      expect(() => subject.addBoolean(mockPredicate, 'true' as any)).toThrowError('The given value is not a boolean.');
+    });
+
+    it('should also remove values that are written differently', async () => {
+      const subject = await getMockTypedValuesSubject(`"1"^^xsd:boolean, "false"^^xsd:boolean`);
+      subject.removeBoolean(mockPredicate, true);
+      expect(getPendingObjects(subject).deleted).toEqual([literal('1', namedNode(xsd + 'boolean'))]);
+      expect(subject.getAllBooleans(mockPredicate)).toEqual([false]);
+    });
+
+    it('should be included when reading Literals of any type', async () => {
+      const subject = await getMockTypedValuesSubject(`"true"^^xsd:boolean`);
+      expect(subject.getLiteral(mockPredicate)).toBe(true);
+      subject.addLiteral(mockPredicate2, false);
+      expect(subject.getBoolean(mockPredicate2)).toBe(false);
+    });
+  });
+
+  describe('dates', () => {
+    it('should read dates as midnight UTC, regardless of their timezone', async () => {
+      const subject = await getMockTypedValuesSubject(`"2020-02-29"^^xsd:date, "0099-12-31+02:00"^^xsd:date`);
+      const [date, dateWithTimezone] = subject.getAllDates(mockPredicate);
+      expect(date.toISOString()).toBe('2020-02-29T00:00:00.000Z');
+      expect(dateWithTimezone.getUTCFullYear()).toBe(99);
+      expect(dateWithTimezone.getUTCMonth()).toBe(11);
+      expect(dateWithTimezone.getUTCDate()).toBe(31);
+      expect(subject.getDate(mockPredicate)).toEqual(date);
+      expect(subject.getLiteral(mockPredicate)).toEqual(date);
+    });
+
+    it('should read invalid dates as an invalid Date', async () => {
+      const subject = await getMockTypedValuesSubject(`"Not a date"^^xsd:date`);
+      expect(Number.isNaN(subject.getDate(mockPredicate)!.getTime())).toBe(true);
+    });
+
+    it('should write dates without a time', async () => {
+      const subject = await getMockTypedValuesSubject(`"Some value"`);
+      const date = new Date(0);
+      date.setUTCFullYear(-44, 2, 15);
+      subject.addDate(mockPredicate, date);
+      subject.setDate(mockPredicate2, new Date(Date.UTC(2020, 1, 29, 13, 37)));
+      expect(getPendingObjects(subject).added).toEqual([
+        literal('-0044-03-15', namedNode(xsd + 'date')),
+        literal('2020-02-29', namedNode(xsd + 'date')),
+      ]);
+      expect(() => subject.addDate(mockPredicate, new Date(NaN))).toThrowError('The given value is not a Date.');
+      expect(() => subject.addDate(mockPredicate, '2020-02-29' as any)).toThrowError('The given value is not a Date.');
+    });
+
+    it('should also remove values with a timezone, but not invalid values', async () => {
+      const subject = await getMockTypedValuesSubject(`"2020-02-29Z"^^xsd:date, "Not a date"^^xsd:date`);
+      subject.removeDate(mockPredicate, new Date(Date.UTC(2020, 1, 29)));
+      expect(getPendingObjects(subject).deleted).toEqual([literal('2020-02-29Z', namedNode(xsd + 'date'))]);
+    });
+  });
+
+  describe('times', () => {
+    it('should read and write times as written', async () => {
+      const subject = await getMockTypedValuesSubject(`"13:37:00.5+01:00"^^xsd:time`);
+      expect(subject.getTime(mockPredicate)).toBe('13:37:00.5+01:00');
+      subject.setTime(mockPredicate, '09:00:00');
+      expect(subject.getAllTimes(mockPredicate)).toEqual(['09:00:00']);
+      subject.removeTime(mockPredicate, '09:00:00');
+      expect(subject.getTime(mockPredicate)).toBeNull();
+      expect(() => subject.addTime(mockPredicate, 'noon')).toThrowError('The given value is not a time.');
+    });
+  });
+
+  describe('durations', () => {
+    it('should read and write durations as written', async () => {
+      const subject = await getMockTypedValuesSubject(`"P1Y2M"^^xsd:duration`);
+      expect(subject.getDuration(mockPredicate)).toBe('P1Y2M');
+      subject.setDuration(mockPredicate, '-PT1.5S');
+      expect(subject.getAllDurations(mockPredicate)).toEqual(['-PT1.5S']);
+      subject.removeDuration(mockPredicate, '-PT1.5S');
+      expect(subject.getDuration(mockPredicate)).toBeNull();
+      expect(() => subject.addDuration(mockPredicate, 'P')).toThrowError('The given value is not a duration.');
+      expect(() => subject.addDuration(mockPredicate, 'P1YT')).toThrowError('The given value is not a duration.');
+    });
+  });
+
+  describe('doubles and floats', () => {
+    it('should read all ways of writing doubles and floats', async () => {
+      const subject = await getMockTypedValuesSubject(
+        `"4.2E1"^^xsd:double, "INF"^^xsd:double, "-INF"^^xsd:double, "NaN"^^xsd:double, "0.5"^^xsd:float`,
+      );
+      expect(subject.getDouble(mockPredicate)).toBe(42);
+      expect(subject.getAllDoubles(mockPredicate)).toEqual([42, Infinity, -Infinity, NaN]);
+      expect(subject.getFloat(mockPredicate)).toBe(0.5);
+      expect(subject.getAllFloats(mockPredicate)).toEqual([0.5]);
+      expect(subject.getAllLiterals(mockPredicate)).toEqual([42, Infinity, -Infinity, NaN, 0.5]);
+    });
+
+    it('should write infinite values the way XML Schema does', async () => {
+      const subject = await getMockTypedValuesSubject(`"Some value"`);
+      subject.addDouble(mockPredicate, Infinity);
+      subject.addFloat(mockPredicate, -Infinity);
+      subject.setDouble(mockPredicate2, 4.2);
+      subject.setFloat(mockPredicate2, 4.2);
+      expect(getPendingObjects(subject).added).toEqual([
+        literal('INF', namedNode(xsd + 'double')),
+        literal('-INF', namedNode(xsd + 'float')),
+        literal('4.2', namedNode(xsd + 'float')),
+      ]);
+      expect(() => subject.addDouble(mockPredicate, '4.2' as any)).toThrowError('The given value is not a double.');
+      expect(() => subject.addFloat(mockPredicate, '4.2' as any)).toThrowError('The given value is not a float.');
+    });
+
+    it('should also remove values that are written differently', async () => {
+      const subject = await getMockTypedValuesSubject(`"4.2E1"^^xsd:double, "4.20"^^xsd:float`);
+      subject.removeDouble(mockPredicate, 42);
+      subject.removeFloat(mockPredicate, 4.2);
+      expect(subject.getAllLiterals(mockPredicate)).toEqual([]);
+    });
+  });
+
+  describe('longs', () => {
+    it('should read and write longs', async () => {
+      const subject = await getMockTypedValuesSubject(`"9007199254740991"^^xsd:long`);
+      expect(subject.getLong(mockPredicate)).toBe(Number.MAX_SAFE_INTEGER);
+      expect(subject.getLiteral(mockPredicate)).toBe(Number.MAX_SAFE_INTEGER);
+      subject.setLong(mockPredicate, -42);
+      expect(subject.getAllLongs(mockPredicate)).toEqual([-42]);
+      subject.removeLong(mockPredicate, -42);
+      expect(subject.getLong(mockPredicate)).toBeNull();
+      expect(() => subject.addLong(mockPredicate, 4.2)).toThrowError('The given value is not a long.');
+      expect(() => subject.addLong(mockPredicate, Math.pow(2, 53))).toThrowError('The given value is not a long.');
+    });
+
+    it('should not read longs that can not be represented exactly as a number', async () => {
+      const subject = await getMockTypedValuesSubject(
+        `"9223372036854775807"^^xsd:long, "-9007199254740992"^^xsd:long, "42"^^xsd:long`,
+      );
+      expect(subject.getLong(mockPredicate)).toBe(42);
+      expect(subject.getAllLongs(mockPredicate)).toEqual([42]);
+      expect(subject.getAllLiterals(mockPredicate)).toEqual(['9223372036854775807', '-9007199254740992', 42]);
+      expect(subject.getTypedLiteral(mockPredicate, xsd + 'long')).toBe('9223372036854775807');
+    });
+  });
+
+  describe('years', () => {
+    it('should read years, regardless of their timezone', async () => {
+      const subject = await getMockTypedValuesSubject(`"2020"^^xsd:gYear, "-0044Z"^^xsd:gYear`);
+      expect(subject.getYear(mockPredicate)).toBe(2020);
+      expect(subject.getAllYears(mockPredicate)).toEqual([2020, -44]);
+      expect(subject.getAllLiterals(mockPredicate)).toEqual([2020, -44]);
+    });
+
+    it('should write years with at least four digits', async () => {
+      const subject = await getMockTypedValuesSubject(`"2020"^^xsd:gYear`);
+      subject.addYear(mockPredicate, -44);
+      subject.setYear(mockPredicate2, 12345);
+      expect(getPendingObjects(subject).added).toEqual([
+        literal('-0044', namedNode(xsd + 'gYear')),
+        literal('12345', namedNode(xsd + 'gYear')),
+      ]);
+      subject.removeYear(mockPredicate, 2020);
+      expect(subject.getAllYears(mockPredicate)).toEqual([-44]);
+      expect(() => subject.addYear(mockPredicate, 20.5)).toThrowError('The given value is not a year.');
+    });
+  });
+
+  describe('URIs', () => {
+    it('should read and write URIs as strings, separately from References', async () => {
+      const subject = await getMockTypedValuesSubject(`"https://example.com/"^^xsd:anyURI, <${mockObjectRef}>`);
+      expect(subject.getAnyUri(mockPredicate)).toBe('https://example.com/');
+      expect(subject.getAllRefs(mockPredicate)).toEqual([mockObjectRef]);
+      subject.setAnyUri(mockPredicate, '../relative');
+      expect(subject.getAllAnyUris(mockPredicate)).toEqual(['../relative']);
+      subject.removeAnyUri(mockPredicate, '../relative');
+      expect(subject.getAnyUri(mockPredicate)).toBeNull();
+      expect(() => subject.addAnyUri(mockPredicate, 42 as any)).toThrowError('The given value is not a URI.');
+    });
+  });
+});
+
+describe('removing references to local Subjects', () => {
+  const mockParentSubject = mockDocument + '#parent';
+
+  async function getMockParentSubject(turtle: string, readPendingChanges = false) {
+    const triples = await turtleToTriples(turtle, mockDocument);
+    const mockTripleDocument = instantiateDocument(
+      triples,
+      { documentRef: mockDocument, existsOnPod: true, readPendingChanges: readPendingChanges },
+    );
+    return mockTripleDocument.getSubject(mockParentSubject);
+  }
+
+  it('should also remove local Subjects that are no longer referred to, including nested ones', async () => {
+    const subject = await getMockParentSubject(
+      `<${mockParentSubject}> <${mockPredicate}> [ <${mockPredicate}> [ <${mockPredicate2}> "Nested" ] ].`,
+    );
+
+    subject.removeAll(mockPredicate);
+
+    const [pendingDeletions] = subject.getPendingTriples();
+    expect(pendingDeletions.length).toBe(3);
+    expect(pendingDeletions[2].object.value).toBe('Nested');
+  });
+
+  it('should keep local Subjects that are still referred to elsewhere', async () => {
+    const subject = await getMockParentSubject(`
+      <${mockParentSubject}> <${mockPredicate}> _:shared; <${mockPredicate2}> _:shared.
+      _:shared <${mockPredicate}> <${mockObjectRef}>.
+    `);
+
+    subject.removeAll(mockPredicate);
+
+    const [pendingDeletions] = subject.getPendingTriples();
+    expect(pendingDeletions.length).toBe(1);
+    expect(pendingDeletions[0].subject.value).toBe(mockParentSubject);
+  });
+
+  it('should remove local Subjects when clearing a Subject', async () => {
+    const subject = await getMockParentSubject(
+      `<${mockParentSubject}> <${mockPredicate}> [ <${mockPredicate}> <${mockObjectRef}> ]; <${mockPredicate2}> "Value".`,
+      true,
+    );
+
+    subject.clear();
+
+    expect(subject.getPendingTriples()[0].length).toBe(3);
+    expect(subject.hasPendingChanges()).toBe(true);
+  });
+
+  it('should also remove local Subjects that were added but not saved yet', async () => {
+    const subject = await getMockParentSubject(`<${mockParentSubject}> <${mockPredicate2}> "Value".`, true);
+    const document = subject.getDocument();
+    const localSubject = subject.addLocalSubject(mockPredicate);
+    localSubject.addString(mockPredicate2, 'Main Street');
+    localSubject.addLocalSubject(mockPredicate).addString(mockPredicate2, 'Nested');
+
+    subject.removeAll(mockPredicate);
+
+    expect(document.getPendingTriples()).toEqual([[], []]);
+    expect(document.hasPendingChanges()).toBe(false);
+  });
+
+  it('should remove the local Subjects of a local Subject that is cleared', async () => {
+    const subject = await getMockParentSubject(
+      `<${mockParentSubject}> <${mockPredicate}> [ <${mockPredicate}> [ <${mockPredicate2}> "Nested" ] ].`,
+    );
+    const localSubject = subject.getLocalSubject(mockPredicate)!;
+
+    localSubject.clear();
+
+    const [pendingDeletions] = localSubject.getPendingTriples();
+    expect(pendingDeletions.length).toBe(2);
+    expect(subject.getPendingTriples()).toEqual([[], []]);
+  });
+});
+
+describe('reading pending changes', () => {
+  it('should not return pending changes by default', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral);
+    subject.setString(mockPredicate, mockLiteralValue2);
+    expect(subject.getString(mockPredicate)).toBe(mockLiteralValue);
+  });
+
+  it('should return pending changes if enabled', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral, { readPendingChanges: true });
+    subject.setString(mockPredicate, mockLiteralValue2);
+    subject.addRef(mockPredicate2, mockObjectRef);
+    expect(subject.getString(mockPredicate)).toBe(mockLiteralValue2);
+    expect(subject.getAllStrings(mockPredicate)).toEqual([mockLiteralValue2]);
+    expect(subject.getRef(mockPredicate2)).toBe(mockObjectRef);
+    // The Triples stored on the Pod have not changed yet:
+    expect(subject.getTriples())
+      .toEqual([triple(namedNode(mockSubjectWithLiteral), namedNode(mockPredicate), mockObjectLiteral)]);
+  });
+
+  it('should cancel out pending additions when removing the same value', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral, { readPendingChanges: true });
+    subject.addString(mockPredicate, mockLiteralValue2);
+    subject.removeString(mockPredicate, mockLiteralValue2);
+    const [pendingDeletions, pendingAdditions] = subject.getPendingTriples();
+    expect(pendingDeletions).toEqual([]);
+    expect(pendingAdditions).toEqual([]);
+    expect(subject.getAllStrings(mockPredicate)).toEqual([mockLiteralValue]);
+  });
+
+  it('should cancel out pending deletions when adding the same value', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral, { readPendingChanges: true });
+    subject.removeString(mockPredicate, mockLiteralValue);
+    expect(subject.getString(mockPredicate)).toBeNull();
+    subject.addString(mockPredicate, mockLiteralValue);
+    const [pendingDeletions, pendingAdditions] = subject.getPendingTriples();
+    expect(pendingDeletions).toEqual([]);
+    expect(pendingAdditions).toEqual([]);
+    expect(subject.getString(mockPredicate)).toBe(mockLiteralValue);
+  });
+
+  it('should not register the same change twice', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral, { readPendingChanges: true });
+    subject.addString(mockPredicate, mockLiteralValue2);
+    subject.addString(mockPredicate, mockLiteralValue2);
+    subject.removeString(mockPredicate, mockLiteralValue);
+    subject.removeString(mockPredicate, mockLiteralValue);
+    const [pendingDeletions, pendingAdditions] = subject.getPendingTriples();
+    expect(pendingDeletions).toEqual([triple(namedNode(mockSubjectWithLiteral), namedNode(mockPredicate), mockObjectLiteral)]);
+    expect(pendingAdditions).toEqual([triple(namedNode(mockSubjectWithLiteral), namedNode(mockPredicate), mockObjectLiteral2)]);
+  });
+
+  it('should also remove pending additions when removing all values', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithDifferentPredicates, { readPendingChanges: true });
+    subject.addString(mockPredicate, mockLiteralValue2);
+    subject.addRef(mockPredicate2, mockObjectRef);
+    subject.removeAll(mockPredicate);
+    expect(subject.getAllLiterals(mockPredicate)).toEqual([]);
+    expect(subject.getAllRefs(mockPredicate2)).toEqual([mockObjectRef2, mockObjectRef]);
+
+    subject.clear();
+    const [pendingDeletions, pendingAdditions] = subject.getPendingTriples();
+    expect(pendingAdditions).toEqual([]);
+    expect(pendingDeletions.length).toBe(3);
+    expect(subject.getAllRefs(mockPredicate2)).toEqual([]);
+  });
+
+  it('should also return pending changes for local Subjects, if enabled', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithBlankNodeThenRef, { readPendingChanges: true });
+    const localSubject = subject.getLocalSubject(mockPredicate)!;
+    const [localSubjectFromList] = subject.getAllLocalSubjects(mockPredicate);
+    localSubject.setRef(mockPredicate, mockObjectRef2);
+    localSubjectFromList.setRef(mockPredicate, mockObjectRef2);
+    expect(localSubject.getRef(mockPredicate)).toBe(mockObjectRef2);
+    expect(localSubjectFromList.getRef(mockPredicate)).toBe(mockObjectRef2);
+  });
+});
+
+describe('discardChanges', () => {
+  it('should undo every pending change', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral);
+    expect(subject.hasPendingChanges()).toBe(false);
+
+    subject.setString(mockPredicate, mockLiteralValue2);
+    expect(subject.hasPendingChanges()).toBe(true);
+
+    subject.discardChanges();
+    expect(subject.hasPendingChanges()).toBe(false);
+    expect(subject.getPendingTriples()).toEqual([[], []]);
+  });
+
+  it('should make getters return the original values again when reading pending changes', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral, { readPendingChanges: true });
+    subject.setString(mockPredicate, mockLiteralValue2);
+    subject.discardChanges();
+    expect(subject.getString(mockPredicate)).toBe(mockLiteralValue);
+  });
+});
+
+describe('onChange', () => {
+  it('should be called once for every method that modifies the Subject', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const onChange = jest.fn();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithLiteral, { onChange: onChange });
+    subject.setString(mockPredicate, mockLiteralValue2);
+
+    expect(onChange.mock.calls.length).toBe(1);
+    expect(onChange.mock.calls[0][0].subject).toBe(subject);
+    expect(onChange.mock.calls[0][0].previous).toEqual([[], []]);
+    expect(onChange.mock.calls[0][0].current).toEqual(subject.getPendingTriples());
+  });
+
+  it('should not be passed on to local Subjects', async () => {
+    const mockTripleDocument = await getMockTripleDocument();
+    const onChange = jest.fn();
+    const subject = initialiseSubject(mockTripleDocument, mockSubjectWithBlankNodeThenRef, { onChange: onChange });
+    subject.getLocalSubject(mockPredicate)!.addRef(mockPredicate, mockObjectRef);
+
+    expect(onChange.mock.calls.length).toBe(0);
+  });
+});
+
+describe('Lists', () => {
+  const mockListSubject = mockDocument + '#list-subject';
+  const rdfNil = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#nil';
+
+  async function getMockListSubject(listTurtle: string, readPendingChanges = true) {
+    const triples = await turtleToTriples(`<${mockListSubject}> <${mockPredicate}> ${listTurtle}.`, mockDocument);
+    const mockTripleDocument = instantiateDocument(
+      triples,
+      { documentRef: mockDocument, existsOnPod: true, readPendingChanges: readPendingChanges },
+    );
+    return mockTripleDocument.getSubject(mockListSubject);
+  }
+
+  describe('getList', () => {
+    it('should return the values in a list, in order', async () => {
+      const subject = await getMockListSubject(`( <${mockObjectRef}> "${mockLiteralValue}" 42 <${mockObjectRef}> )`);
+      expect(subject.getList(mockPredicate))
+        .toEqual([{ ref: mockObjectRef }, mockLiteralValue, 42, { ref: mockObjectRef }]);
+    });
+
+    it('should return an empty array for empty lists, or if there is no list', async () => {
+      const subject = await getMockListSubject('()');
+      expect(subject.getList(mockPredicate)).toEqual([]);
+      expect(subject.getList(mockPredicate2)).toEqual([]);
+    });
+
+    it('should ignore values that are not lists', async () => {
+      const subject = await getMockListSubject(`<${mockObjectRef}>, "${mockLiteralValue}", ( "${mockLiteralValue2}" )`);
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue2]);
+    });
+
+    it('should not include local Subjects', async () => {
+      const subject = await getMockListSubject(`( [ <${mockPredicate}> <${mockObjectRef}> ] "${mockLiteralValue}" )`);
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue]);
+    });
+
+    it('should stop at nodes that are not valid list nodes', async () => {
+      const subject = await getMockListSubject(`[ <${rdf.first}> "${mockLiteralValue}"; <${rdf.rest}> [ <${rdf.first}> "${mockLiteralValue2}" ] ]`);
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue]);
+    });
+
+    it('should not get stuck in circular lists', async () => {
+      const triples = await turtleToTriples(
+        `<${mockListSubject}> <${mockPredicate}> _:node. _:node <${rdf.first}> "${mockLiteralValue}"; <${rdf.rest}> _:node.`,
+        mockDocument,
+      );
+      const mockTripleDocument = instantiateDocument(triples, { documentRef: mockDocument, existsOnPod: true });
+      expect(mockTripleDocument.getSubject(mockListSubject).getList(mockPredicate)).toEqual([mockLiteralValue]);
+    });
+  });
+
+  describe('setList', () => {
+    it('should replace every existing value, including the nodes of existing lists', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" ), <${mockObjectRef}>`, false);
+      subject.setList(mockPredicate, [{ ref: mockObjectRef2 }, mockLiteralDateTime, mockLiteralDecimal]);
+
+      const [pendingDeletions, pendingAdditions] = subject.getPendingTriples();
+      expect(pendingDeletions.length).toBe(4);
+      expect(pendingDeletions.map(triple => triple.predicate.value).sort())
+        .toEqual([mockPredicate, mockPredicate, rdf.first, rdf.rest].sort());
+      expect(pendingAdditions.length).toBe(7);
+      const listTriple = pendingAdditions.find(triple => triple.subject.value === mockListSubject)!;
+      expect(listTriple.object.termType).toBe('BlankNode');
+    });
+
+    it('should make the new list available when reading pending changes', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" )`);
+      subject.setList(mockPredicate, [{ ref: mockObjectRef2 }, mockLiteralDateTime, mockLiteralDecimal]);
+      expect(subject.getList(mockPredicate)).toEqual([{ ref: mockObjectRef2 }, mockLiteralDateTime, mockLiteralDecimal]);
+
+      subject.setList(mockPredicate, []);
+      expect(subject.getList(mockPredicate)).toEqual([]);
+      expect(subject.getRef(mockPredicate)).toBe(rdfNil);
+      // Nothing but the empty list remains:
+      const [pendingDeletions, pendingAdditions] = subject.getPendingTriples();
+      expect(pendingDeletions.length).toBe(3);
+      expect(pendingAdditions.length).toBe(1);
+    });
+
+    it('should work in Documents that have not been saved yet', () => {
+      const mockTripleDocument = createDocument(mockDocument, { readPendingChanges: true });
+      const subject = mockTripleDocument.addSubject();
+      subject.setList(mockPredicate, [mockLiteralValue]);
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue]);
+    });
+  });
+
+  describe('insertIntoList', () => {
+    it('should add values to the end of the list by default', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" )`);
+      subject.insertIntoList(mockPredicate, mockLiteralValue2);
+      subject.insertIntoList(mockPredicate, { ref: mockObjectRef });
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue, mockLiteralValue2, { ref: mockObjectRef }]);
+    });
+
+    it('should add values at the given position', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" "${mockLiteralValue2}" )`);
+      subject.insertIntoList(mockPredicate, 1, 0);
+      subject.insertIntoList(mockPredicate, 2, 2);
+      subject.insertIntoList(mockPredicate, 3, 1337);
+      subject.insertIntoList(mockPredicate, 4, -1);
+      expect(subject.getList(mockPredicate)).toEqual([4, 1, mockLiteralValue, 2, mockLiteralValue2, 3]);
+    });
+
+    it('should add values to empty lists', async () => {
+      const subject = await getMockListSubject('()');
+      subject.insertIntoList(mockPredicate, mockLiteralValue);
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue]);
+    });
+
+    it('should create a list if there is none', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" )`);
+      subject.insertIntoList(mockPredicate2, mockLiteralValue2);
+      expect(subject.getList(mockPredicate2)).toEqual([mockLiteralValue2]);
+    });
+
+    it('should only re-link the previous node', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" )`, false);
+      subject.insertIntoList(mockPredicate, mockLiteralValue2);
+
+      const [pendingDeletions, pendingAdditions] = subject.getPendingTriples();
+      expect(pendingDeletions.length).toBe(1);
+      expect(pendingDeletions[0].predicate.value).toBe(rdf.rest);
+      expect(pendingDeletions[0].object.value).toBe(rdfNil);
+      expect(pendingAdditions.length).toBe(3);
+    });
+  });
+
+  describe('removeFromList', () => {
+    it('should remove the first occurrence of the given value', async () => {
+      const subject = await getMockListSubject(`( <${mockObjectRef}> "${mockLiteralValue}" <${mockObjectRef}> 42 )`);
+      subject.removeFromList(mockPredicate, { ref: mockObjectRef });
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue, { ref: mockObjectRef }, 42]);
+      subject.removeFromList(mockPredicate, { ref: mockObjectRef });
+      expect(subject.getList(mockPredicate)).toEqual([mockLiteralValue, 42]);
+      subject.removeFromList(mockPredicate, 42);
+      subject.removeFromList(mockPredicate, mockLiteralValue);
+      expect(subject.getList(mockPredicate)).toEqual([]);
+      expect(subject.getRef(mockPredicate)).toBe(rdfNil);
+    });
+
+    it('should do nothing if the value is not in the list, or if there is no list', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" )`);
+      subject.removeFromList(mockPredicate, mockLiteralValue2);
+      subject.removeFromList(mockPredicate2, mockLiteralValue);
+      expect(subject.hasPendingChanges()).toBe(false);
+    });
+
+    it('should not include list nodes in the change summary', async () => {
+      const subject = await getMockListSubject(`( "${mockLiteralValue}" "${mockLiteralValue2}" )`);
+      subject.removeFromList(mockPredicate, mockLiteralValue);
+      expect(subject.getDocument().getChangeSummary()).toEqual({});
+    });
+  });
+});
+
+describe('custom datatypes', () => {
+  const mockCustomTypedSubject = mockDocument + '#custom-typed';
+  const mockDatatype = 'https://mock-datatype.com/#amount';
+  const mockDatatype2 = 'https://mock-datatype-2.com/';
+
+  class MockAmount {
+    constructor(public cents: number) {}
+  }
+  const mockCodec = {
+    parse: (lexicalValue: string) => new MockAmount(Math.round(Number.parseFloat(lexicalValue) * 100)),
+    serialise: (amount: MockAmount) => (amount.cents / 100).toFixed(2),
+    validate: (value: unknown): value is MockAmount => value instanceof MockAmount,
+  };
+
+  async function getMockCustomTypedSubject(objectsTurtle: string) {
+    const triples = await turtleToTriples(
+      `<${mockCustomTypedSubject}> <${mockPredicate}> ${objectsTurtle}.`,
+      mockDocument,
+    );
+    const mockTripleDocument = instantiateDocument(
+      triples,
+      { documentRef: mockDocument, existsOnPod: true, readPendingChanges: true },
+    );
+    return mockTripleDocument.getSubject(mockCustomTypedSubject);
+  }
+
+  describe('typed Literals', () => {
+    it('should return the lexical values of Literals of the given datatype', async () => {
+      const subject = await getMockCustomTypedSubject(
+        `"4.20"^^<${mockDatatype}>, "Some value", "POINT(4 52)"^^<${mockDatatype2}>, "1.00"^^<${mockDatatype}>`,
+      );
+      expect(subject.getTypedLiteral(mockPredicate, mockDatatype)).toBe('4.20');
+      expect(subject.getAllTypedLiterals(mockPredicate, mockDatatype)).toEqual(['4.20', '1.00']);
+      expect(subject.getTypedLiteral(mockPredicate, 'https://some-other-datatype.com/')).toBeNull();
+      expect(subject.getAllTypedLiterals(mockPredicate2, mockDatatype)).toEqual([]);
+    });
+
+    it('should add, set and remove Literals of the given datatype', async () => {
+      const subject = await getMockCustomTypedSubject(`"4.20"^^<${mockDatatype}>, "Some value"`);
+
+      subject.addTypedLiteral(mockPredicate, 'POINT(4 52)', mockDatatype2);
+      expect(subject.getAllTypedLiterals(mockPredicate, mockDatatype2)).toEqual(['POINT(4 52)']);
+
+      subject.removeTypedLiteral(mockPredicate, '4.20', mockDatatype);
+      expect(subject.getAllTypedLiterals(mockPredicate, mockDatatype)).toEqual([]);
+      expect(subject.getString(mockPredicate)).toBe('Some value');
+
+      subject.setTypedLiteral(mockPredicate, '1.00', mockDatatype);
+      expect(subject.getAllTypedLiterals(mockPredicate, mockDatatype)).toEqual(['1.00']);
+      expect(subject.getAllLiterals(mockPredicate)).toEqual(['1.00']);
+      expect(subject.getPendingTriples()[1].map(triple => triple.object))
+        .toEqual([literal('1.00', namedNode(mockDatatype))]);
+    });
+
+    it('should only accept strings as lexical values', async () => {
+      const subject = await getMockCustomTypedSubject(`"Some value"`);
+      expect(() => subject.addTypedLiteral(mockPredicate, 4.2 as any, mockDatatype))
+        .toThrowError('The given value is not a string.');
+      expect(() => subject.removeTypedLiteral(mockPredicate, 4.2 as any, mockDatatype))
+        .toThrowError('The given value is not a string.');
+    });
+  });
+
+  describe('registered datatypes', () => {
+    let unregister: () => void;
+    beforeEach(() => {
+      unregister = registerDatatype(mockDatatype, mockCodec);
+    });
+    afterEach(() => {
+      unregister();
+    });
+
+    it('should parse Literals of registered datatypes using their codec', async () => {
+      const subject = await getMockCustomTypedSubject(`"4.20"^^<${mockDatatype}>, 42`);
+      expect(subject.getLiteral(mockPredicate)).toEqual(new MockAmount(420));
+      expect(subject.getAllLiterals(mockPredicate)).toEqual([new MockAmount(420), 42]);
+      // Their values as written are still available:
+      expect(subject.getTypedLiteral(mockPredicate, mockDatatype)).toBe('4.20');
+    });
+
+    it('should write values accepted by a codec as Literals of its datatype', async () => {
+      const subject = await getMockCustomTypedSubject(`"4.20"^^<${mockDatatype}>`);
+      subject.addLiteral(mockPredicate, new MockAmount(100) as any);
+      expect(subject.getAllTypedLiterals(mockPredicate, mockDatatype)).toEqual(['4.20', '1.00']);
+
+      subject.removeLiteral(mockPredicate, new MockAmount(420) as any);
+      expect(subject.getAllLiterals(mockPredicate)).toEqual([new MockAmount(100)]);
+
+      subject.setLiteral(mockPredicate, 'Some value');
+      expect(subject.getAllLiterals(mockPredicate)).toEqual(['Some value']);
+    });
+
+    it('should support values of registered datatypes in lists', async () => {
+      const subject = await getMockCustomTypedSubject(`( "Some value" )`);
+      subject.insertIntoList(mockPredicate, new MockAmount(420) as any);
+      expect(subject.getList(mockPredicate)).toEqual(['Some value', new MockAmount(420)]);
+    });
+
+    it('should not let codecs take over strings, numbers, booleans or Dates', async () => {
+      const unregisterStrings = registerDatatype(mockDatatype2, {
+        parse: (lexicalValue: string) => lexicalValue,
+        serialise: (value: string) => value,
+        validate: (value: unknown): value is string => typeof value === 'string',
+      });
+      const subject = await getMockCustomTypedSubject(`"4.20"^^<${mockDatatype}>`);
+      subject.setLiteral(mockPredicate, 'Some value');
+      unregisterStrings();
+
+      expect(subject.getAllTypedLiterals(mockPredicate, mockDatatype2)).toEqual([]);
+      expect(subject.getString(mockPredicate)).toBe('Some value');
+    });
+
+    it('should throw an error when a codec parses a value it does not accept', async () => {
+      const unregisterInvalid = registerDatatype(mockDatatype2, {
+        parse: (lexicalValue: string) => ({ lexicalValue: lexicalValue }) as any,
+        serialise: (value: MockAmount) => value.cents.toString(),
+        validate: (value: unknown): value is MockAmount => value instanceof MockAmount,
+      });
+      const subject = await getMockCustomTypedSubject(`"POINT(4 52)"^^<${mockDatatype2}>`);
+
+      expect(() => subject.getLiteral(mockPredicate)).toThrowError(
+        `The codec registered for <${mockDatatype2}> parsed "POINT(4 52)" into a value it does not accept.`,
+      );
+      unregisterInvalid();
+    });
+
+    it('should write values no codec accepts as plain Literals', async () => {
+      const subject = await getMockCustomTypedSubject(`"4.20"^^<${mockDatatype}>`);
+      subject.setLiteral(mockPredicate, { toString: () => 'Some value' } as any);
+      expect(subject.getString(mockPredicate)).toBe('Some value');
+    });
+
+    it('should no longer parse Literals once their datatype is unregistered', async () => {
+      const subject = await getMockCustomTypedSubject(`"4.20"^^<${mockDatatype}>`);
+      unregister();
+      expect(subject.getLiteral(mockPredicate)).toBe('4.20');
+    });
+  });
+});
+
+describe('date+time values', () => {
+  const mockDateTimeSubject = mockDocument + '#date-times';
+  const xsdDateTime = 'http://www.w3.org/2001/XMLSchema#dateTime';
+
+  async function getMockDateTimeSubject(objectsTurtle: string) {
+    const triples = await turtleToTriples(
+      `@prefix xsd: <http://www.w3.org/2001/XMLSchema#>. <${mockDateTimeSubject}> <${mockPredicate}> ${objectsTurtle}.`,
+      mockDocument,
+    );
+    const mockTripleDocument = instantiateDocument(
+      triples,
+      { documentRef: mockDocument, existsOnPod: true, readPendingChanges: true },
+    );
+    return mockTripleDocument.getSubject(mockDateTimeSubject);
+  }
+
+  it('should read milliseconds and timezone offsets', async () => {
+    const subject = await getMockDateTimeSubject(
+      `"2020-03-01T10:00:00.250+02:00"^^xsd:dateTime, "2020-03-01T10:00:00.1235-05:30"^^xsd:dateTime`,
+    );
+    expect(subject.getAllDateTimes(mockPredicate)).toEqual([
+      new Date(Date.UTC(2020, 2, 1, 8, 0, 0, 250)),
+      new Date(Date.UTC(2020, 2, 1, 15, 30, 0, 124)),
+    ]);
+    expect(subject.getDateTimeOffset(mockPredicate)).toBe(120);
+  });
+
+  it('should read values without seconds or without a timezone', async () => {
+    const subject = await getMockDateTimeSubject(
+      `"2020-03-01T10:00Z"^^xsd:dateTime, "2020-03-01T10:00:30"^^xsd:dateTime, "2020-03-01T24:00:00Z"^^xsd:dateTime`,
+    );
+    expect(subject.getAllDateTimes(mockPredicate)).toEqual([
+      new Date(Date.UTC(2020, 2, 1, 10, 0)),
+      new Date(Date.UTC(2020, 2, 1, 10, 0, 30)),
+      new Date(Date.UTC(2020, 2, 2)),
+    ]);
+    expect(subject.getDateTimeOffset(mockPredicate)).toBe(0);
+
+    const subjectWithoutTimezone = await getMockDateTimeSubject(`"2020-03-01T10:00:30"^^xsd:dateTime`);
+    expect(subjectWithoutTimezone.getDateTimeOffset(mockPredicate)).toBeNull();
+    expect(subjectWithoutTimezone.getDateTimeOffset(mockPredicate2)).toBeNull();
+  });
+
+  it('should return an invalid Date for values that are not valid date+times', async () => {
+    const subject = await getMockDateTimeSubject(`"1 March 2020"^^xsd:dateTime`);
+    expect(Number.isNaN(subject.getDateTime(mockPredicate)!.getTime())).toBe(true);
+    expect(subject.getDateTimeOffset(mockPredicate)).toBeNull();
+  });
+
+  it('should write milliseconds', async () => {
+    const subject = await getMockDateTimeSubject(`"Some value"`);
+    subject.addDateTime(mockPredicate, new Date(Date.UTC(2020, 2, 1, 8, 0, 0, 250)));
+    subject.addDateTime(mockPredicate, new Date(Date.UTC(-1, 0, 1, 8)));
+    expect(subject.getAllTypedLiterals(mockPredicate, xsdDateTime))
+      .toEqual(['2020-03-01T08:00:00.25Z', '-0001-01-01T08:00:00Z']);
+  });
+
+  it('should write values in the given timezone', async () => {
+    const subject = await getMockDateTimeSubject(`"Some value"`);
+    const date = new Date(Date.UTC(2020, 2, 1, 23, 0, 0, 5));
+    subject.addDateTime(mockPredicate, date, { offset: 120 });
+    subject.addDateTime(mockPredicate, date, { offset: -330 });
+    expect(subject.getAllTypedLiterals(mockPredicate, xsdDateTime))
+      .toEqual(['2020-03-02T01:00:00.005+02:00', '2020-03-01T17:30:00.005-05:30']);
+    expect(subject.getAllDateTimes(mockPredicate)).toEqual([date, date]);
+
+    expect(() => subject.addDateTime(mockPredicate, date, { offset: 15 * 60 }))
+      .toThrowError('The given offset is not a valid timezone offset.');
+    expect(() => subject.setDateTime(mockPredicate, new Date(NaN)))
+      .toThrowError('The given value is not a DateTime.');
+  });
+
+  it('should also remove values that are written in a different timezone', async () => {
+    const subject = await getMockDateTimeSubject(
+      `"2020-03-01T10:00:00+02:00"^^xsd:dateTime, "2020-03-01T08:00:00Z"^^xsd:dateTime, "2020-03-01T10:00:00Z"^^xsd:dateTime`,
+    );
+    subject.removeDateTime(mockPredicate, new Date(Date.UTC(2020, 2, 1, 8)));
+    expect(subject.getAllTypedLiterals(mockPredicate, xsdDateTime)).toEqual(['2020-03-01T10:00:00Z']);
+  });
+
+  it('should keep the original way a value is written if requested', async () => {
+    const subject = await getMockDateTimeSubject(
+      `"2020-03-01T10:00:00+02:00"^^xsd:dateTime, "2020-03-01T10:00:00Z"^^xsd:dateTime`,
+    );
+    const date = new Date(Date.UTC(2020, 2, 1, 8));
+
+    subject.addDateTime(mockPredicate, date, { keepLexicalForm: true });
+    expect(subject.hasPendingChanges()).toBe(false);
+
+    subject.setDateTime(mockPredicate, date, { keepLexicalForm: true });
+    expect(subject.getAllTypedLiterals(mockPredicate, xsdDateTime)).toEqual(['2020-03-01T10:00:00+02:00']);
+
+    subject.setDateTime(mockPredicate, new Date(Date.UTC(2020, 2, 1, 9)), { keepLexicalForm: true, offset: 60 });
+    expect(subject.getAllTypedLiterals(mockPredicate, xsdDateTime)).toEqual(['2020-03-01T10:00:00+01:00']);
+
+    subject.addDateTime(mockPredicate, date, { keepLexicalForm: true });
+    expect(subject.getAllDateTimes(mockPredicate)).toEqual([new Date(Date.UTC(2020, 2, 1, 9)), date]);
+  });
+});
+
+describe('arbitrary-precision numbers', () => {
+  const mockNumbersSubject = mockDocument + '#numbers';
+  const xsd = 'http://www.w3.org/2001/XMLSchema#';
+
+  async function getMockNumbersSubject(objectsTurtle: string) {
+    const triples = await turtleToTriples(
+      `@prefix xsd: <${xsd}>. <${mockNumbersSubject}> <${mockPredicate}> ${objectsTurtle}.`,
+      mockDocument,
+    );
+    const mockTripleDocument = instantiateDocument(
+      triples,
+      { documentRef: mockDocument, existsOnPod: true, readPendingChanges: true },
+    );
+    return mockTripleDocument.getSubject(mockNumbersSubject);
+  }
+
+  describe('BigInts', () => {
+    it('should read integers larger than the largest safe integer', async () => {
+      const subject = await getMockNumbersSubject(
+        `"9007199254740993"^^xsd:integer, "4.2"^^xsd:integer, "-42"^^xsd:integer, "42"^^xsd:decimal`,
+      );
+      expect(subject.getBigInt(mockPredicate)).toBe(BigInt('9007199254740993'));
+      expect(subject.getAllBigInts(mockPredicate)).toEqual([BigInt('9007199254740993'), BigInt(-42)]);
+      expect(subject.getBigInt(mockPredicate2)).toBeNull();
+    });
+
+    it('should write BigInts as integers', async () => {
+      const subject = await getMockNumbersSubject(`"Some value"`);
+      subject.setBigInt(mockPredicate, BigInt('9007199254740993'));
+      expect(subject.getPendingTriples()[1].map(triple => triple.object))
+        .toEqual([literal('9007199254740993', namedNode(xsd + 'integer'))]);
+      expect(subject.getAllBigInts(mockPredicate)).toEqual([BigInt('9007199254740993')]);
+      expect(() => subject.addBigInt(mockPredicate, 42 as any)).toThrowError('The given value is not a BigInt.');
+    });
+
+    it('should also remove integers that are written differently', async () => {
+      const subject = await getMockNumbersSubject(`"+042"^^xsd:integer, "43"^^xsd:integer`);
+      subject.removeBigInt(mockPredicate, BigInt(42));
+      expect(subject.getAllBigInts(mockPredicate)).toEqual([BigInt(43)]);
+    });
+  });
+
+  describe('decimal strings', () => {
+    it('should read decimals exactly as they are written', async () => {
+      const subject = await getMockNumbersSubject(
+        `"42.10"^^xsd:decimal, "0.1000000000000000055511151231257827"^^xsd:decimal, "42"^^xsd:integer`,
+      );
+      expect(subject.getDecimalString(mockPredicate)).toBe('42.10');
+      expect(subject.getAllDecimalStrings(mockPredicate))
+        .toEqual(['42.10', '0.1000000000000000055511151231257827']);
+      expect(subject.getDecimalString(mockPredicate2)).toBeNull();
+    });
+
+    it('should write decimals exactly as given', async () => {
+      const subject = await getMockNumbersSubject(`"Some value"`);
+      subject.addDecimalString(mockPredicate, '42.0');
+      subject.addDecimalString(mockPredicate, '-.5');
+      expect(subject.getPendingTriples()[1].map(triple => triple.object)).toEqual([
+        literal('42.0', namedNode(xsd + 'decimal')),
+        literal('-.5', namedNode(xsd + 'decimal')),
+      ]);
+
+      subject.setDecimalString(mockPredicate, '+1.10');
+      expect(subject.getAllDecimalStrings(mockPredicate)).toEqual(['+1.10']);
+
+      expect(() => subject.addDecimalString(mockPredicate, '4.2e1')).toThrowError('The given value is not a decimal.');
+      expect(() => subject.addDecimalString(mockPredicate, 4.2 as any)).toThrowError('The given value is not a decimal.');
+    });
+
+    it('should only remove decimals that are written exactly as given', async () => {
+      const subject = await getMockNumbersSubject(`"42.10"^^xsd:decimal, "42.1"^^xsd:decimal`);
+      subject.removeDecimalString(mockPredicate, '42.1');
+      expect(subject.getAllDecimalStrings(mockPredicate)).toEqual(['42.10']);
+    });
+  });
+});
+
+describe('language negotiation', () => {
+  const mockMultilingualSubject = mockDocument + '#multilingual';
+
+  async function getMockMultilingualSubject(objectsTurtle: string) {
+    const triples = await turtleToTriples(
+      `<${mockMultilingualSubject}> <${mockPredicate}> ${objectsTurtle}.`,
+      mockDocument,
+    );
+    const mockTripleDocument = instantiateDocument(triples, { documentRef: mockDocument, existsOnPod: true });
+    return mockTripleDocument.getSubject(mockMultilingualSubject);
+  }
+
+  describe('getPreferredString', () => {
+    it('should return the string in the most preferred language available', async () => {
+      const subject = await getMockMultilingualSubject(`"Hello"@en, "Hallo"@NL-nl, "Hoi"@nl`);
+      expect(subject.getPreferredString(mockPredicate, ['nl-NL', 'nl', 'en'])).toBe('Hallo');
+      expect(subject.getPreferredString(mockPredicate, ['nl', 'en'])).toBe('Hoi');
+      expect(subject.getPreferredString(mockPredicate, ['de', 'en'])).toBe('Hello');
+    });
+
+    it('should fall back to more specific languages', async () => {
+      const subject = await getMockMultilingualSubject(`"Hello"@en, "Hallo"@nl-BE`);
+      expect(subject.getPreferredString(mockPredicate, ['nl', 'en'])).toBe('Hallo');
+      // `nl-NL` and `nl-BE` are not each other's fallback:
+      expect(subject.getPreferredString(mockPredicate, ['nl-NL', 'en'])).toBe('Hello');
+    });
+
+    it('should fall back to less specific languages', async () => {
+      const subject = await getMockMultilingualSubject(`"Hello"@en, "你好"@zh, "Hoi"@nl`);
+      expect(subject.getPreferredString(mockPredicate, ['zh-Hant-CN', 'en'])).toBe('你好');
+      // Truncated ranges do not end in a single-character subtag:
+      expect(subject.getPreferredString(mockPredicate, ['nl-x-informal', 'en'])).toBe('Hoi');
+    });
+
+    it('should match any language for the `*` wildcard', async () => {
+      const subject = await getMockMultilingualSubject(`"Some value", "Hoi"@nl`);
+      expect(subject.getPreferredString(mockPredicate, ['en', '*'])).toBe('Hoi');
+
+      const subjectWithoutLanguages = await getMockMultilingualSubject(`"Some value"`);
+      expect(subjectWithoutLanguages.getPreferredString(mockPredicate, ['*'])).toBe('Some value');
+    });
+
+    it('should fall back to strings without a language', async () => {
+      const subject = await getMockMultilingualSubject(`"Hoi"@nl, "Some value"`);
+      expect(subject.getPreferredString(mockPredicate, ['en'])).toBe('Some value');
+      expect(subject.getPreferredString(mockPredicate, [])).toBe('Some value');
+
+      const subjectWithoutFallback = await getMockMultilingualSubject(`"Hoi"@nl, 42`);
+      expect(subjectWithoutFallback.getPreferredString(mockPredicate, ['en'])).toBeNull();
+    });
+  });
+
+  describe('getAllLanguages', () => {
+    it('should list every language once', async () => {
+      const subject = await getMockMultilingualSubject(`"Hello"@en, "Some value", "Hallo"@nl-NL, "Hoi"@NL-nl, "Hi"@en`);
+      expect(subject.getAllLanguages(mockPredicate)).toEqual(['en', 'nl-nl']);
+      expect(subject.getAllLanguages(mockPredicate2)).toEqual([]);
+    });
+  });
+});
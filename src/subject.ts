@@ -1,5 +1,7 @@
-import { Literal, BlankNode, Quad } from 'rdf-js';
+import { Literal, BlankNode, NamedNode, Quad, Quad_Object } from 'rdf-js';
 import { DataFactory } from './n3dataset';
+import { getDatatypeParser, serialiseCustomLiteral, isCustomLiteralValue } from './datatypes';
+import { contains, getTriplesAfterChanges } from './triples';
 import {
   Reference,
   isLiteral,
@@ -15,7 +17,28 @@ import {
   StringLiteral,
   isBlankNode,
   generateLocaleTypeGuard,
+  isLangStringLiteral,
+  generateDatatypeTypeGuard,
   LocaleStringLiteral,
+  ListItem,
+  BooleanLiteral,
+  isBooleanLiteral,
+  DateLiteral,
+  isDateLiteral,
+  TimeLiteral,
+  isTimeLiteral,
+  DurationLiteral,
+  isDurationLiteral,
+  DoubleLiteral,
+  isDoubleLiteral,
+  FloatLiteral,
+  isFloatLiteral,
+  LongLiteral,
+  isLongLiteral,
+  GYearLiteral,
+  isGYearLiteral,
+  AnyUriLiteral,
+  isAnyUriLiteral,
 } from './index';
 import { findObjectsInDataset } from './getEntities';
 import { BareTripleDocument, isSavedToPod } from './document';
@@ -26,7 +49,9 @@ import { initialiseDataset } from './n3dataset';
  *
  * Used to read and modify properties of a single Subject in a [[TripleDocument]], using the `get*`,
  * `set*`, `add*` and `remove*` methods for the relevant data types. Note that those changes will
- * not be persisted until you call [[TripleDocument.save]].
+ * not be persisted until you call [[TripleDocument.save]]. By default, they are not returned by the
+ * `get*` methods until then either, unless the Document was fetched or created with the
+ * `readPendingChanges` option.
  */
 export interface TripleSubject {
   /**
@@ -65,6 +90,28 @@ export interface TripleSubject {
    * @returns The first literal string value satisfying `predicate` in the given locale, if any, and `null` otherwise.
    */
   getLocaleString: (predicate: Reference, locale: string) => string | null;
+  /**
+   * Find the literal string value for `predicate` on this Subject that best matches the user's
+   * preferred languages.
+   *
+   * Languages are matched as described in RFC 4647: for every language in `languages`, in order,
+   * this looks for a string in exactly that language (e.g. `nl-NL`), then in a more specific
+   * variant of it (e.g. `nl-NL-x-informal`), and then in a less specific one (e.g. `nl`). `*`
+   * matches strings in any language. If no string matches any of the languages, the first string
+   * without a language is returned.
+   *
+   * Usage:
+   *
+   *     const label = subject.getPreferredString(rdfs.label, navigator.languages);
+   *
+   * @param getPreferredString.predicate Which property of this Subject you want the value of.
+   * @param getPreferredString.languages The language tags of the preferred languages, in order of
+   *                                     preference, e.g. `['nl-NL', 'nl', 'en']`.
+   * @returns The literal string value satisfying `predicate` in the most preferred language
+   *          available, if any, the first string value without a language if not, and `null` if
+   *          neither is found.
+   */
+  getPreferredString: (predicate: Reference, languages: string[]) => string | null;
   /**
    * Find a literal integer value for `predicate` on this Subject.
    *
@@ -85,19 +132,174 @@ export interface TripleSubject {
    * @returns The first literal decimal value satisfying `predicate`, if any, and `null` otherwise.
    */
   getDecimal: (predicate: Reference) => number | null;
+  /**
+   * Find a literal integer value for `predicate` on this Subject, without losing precision.
+   *
+   * Unlike [[getInteger]], this can represent integers larger than `Number.MAX_SAFE_INTEGER`. This
+   * retrieves _one_ integer literal, or `null` if none is found. If you want to find _all_ integer
+   * literals for a predicate, see [[getAllBigInts]].
+   *
+   * @param getBigInt.predicate Which property of this Subject you want the value of.
+   * @returns The first literal integer value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getBigInt: (predicate: Reference) => bigint | null;
+  /**
+   * Find a literal decimal value for `predicate` on this Subject, exactly as it is written.
+   *
+   * Unlike [[getDecimal]], this does not lose precision, e.g. for amounts of money. This retrieves
+   * _one_ decimal literal, or `null` if none is found. If you want to find _all_ decimal literals
+   * for a predicate, see [[getAllDecimalStrings]].
+   *
+   * @param getDecimalString.predicate Which property of this Subject you want the value of.
+   * @returns The lexical value of the first decimal literal satisfying `predicate` (e.g. `'42.10'`),
+   *          if any, and `null` otherwise.
+   */
+  getDecimalString: (predicate: Reference) => string | null;
   /**
    * Find a literal date+time value for `predicate` on this Subject.
    *
    * This retrieves _one_ date+time literal, or `null` if none is found. If you want to find _all_
    * date+time literals for a predicate, see [[getAllDateTimes]].
    *
+   * Values without a timezone offset are read as UTC. To find out which offset a value was
+   * written in, see [[getDateTimeOffset]]; to read it exactly as written, use
+   * [[getTypedLiteral]] with `http://www.w3.org/2001/XMLSchema#dateTime`.
+   *
    * @param getDateTime.predicate Which property of this Subject you want the value of.
    * @returns The first literal Date value satisfying `predicate`, if any, and `null` otherwise.
    */
   getDateTime: (predicate: Reference) => Date | null;
+  /**
+   * Find the timezone offset of a literal date+time value for `predicate` on this Subject, e.g.
+   * to display that value in the timezone it was written in.
+   *
+   * @param getDateTimeOffset.predicate Which property of this Subject you want the offset of.
+   * @returns The timezone offset of the value returned by [[getDateTime]], in minutes ahead of UTC
+   *          (e.g. `120` for `+02:00`), or `null` if there is no such value or it has no offset.
+   */
+  getDateTimeOffset: (predicate: Reference) => number | null;
+  /**
+   * Find a literal boolean value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ boolean literal, or `null` if none is found. If you want to find _all_
+   * boolean literals for a predicate, see [[getAllBooleans]].
+   *
+   * @param getBoolean.predicate Which property of this Subject you want the value of.
+   * @returns The first literal boolean value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getBoolean: (predicate: Reference) => boolean | null;
+  /**
+   * Find a literal date value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ date literal, or `null` if none is found. If you want to find _all_
+   * date literals for a predicate, see [[getAllDates]].
+   *
+   * Dates (`xsd:date`) have no time, so they are returned as a Date at midnight UTC.
+   *
+   * @param getDate.predicate Which property of this Subject you want the value of.
+   * @returns The first literal date value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getDate: (predicate: Reference) => Date | null;
+  /**
+   * Find a literal time value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ time literal, or `null` if none is found. If you want to find _all_
+   * time literals for a predicate, see [[getAllTimes]].
+   *
+   * Times (`xsd:time`) are returned as written, e.g. `'13:20:00'`.
+   *
+   * @param getTime.predicate Which property of this Subject you want the value of.
+   * @returns The first literal time value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getTime: (predicate: Reference) => string | null;
+  /**
+   * Find a literal duration value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ duration literal, or `null` if none is found. If you want to find _all_
+   * duration literals for a predicate, see [[getAllDurations]].
+   *
+   * Durations (`xsd:duration`) are returned as written, e.g. `'P1Y2M'`.
+   *
+   * @param getDuration.predicate Which property of this Subject you want the value of.
+   * @returns The first literal duration value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getDuration: (predicate: Reference) => string | null;
+  /**
+   * Find a literal double value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ double literal, or `null` if none is found. If you want to find _all_
+   * double literals for a predicate, see [[getAllDoubles]].
+   *
+   * @param getDouble.predicate Which property of this Subject you want the value of.
+   * @returns The first literal double value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getDouble: (predicate: Reference) => number | null;
+  /**
+   * Find a literal float value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ float literal, or `null` if none is found. If you want to find _all_
+   * float literals for a predicate, see [[getAllFloats]].
+   *
+   * @param getFloat.predicate Which property of this Subject you want the value of.
+   * @returns The first literal float value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getFloat: (predicate: Reference) => number | null;
+  /**
+   * Find a literal long value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ long literal, or `null` if none is found. If you want to find _all_
+   * long literals for a predicate, see [[getAllLongs]].
+   *
+   * Longs that can not be represented exactly as a number (i.e. beyond ±2^53) are skipped; use
+   * [[getTypedLiteral]] to read those as written.
+   *
+   * @param getLong.predicate Which property of this Subject you want the value of.
+   * @returns The first literal long value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getLong: (predicate: Reference) => number | null;
+  /**
+   * Find a literal year value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ year literal, or `null` if none is found. If you want to find _all_
+   * year literals for a predicate, see [[getAllYears]].
+   *
+   * Years are stored as `xsd:gYear`.
+   *
+   * @param getYear.predicate Which property of this Subject you want the value of.
+   * @returns The first literal year value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getYear: (predicate: Reference) => number | null;
+  /**
+   * Find a literal URI value for `predicate` on this Subject.
+   *
+   * This retrieves _one_ URI literal, or `null` if none is found. If you want to find _all_
+   * URI literals for a predicate, see [[getAllAnyUris]].
+   *
+   * URIs are stored as `xsd:anyURI`; to refer to other Subjects, use [[getRef]] instead.
+   *
+   * @param getAnyUri.predicate Which property of this Subject you want the value of.
+   * @returns The first literal URI value satisfying `predicate`, if any, and `null` otherwise.
+   */
+  getAnyUri: (predicate: Reference) => string | null;
+  /**
+   * Find a Literal of the given datatype for `predicate` on this Subject, as written in the Document.
+   *
+   * This is useful for datatypes Tripledoc does not support itself, e.g. `geo:wktLiteral`. This
+   * retrieves _one_ Literal, or `null` if none is found. If you want to find _all_ Literals of
+   * that datatype for a predicate, see [[getAllTypedLiterals]]. To have e.g. [[getLiteral]] parse
+   * them for you, see [[registerDatatype]].
+   *
+   * @param getTypedLiteral.predicate Which property of this Subject you want the value of.
+   * @param getTypedLiteral.datatype IRI of the datatype the Literal should have.
+   * @returns The lexical value of the first Literal of the given datatype satisfying `predicate`,
+   *          if any, and `null` otherwise.
+   */
+  getTypedLiteral: (predicate: Reference, datatype: Reference) => string | null;
   /**
    * @param getLiteral.predicate Which property of this Subject you want the value of.
-   * @returns The first literal value satisfying `predicate`, if any, and `null` otherwise.
+   * @returns The first literal value satisfying `predicate`, if any, and `null` otherwise. Values of
+   *          datatypes Tripledoc supports are parsed, e.g. `xsd:boolean` into a boolean; others
+   *          are returned as strings.
    * @deprecated This method has been superseded by the type-specific methods [[getString]],
    *             [[getInteger]], [[getDecimal]] and [[getDateTime]].
    */
@@ -113,6 +315,12 @@ export interface TripleSubject {
    * @returns All literal string values satisfying `predicate` in the given locale.
    */
   getAllLocaleStrings: (predicate: Reference, locale: string) => string[];
+  /**
+   * @param getAllLanguages.predicate Which property of this Subject you want the languages of.
+   * @returns The language tags of all literal string values satisfying `predicate`, e.g. to let
+   *          the user pick one. Every tag is listed once, as it is written in the first of them.
+   */
+  getAllLanguages: (predicate: Reference) => string[];
   /**
    * @param getAllIntegers.predicate Which property of this Subject you want the values of.
    * @returns All literal integer values satisfying `predicate`.
@@ -123,11 +331,72 @@ export interface TripleSubject {
    * @returns All literal decimal values satisfying `predicate`.
    */
   getAllDecimals: (predicate: Reference) => number[];
+  /**
+   * @param getAllBigInts.predicate Which property of this Subject you want the values of.
+   * @returns All literal integer values satisfying `predicate`.
+   */
+  getAllBigInts: (predicate: Reference) => bigint[];
+  /**
+   * @param getAllDecimalStrings.predicate Which property of this Subject you want the values of.
+   * @returns The lexical values of all decimal literals satisfying `predicate`.
+   */
+  getAllDecimalStrings: (predicate: Reference) => string[];
   /**
    * @param getAllDateTimes.predicate Which property of this Subject you want the values of.
    * @returns All literal DateTime values satisfying `predicate`.
    */
   getAllDateTimes: (predicate: Reference) => Date[];
+  /**
+   * @param getAllBooleans.predicate Which property of this Subject you want the values of.
+   * @returns All literal boolean values satisfying `predicate`.
+   */
+  getAllBooleans: (predicate: Reference) => boolean[];
+  /**
+   * @param getAllDates.predicate Which property of this Subject you want the values of.
+   * @returns All literal date values satisfying `predicate`.
+   */
+  getAllDates: (predicate: Reference) => Date[];
+  /**
+   * @param getAllTimes.predicate Which property of this Subject you want the values of.
+   * @returns All literal time values satisfying `predicate`.
+   */
+  getAllTimes: (predicate: Reference) => string[];
+  /**
+   * @param getAllDurations.predicate Which property of this Subject you want the values of.
+   * @returns All literal duration values satisfying `predicate`.
+   */
+  getAllDurations: (predicate: Reference) => string[];
+  /**
+   * @param getAllDoubles.predicate Which property of this Subject you want the values of.
+   * @returns All literal double values satisfying `predicate`.
+   */
+  getAllDoubles: (predicate: Reference) => number[];
+  /**
+   * @param getAllFloats.predicate Which property of this Subject you want the values of.
+   * @returns All literal float values satisfying `predicate`.
+   */
+  getAllFloats: (predicate: Reference) => number[];
+  /**
+   * @param getAllLongs.predicate Which property of this Subject you want the values of.
+   * @returns All literal long values satisfying `predicate`.
+   */
+  getAllLongs: (predicate: Reference) => number[];
+  /**
+   * @param getAllYears.predicate Which property of this Subject you want the values of.
+   * @returns All literal year values satisfying `predicate`.
+   */
+  getAllYears: (predicate: Reference) => number[];
+  /**
+   * @param getAllAnyUris.predicate Which property of this Subject you want the values of.
+   * @returns All literal URI values satisfying `predicate`.
+   */
+  getAllAnyUris: (predicate: Reference) => string[];
+  /**
+   * @param getAllTypedLiterals.predicate Which property of this Subject you want the values of.
+   * @param getAllTypedLiterals.datatype IRI of the datatype the Literals should have.
+   * @returns The lexical values of all Literals of the given datatype satisfying `predicate`.
+   */
+  getAllTypedLiterals: (predicate: Reference, datatype: Reference) => string[];
   /**
    * @param getAllLiterals.predicate Which property of this Subject you want the values of.
    * @returns All literal values satisfying `predicate`.
@@ -154,6 +423,17 @@ export interface TripleSubject {
    * @ignore Experimental API; could change in minor or patch releases.
    */
   getAllLocalSubjects: (predicate: Reference) => Array<TripleSubject>;
+  /**
+   * Create a new local Subject (i.e. without its own URL) and reference it with `predicate`.
+   *
+   * The new Subject's values will be saved together with this Subject's changes, e.g. when
+   * describing the address of a person without giving that address its own URL.
+   *
+   * @param addLocalSubject.predicate The property of this Subject that should refer to the new Subject.
+   * @returns The new local Subject, to which values can be added.
+   * @ignore Experimental API; could change in minor or patch releases.
+   */
+  addLocalSubject: (predicate: Reference) => TripleSubject;
   /**
    * Find a reference attached to this Subject with `predicate`.
    *
@@ -183,6 +463,18 @@ export interface TripleSubject {
    * @deprecated Replaced by [[getAllRefs]].
    */
   getAllNodeRefs: (predicate: Reference) => Array<Reference>;
+  /**
+   * Find an ordered list (an `rdf:List`, written as `( ... )` in Turtle) attached to this Subject
+   * with `predicate`.
+   *
+   * Note that local Subjects (i.e. without their own URLs) in the list are not included.
+   *
+   * @param getList.predicate Which property of this Subject you want the list of.
+   * @returns The values in the list, in order, with [[Reference]]s wrapped in an object, e.g.
+   *          `[{ ref: 'https://example.com/slide1' }, 'Some string']`. If there is no list, an
+   *          empty array is returned.
+   */
+  getList: (predicate: Reference) => ListItem[];
   /**
    * Set a property of this Subject to a Literal string value.
    *
@@ -220,6 +512,24 @@ export interface TripleSubject {
    * @param addDecimal.object The Literal decimal value you want to add.
    */
   addDecimal: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a Literal integer value, without losing precision.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addBigInt.predicate The property you want to add another value of.
+   * @param addBigInt.object The Literal integer value you want to add.
+   */
+  addBigInt: (predicate: Reference, object: bigint) => void;
+  /**
+   * Set a property of this Subject to a Literal decimal value, written exactly as given.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addDecimalString.predicate The property you want to add another value of.
+   * @param addDecimalString.object The Literal decimal value you want to add, e.g. `'42.10'`.
+   */
+  addDecimalString: (predicate: Reference, object: string) => void;
   /**
    * Set a property of this Subject to a Literal DateTime value.
    *
@@ -227,8 +537,101 @@ export interface TripleSubject {
    *
    * @param addDateTime.predicate The property you want to add another value of.
    * @param addDateTime.object The Literal DateTime value you want to add.
+   * @param addDateTime.options How the value should be written; see [[DateTimeOptions]].
+   */
+  addDateTime: (predicate: Reference, object: Date, options?: DateTimeOptions) => void;
+  /**
+   * Set a property of this Subject to a Literal boolean value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addBoolean.predicate The property you want to add another value of.
+   * @param addBoolean.object The Literal boolean value you want to add.
+   */
+  addBoolean: (predicate: Reference, object: boolean) => void;
+  /**
+   * Set a property of this Subject to a Literal date value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addDate.predicate The property you want to add another value of.
+   * @param addDate.object The Literal date value you want to add.
+   */
+  addDate: (predicate: Reference, object: Date) => void;
+  /**
+   * Set a property of this Subject to a Literal time value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addTime.predicate The property you want to add another value of.
+   * @param addTime.object The Literal time value you want to add.
+   */
+  addTime: (predicate: Reference, object: string) => void;
+  /**
+   * Set a property of this Subject to a Literal duration value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addDuration.predicate The property you want to add another value of.
+   * @param addDuration.object The Literal duration value you want to add.
+   */
+  addDuration: (predicate: Reference, object: string) => void;
+  /**
+   * Set a property of this Subject to a Literal double value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addDouble.predicate The property you want to add another value of.
+   * @param addDouble.object The Literal double value you want to add.
+   */
+  addDouble: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a Literal float value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addFloat.predicate The property you want to add another value of.
+   * @param addFloat.object The Literal float value you want to add.
+   */
+  addFloat: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a Literal long value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addLong.predicate The property you want to add another value of.
+   * @param addLong.object The Literal long value you want to add.
+   */
+  addLong: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a Literal year value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addYear.predicate The property you want to add another value of.
+   * @param addYear.object The Literal year value you want to add.
+   */
+  addYear: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a Literal URI value.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addAnyUri.predicate The property you want to add another value of.
+   * @param addAnyUri.object The Literal URI value you want to add.
+   */
+  addAnyUri: (predicate: Reference, object: string) => void;
+  /**
+   * Set a property of this Subject to a Literal of the given datatype.
+   *
+   * Note that this value is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param addTypedLiteral.predicate The property you want to add another value of.
+   * @param addTypedLiteral.object The lexical value of the Literal you want to add, as it should be
+   *                               written in the Document.
+   * @param addTypedLiteral.datatype IRI of the datatype of the Literal you want to add.
    */
-  addDateTime: (predicate: Reference, object: Date) => void;
+  addTypedLiteral: (predicate: Reference, object: string, datatype: Reference) => void;
   /**
    * Set a property of this Subject to a Literal value (i.e. not a URL).
    *
@@ -291,15 +694,130 @@ export interface TripleSubject {
    * @param removeDecimal.object The Literal decimal value you want to remove.
    */
   removeDecimal: (predicate: Reference, object: number) => void;
+  /**
+   * Remove a Literal integer value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeBigInt.predicate The property you want to remove a value of.
+   * @param removeBigInt.object The Literal integer value you want to remove.
+   */
+  removeBigInt: (predicate: Reference, object: bigint) => void;
+  /**
+   * Remove a Literal decimal value for a property of this Subject.
+   *
+   * Only values that are written exactly as given are removed, i.e. removing `'42.1'` does not
+   * remove `'42.10'`.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeDecimalString.predicate The property you want to remove a value of.
+   * @param removeDecimalString.object The Literal decimal value you want to remove.
+   */
+  removeDecimalString: (predicate: Reference, object: string) => void;
   /**
    * Remove a Literal DateTime value for a property of this Subject.
    *
+   * This also removes values that represent the same moment but are written differently, e.g. in
+   * a different timezone.
+   *
    * Note that this value is not removed from the user's Pod until you save the containing Document.
    *
    * @param removeDateTime.predicate The property you want to remove a value of.
    * @param removeDateTime.object The Literal DateTime value you want to remove.
    */
   removeDateTime: (predicate: Reference, object: Date) => void;
+  /**
+   * Remove a Literal boolean value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeBoolean.predicate The property you want to remove a value of.
+   * @param removeBoolean.object The Literal boolean value you want to remove.
+   */
+  removeBoolean: (predicate: Reference, object: boolean) => void;
+  /**
+   * Remove a Literal date value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeDate.predicate The property you want to remove a value of.
+   * @param removeDate.object The Literal date value you want to remove.
+   */
+  removeDate: (predicate: Reference, object: Date) => void;
+  /**
+   * Remove a Literal time value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeTime.predicate The property you want to remove a value of.
+   * @param removeTime.object The Literal time value you want to remove.
+   */
+  removeTime: (predicate: Reference, object: string) => void;
+  /**
+   * Remove a Literal duration value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeDuration.predicate The property you want to remove a value of.
+   * @param removeDuration.object The Literal duration value you want to remove.
+   */
+  removeDuration: (predicate: Reference, object: string) => void;
+  /**
+   * Remove a Literal double value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeDouble.predicate The property you want to remove a value of.
+   * @param removeDouble.object The Literal double value you want to remove.
+   */
+  removeDouble: (predicate: Reference, object: number) => void;
+  /**
+   * Remove a Literal float value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeFloat.predicate The property you want to remove a value of.
+   * @param removeFloat.object The Literal float value you want to remove.
+   */
+  removeFloat: (predicate: Reference, object: number) => void;
+  /**
+   * Remove a Literal long value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeLong.predicate The property you want to remove a value of.
+   * @param removeLong.object The Literal long value you want to remove.
+   */
+  removeLong: (predicate: Reference, object: number) => void;
+  /**
+   * Remove a Literal year value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeYear.predicate The property you want to remove a value of.
+   * @param removeYear.object The Literal year value you want to remove.
+   */
+  removeYear: (predicate: Reference, object: number) => void;
+  /**
+   * Remove a Literal URI value for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeAnyUri.predicate The property you want to remove a value of.
+   * @param removeAnyUri.object The Literal URI value you want to remove.
+   */
+  removeAnyUri: (predicate: Reference, object: string) => void;
+  /**
+   * Remove a Literal of the given datatype for a property of this Subject.
+   *
+   * Note that this value is not removed from the user's Pod until you save the containing Document.
+   *
+   * @param removeTypedLiteral.predicate The property you want to remove a value of.
+   * @param removeTypedLiteral.object The lexical value of the Literal you want to remove.
+   * @param removeTypedLiteral.datatype IRI of the datatype of the Literal you want to remove.
+   */
+  removeTypedLiteral: (predicate: Reference, object: string, datatype: Reference) => void;
   /**
    * Remove a Literal value for a property of this Subject.
    *
@@ -371,6 +889,25 @@ export interface TripleSubject {
    * @param setDecimal.object The decimal Literal value you want to set.
    */
   setDecimal: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to an integer Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setBigInt.predicate The property you want to set the value of.
+   * @param setBigInt.object The integer Literal value you want to set.
+   */
+  setBigInt: (predicate: Reference, object: bigint) => void;
+  /**
+   * Set a property of this Subject to a decimal Literal value written exactly as given, clearing
+   * all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setDecimalString.predicate The property you want to set the value of.
+   * @param setDecimalString.object The decimal Literal value you want to set, e.g. `'42.10'`.
+   */
+  setDecimalString: (predicate: Reference, object: string) => void;
   /**
    * Set a property of this Subject to a DateTime Literal value, clearing all existing values.
    *
@@ -378,39 +915,173 @@ export interface TripleSubject {
    *
    * @param setDateTime.predicate The property you want to set the value of.
    * @param setDateTime.object The DateTime Literal value you want to set.
+   * @param setDateTime.options How the value should be written; see [[DateTimeOptions]].
    */
-  setDateTime: (predicate: Reference, object: Date) => void;
+  setDateTime: (predicate: Reference, object: Date, options?: DateTimeOptions) => void;
   /**
-   * Set a property of this Subject to a Literal value, clearing all existing values.
+   * Set a property of this Subject to a boolean Literal value, clearing all existing values.
    *
    * Note that this change is not saved to the user's Pod until you save the containing Document.
    *
-   * @param setLiteral.predicate The property you want to set the value of.
-   * @param setLiteral.object The Literal value you want to set, the type of which is one of [[LiteralTypes]].
-   * @deprecated This method has been superseded by the type-specific methods [[setString]],
-   *             [[setInteger]], [[setDecimal]] and [[setDateTime]].
+   * @param setBoolean.predicate The property you want to set the value of.
+   * @param setBoolean.object The boolean Literal value you want to set.
    */
-  setLiteral: (predicate: Reference, object: LiteralTypes) => void;
+  setBoolean: (predicate: Reference, object: boolean) => void;
   /**
-   * Set a property of this Subject to a [[Reference]], clearing all existing values.
+   * Set a property of this Subject to a date Literal value, clearing all existing values.
    *
    * Note that this change is not saved to the user's Pod until you save the containing Document.
    *
-   * @param setRef.predicate The property you want to set the value of.
-   * @param setRef.object The reference you want to add.
+   * @param setDate.predicate The property you want to set the value of.
+   * @param setDate.object The date Literal value you want to set.
    */
-  setRef: (predicate: Reference, object: Reference) => void;
+  setDate: (predicate: Reference, object: Date) => void;
   /**
-   * @ignore Deprecated.
-   * @deprecated Replaced by [[setRef]].
+   * Set a property of this Subject to a time Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setTime.predicate The property you want to set the value of.
+   * @param setTime.object The time Literal value you want to set.
    */
-  setNodeRef: (predicate: Reference, object: Reference) => void;
+  setTime: (predicate: Reference, object: string) => void;
   /**
-   * Unset all values for all Predicates of this Subject.
+   * Set a property of this Subject to a duration Literal value, clearing all existing values.
    *
-   * @internal Currently an internal API for use by [[TripleDocument]].
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setDuration.predicate The property you want to set the value of.
+   * @param setDuration.object The duration Literal value you want to set.
+   */
+  setDuration: (predicate: Reference, object: string) => void;
+  /**
+   * Set a property of this Subject to a double Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setDouble.predicate The property you want to set the value of.
+   * @param setDouble.object The double Literal value you want to set.
+   */
+  setDouble: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a float Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setFloat.predicate The property you want to set the value of.
+   * @param setFloat.object The float Literal value you want to set.
+   */
+  setFloat: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a long Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setLong.predicate The property you want to set the value of.
+   * @param setLong.object The long Literal value you want to set.
+   */
+  setLong: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a year Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setYear.predicate The property you want to set the value of.
+   * @param setYear.object The year Literal value you want to set.
+   */
+  setYear: (predicate: Reference, object: number) => void;
+  /**
+   * Set a property of this Subject to a URI Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setAnyUri.predicate The property you want to set the value of.
+   * @param setAnyUri.object The URI Literal value you want to set.
+   */
+  setAnyUri: (predicate: Reference, object: string) => void;
+  /**
+   * Set a property of this Subject to a Literal of the given datatype, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setTypedLiteral.predicate The property you want to set the value of.
+   * @param setTypedLiteral.object The lexical value of the Literal you want to set, as it should be
+   *                               written in the Document.
+   * @param setTypedLiteral.datatype IRI of the datatype of the Literal you want to set.
+   */
+  setTypedLiteral: (predicate: Reference, object: string, datatype: Reference) => void;
+  /**
+   * Set a property of this Subject to a Literal value, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setLiteral.predicate The property you want to set the value of.
+   * @param setLiteral.object The Literal value you want to set, the type of which is one of [[LiteralTypes]].
+   * @deprecated This method has been superseded by the type-specific methods [[setString]],
+   *             [[setInteger]], [[setDecimal]] and [[setDateTime]].
+   */
+  setLiteral: (predicate: Reference, object: LiteralTypes) => void;
+  /**
+   * Set a property of this Subject to a [[Reference]], clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setRef.predicate The property you want to set the value of.
+   * @param setRef.object The reference you want to add.
+   */
+  setRef: (predicate: Reference, object: Reference) => void;
+  /**
+   * @ignore Deprecated.
+   * @deprecated Replaced by [[setRef]].
+   */
+  setNodeRef: (predicate: Reference, object: Reference) => void;
+  /**
+   * Set a property of this Subject to an ordered list of values, clearing all existing values.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param setList.predicate The property you want to set the value of.
+   * @param setList.items The values that should be in the list, in order. [[Reference]]s should be
+   *                      wrapped in an object, e.g. `{ ref: 'https://example.com/slide1' }`.
+   */
+  setList: (predicate: Reference, items: ListItem[]) => void;
+  /**
+   * Add a value to the ordered list this Subject refers to with `predicate`, creating the list if
+   * it does not exist yet.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param insertIntoList.predicate The property whose list you want to add a value to.
+   * @param insertIntoList.item The value to add. [[Reference]]s should be wrapped in an object,
+   *                            e.g. `{ ref: 'https://example.com/slide1' }`.
+   * @param insertIntoList.index The position the value should get in the list. By default, it is
+   *                             added to the end.
+   */
+  insertIntoList: (predicate: Reference, item: ListItem, index?: number) => void;
+  /**
+   * Remove the first occurrence of a value from the ordered list this Subject refers to with `predicate`.
+   *
+   * Note that this change is not saved to the user's Pod until you save the containing Document.
+   *
+   * @param removeFromList.predicate The property whose list you want to remove a value from.
+   * @param removeFromList.item The value to remove. [[Reference]]s should be wrapped in an object,
+   *                            e.g. `{ ref: 'https://example.com/slide1' }`.
+   */
+  removeFromList: (predicate: Reference, item: ListItem) => void;
+  /**
+   * Unset all values for all Predicates of this Subject.
+   *
+   * @internal Currently an internal API for use by [[TripleDocument]].
    */
   clear: () => void;
+  /**
+   * Undo every change made to this Subject since it was fetched or last saved.
+   */
+  discardChanges: () => void;
+  /**
+   * @returns Whether this Subject has changes that have not been saved to the Pod yet.
+   */
+  hasPendingChanges: () => boolean;
   /**
    * @internal Pending Triples are only provided so the Document can access them in order to save
    *           them - this is not part of the public API and can thus break in a minor release.
@@ -418,12 +1089,31 @@ export interface TripleSubject {
    *          the store, and the second element a list of Triples that should be added to it.
    */
   getPendingTriples: () => [Quad[], Quad[]];
+  /**
+   * @internal Used to undo and redo changes; not part of the public API.
+   * @param setPendingTriples.pendingTriples A tuple with the first element being a list of
+   *                                         Triples that should be deleted from the store, and the
+   *                                         second element a list of Triples that should be added
+   *                                         to it, replacing the current pending Triples.
+   */
+  setPendingTriples: (pendingTriples: [Quad[], Quad[]]) => void;
+  /**
+   * @internal Used to remove local Subjects that are no longer referred to; not part of the public API.
+   * @param removeTriple.triple A Triple describing this Subject, which is removed, or if it was
+   *                            added but not saved yet, no longer added.
+   */
+  removeTriple: (triple: Quad) => void;
   /**
    * Get the IRI of the [[Reference]] representing this specific Subject.
    *
    * @returns The IRI of this specific Subject.
    */
   asRef: () => Reference;
+  /**
+   * @internal Used to tell local Subjects apart from other Subjects; not part of the public API.
+   * @returns The Named Node or Blank Node representing this Subject.
+   */
+  asNode: () => NamedNode | BlankNode;
   /**
    * @ignore Deprecated.
    * @deprecated Replaced by [[asRef]].
@@ -431,12 +1121,67 @@ export interface TripleSubject {
   asNodeRef: () => Reference;
 };
 
+/**
+ * Determines how [[TripleSubject.addDateTime]] and [[TripleSubject.setDateTime]] write a value.
+ */
+export interface DateTimeOptions {
+  /**
+   * The timezone offset to write the value in, in minutes ahead of UTC, e.g. `120` for `+02:00`.
+   * Defaults to `0`, i.e. UTC.
+   */
+  offset?: number;
+  /**
+   * If the property already has a value that represents the same moment, keep that value as it
+   * is written (e.g. in its original timezone), rather than writing it anew. Defaults to `false`.
+   */
+  keepLexicalForm?: boolean;
+};
+
+/**
+ * @internal Only to be used by the Document containing this subject; not a public API.
+ */
+export interface SubjectOptions {
+  /**
+   * Whether getters should include changes that have not been saved to the Pod yet.
+   */
+  readPendingChanges?: boolean;
+  /**
+   * Called every time the pending Triples of this Subject are modified through one of its methods.
+   */
+  onChange?: (change: SubjectChange) => void;
+  /**
+   * Returns the Subject representing a local Subject (i.e. a Blank Node), so that the Document
+   * can keep track of its changes as well.
+   */
+  getLocalSubject?: (node: BlankNode) => TripleSubject;
+};
+
+/**
+ * @internal Only to be used by the Document containing this subject; not a public API.
+ */
+export interface SubjectChange {
+  subject: TripleSubject;
+  /**
+   * The pending deletions and additions before the change.
+   */
+  previous: [Quad[], Quad[]];
+  /**
+   * The pending deletions and additions after the change.
+   */
+  current: [Quad[], Quad[]];
+};
+
 /**
  * @internal Only to be called by the Document containing this subject; not a public API.
  * @param document The Document this Subject is defined in.
  * @param subjectRef The URL that identifies this subject.
+ * @param options Settings inherited from the Document this Subject is defined in.
  */
-export function initialiseSubject(document: BareTripleDocument, subjectRef: Reference| BlankNode): TripleSubject {
+export function initialiseSubject(
+  document: BareTripleDocument,
+  subjectRef: Reference| BlankNode,
+  options: SubjectOptions = {},
+): TripleSubject {
   const subjectNode = isBlankNode(subjectRef) ? subjectRef : DataFactory.namedNode(subjectRef);
   const triples = (isSavedToPod(document))
     ? document.getStore().match(subjectNode, null, null, null).toArray()
@@ -446,7 +1191,78 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
   let pendingAdditions: Quad[] = [];
   let pendingDeletions: Quad[] = [];
 
-  const get = (predicateNode: Reference) => findObjectsInDataset(dataset, subjectRef, predicateNode);
+  /**
+   * @returns The Triples that will describe this Subject once its pending changes are saved.
+   */
+  const getUpdatedDataset = () => {
+    const updatedDataset = initialiseDataset();
+    updatedDataset.addAll(
+      dataset.toArray()
+        .filter(triple => !contains(pendingDeletions, triple))
+        .concat(pendingAdditions),
+    );
+    return updatedDataset;
+  };
+  const getReadableDataset = () => options.readPendingChanges ? getUpdatedDataset() : dataset;
+
+  /**
+   * @returns Whether `triple` is stored on the Pod, which might also be a Triple describing a
+   *          different Subject, e.g. the nodes of a list.
+   */
+  const isStored = (triple: Quad) => triple.subject.equals(subjectNode)
+    ? contains(dataset.toArray(), triple)
+    : isSavedToPod(document) && document.getStore().match(triple.subject, triple.predicate, triple.object, null).toArray().length > 0;
+
+  const addPendingTriple = (triple: Quad) => {
+    if (!options.readPendingChanges) {
+      pendingAdditions.push(triple);
+      return;
+    }
+    // Adding a value that was going to be removed cancels out its removal:
+    pendingDeletions = pendingDeletions.filter(pendingDeletion => !pendingDeletion.equals(triple));
+    if (!contains(pendingAdditions, triple) && !isStored(triple)) {
+      pendingAdditions.push(triple);
+    }
+  };
+  const removePendingTriple = (triple: Quad) => {
+    if (!options.readPendingChanges) {
+      pendingDeletions.push(triple);
+      return;
+    }
+    // Removing a value that was going to be added cancels out its addition:
+    pendingAdditions = pendingAdditions.filter(pendingAddition => !pendingAddition.equals(triple));
+    if (!contains(pendingDeletions, triple) && isStored(triple)) {
+      pendingDeletions.push(triple);
+    }
+  };
+
+  const getPendingTriples = (): [Quad[], Quad[]] => [pendingDeletions, pendingAdditions];
+  const setPendingTriples = ([deletions, additions]: [Quad[], Quad[]]) => {
+    pendingDeletions = deletions.slice();
+    pendingAdditions = additions.slice();
+  };
+  /**
+   * Wrap a method that modifies the pending Triples, so that its changes are reported to the Document.
+   */
+  const reportChanges = <Args extends unknown[], Result>(modify: (...args: Args) => Result) => (...args: Args) => {
+    const previous: [Quad[], Quad[]] = [pendingDeletions.slice(), pendingAdditions.slice()];
+    const result = modify(...args);
+    const current: [Quad[], Quad[]] = [pendingDeletions.slice(), pendingAdditions.slice()];
+    if (options.onChange && !(isSameList(previous[0], current[0]) && isSameList(previous[1], current[1]))) {
+      options.onChange({ subject: subject, previous: previous, current: current });
+    }
+    return result;
+  };
+  const initialiseLocalSubject = (node: BlankNode) => {
+    if (options.getLocalSubject) {
+      return options.getLocalSubject(node);
+    }
+    // If this Subject is not tracked by a Document, neither are its local Subjects,
+    // so their changes can not be reported to it:
+    return initialiseSubject(document, node, { readPendingChanges: options.readPendingChanges });
+  };
+
+  const get = (predicateNode: Reference) => findObjectsInDataset(getReadableDataset(), subjectRef, predicateNode);
   const getString = (predicateNode: Reference) => {
     const objects = get(predicateNode);
     const firstStringLiteral = objects.find(isStringLiteral);
@@ -463,6 +1279,14 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     }
     return firstStringLiteral.value;
   };
+  const getPreferredString = (predicateRef: Reference, languages: string[]) => {
+    const objects = get(predicateRef);
+    const preferredLiteral = findPreferredLiteral(objects.filter(isLangStringLiteral), languages);
+    if (preferredLiteral !== null) {
+      return preferredLiteral.value;
+    }
+    return getString(predicateRef);
+  };
   const getInteger = (predicateRef: Reference) => {
     const objects = get(predicateRef);
     const firstIntegerLiteral = objects.find(isIntegerLiteral);
@@ -490,6 +1314,9 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
 
     return fromDateTimeLiteral(firstDateTimeLiteral);
   };
+  const getDateTimeOffset = (predicateRef: Reference) => {
+    return getFirstOfType(predicateRef, isDateTimeLiteral, fromDateTimeOffset);
+  };
   const getLiteral = (predicateRef: Reference) => {
     const objects = get(predicateRef);
     const firstLiteral = objects.find(isLiteral);
@@ -508,6 +1335,12 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     const literals = objects.filter(generateLocaleTypeGuard(locale));
     return literals.map(fromStringLiteral);
   };
+  const getAllLanguages = (predicateRef: Reference) => {
+    const languages = get(predicateRef).filter(isLangStringLiteral).map(literal => literal.language);
+    return languages.filter((language, index) => {
+      return languages.findIndex(otherLanguage => isSameLanguage(otherLanguage, language)) === index;
+    });
+  };
   const getAllIntegers = (predicateRef: Reference) => {
     const objects = get(predicateRef);
     const literals = objects.filter(isIntegerLiteral);
@@ -534,12 +1367,12 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     if (typeof firstRef === 'undefined') {
       return null;
     }
-    return initialiseSubject(document, firstRef);
+    return initialiseLocalSubject(firstRef);
   };
   const getAllLocalSubjects = (predicateRef: Reference) => {
     const objects = get(predicateRef);
     const nodeRefs = objects.filter(isBlankNode);
-    return nodeRefs.map((localSubject: BlankNode) => initialiseSubject(document, localSubject));
+    return nodeRefs.map(initialiseLocalSubject);
   };
   const getRef = (predicateRef: Reference) => {
     const objects = get(predicateRef);
@@ -560,7 +1393,7 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
   }
 
   const addLiteral = (predicateRef: Reference, literal: LiteralTypes) => {
-    pendingAdditions.push(DataFactory.triple(
+    addPendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       asLiteral(literal),
@@ -576,7 +1409,7 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     if (typeof literal !== 'string') {
       throw new Error('The given value is not a string.');
     }
-    pendingAdditions.push(DataFactory.triple(
+    addPendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       DataFactory.literal(literal, locale),
@@ -592,34 +1425,43 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     if (typeof literal !== 'number') {
       throw new Error('The given value is not a decimal.');
     }
-    pendingAdditions.push(DataFactory.triple(
+    addPendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       DataFactory.literal(literal.toString(), DataFactory.namedNode('http://www.w3.org/2001/XMLSchema#decimal')),
     ));
   };
-  const addDateTime = (predicateRef: Reference, literal: Date) => {
-    if (literal instanceof Date === false) {
-      throw new Error('The given value is not a DateTime.');
+  const addDateTime = (predicateRef: Reference, literal: Date, options: DateTimeOptions = {}) => {
+    const dateTimeLiteral = toDateTimeLiteral(literal, options.offset);
+    if (options.keepLexicalForm && typeof findSameDateTime(predicateRef, literal) !== 'undefined') {
+      return;
     }
-    return addLiteral(predicateRef, literal);
+    addLiteralOfType(predicateRef, dateTimeLiteral);
+  };
+  /**
+   * @returns A value for `predicateRef` that represents the same moment as `date`, if any.
+   */
+  const findSameDateTime = (predicateRef: Reference, date: Date) => {
+    return get(predicateRef)
+      .filter(isDateTimeLiteral)
+      .find(dateTimeLiteral => fromDateTimeLiteral(dateTimeLiteral).getTime() === date.getTime());
   };
   const addRef = (predicateRef: Reference, nodeRef: Reference) => {
-    pendingAdditions.push(DataFactory.triple(
+    addPendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       DataFactory.namedNode(nodeRef),
     ));
   };
   const removeRef = (predicateRef: Reference, nodeRef: Reference) => {
-    pendingDeletions.push(DataFactory.triple(
+    removePendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       DataFactory.namedNode(nodeRef),
     ));
   };
   const removeLiteral = (predicateRef: Reference, literal: LiteralTypes) => {
-    pendingDeletions.push(DataFactory.triple(
+    removePendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       asLiteral(literal), 
@@ -635,7 +1477,7 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     if (typeof literal !== 'string') {
       throw new Error('The given value is not a string.');
     }
-    pendingDeletions.push(DataFactory.triple(
+    removePendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       DataFactory.literal(literal, locale),
@@ -652,25 +1494,48 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
       throw new Error('The given value is not a decimal.');
     }
     // We cannot re-use `removeLiteral` here because it will parse `42.0` as an integer:
-    pendingDeletions.push(DataFactory.triple(
+    removePendingTriple(DataFactory.triple(
       subjectNode,
       DataFactory.namedNode(predicateRef),
       DataFactory.literal(literal.toString(), DataFactory.namedNode('http://www.w3.org/2001/XMLSchema#decimal')),
     ));
   };
   const removeDateTime = (predicateRef: Reference, literal: Date) => {
-    if (literal instanceof Date === false) {
-      throw new Error('The given value is not a DateTime.');
+    removeOfType(predicateRef, literal, isDateTimeLiteral, fromDateTimeLiteral, toDateTimeLiteral);
+  };
+  /**
+   * Remove a Triple, and if it referred to a local Subject that is no longer referred to
+   * afterwards, remove that local Subject (and the local Subjects only it refers to) as well.
+   */
+  const removeTripleAndOrphans = (triple: Quad) => {
+    if (triple.subject.termType === 'BlankNode' && !contains(pendingAdditions, triple) && !isStored(triple)) {
+      // Triples added through a local Subject are pending additions of that Subject, so they have
+      // to be cancelled there:
+      initialiseLocalSubject(triple.subject).removeTriple(triple);
+    } else {
+      removePendingTriple(triple);
     }
-    return removeLiteral(predicateRef, literal);
+    if (triple.object.termType !== 'BlankNode') {
+      return;
+    }
+    const updatedDocumentDataset = getUpdatedDocumentDataset();
+    if (updatedDocumentDataset.match(null, null, triple.object, null).toArray().length > 0) {
+      return;
+    }
+    updatedDocumentDataset.match(triple.object, null, null, null).toArray().forEach(removeTripleAndOrphans);
   };
   const removeAll = (predicateRef: Reference) => {
-    pendingDeletions.push(...dataset.match(
+    getReadableDataset().match(
       subjectNode, DataFactory.namedNode(predicateRef), null, null,
-    ).toArray());
+    ).toArray().forEach(removeTripleAndOrphans);
   };
   const clear = () => {
-    pendingDeletions.push(...getTriples());
+    getReadableDataset().match(subjectNode, null, null, null).toArray().forEach(removeTripleAndOrphans);
+  };
+  const addLocalSubject = (predicateRef: Reference) => {
+    const node = DataFactory.blankNode();
+    addPendingTriple(DataFactory.triple(subjectNode, DataFactory.namedNode(predicateRef), node));
+    return initialiseLocalSubject(node);
   };
   const setRef = (predicateRef: Reference, nodeRef: Reference) => {
     removeAll(predicateRef);
@@ -696,9 +1561,359 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     removeAll(predicateRef);
     addDecimal(predicateRef, literal);
   };
-  const setDateTime = (predicateRef: Reference, literal: Date) => {
+  const setDateTime = (predicateRef: Reference, literal: Date, options: DateTimeOptions = {}) => {
+    const dateTimeLiteral = toDateTimeLiteral(literal, options.offset);
+    const keptLiteral = options.keepLexicalForm ? findSameDateTime(predicateRef, literal) : undefined;
+    if (typeof keptLiteral === 'undefined') {
+      removeAll(predicateRef);
+      addLiteralOfType(predicateRef, dateTimeLiteral);
+      return;
+    }
+    getReadableDataset().match(subjectNode, DataFactory.namedNode(predicateRef), null, null)
+      .toArray()
+      .filter(triple => !triple.object.equals(keptLiteral))
+      .forEach(removeTripleAndOrphans);
+  };
+
+  /**
+   * @returns The first value of `predicateRef` that is a Literal of a specific type, parsed by `parse`.
+   */
+  const getFirstOfType = <TypedLiteral extends Literal, T>(
+    predicateRef: Reference,
+    isOfType: (object: Reference | Literal | BlankNode) => object is TypedLiteral,
+    parse: (literal: TypedLiteral) => T,
+  ) => {
+    const firstLiteral = get(predicateRef).find(isOfType);
+    if (typeof firstLiteral === 'undefined') {
+      return null;
+    }
+    return parse(firstLiteral);
+  };
+  const getAllOfType = <TypedLiteral extends Literal, T>(
+    predicateRef: Reference,
+    isOfType: (object: Reference | Literal | BlankNode) => object is TypedLiteral,
+    parse: (literal: TypedLiteral) => T,
+  ) => get(predicateRef).filter(isOfType).map(parse);
+  const addLiteralOfType = (predicateRef: Reference, literal: Literal) => {
+    addPendingTriple(DataFactory.triple(subjectNode, DataFactory.namedNode(predicateRef), literal));
+  };
+  /**
+   * Remove a Literal value, as well as stored Literals that represent the same value but are
+   * written differently, e.g. `"1"^^xsd:boolean` when removing `true`.
+   */
+  const removeOfType = <TypedLiteral extends Literal, T>(
+    predicateRef: Reference,
+    value: T,
+    isOfType: (object: Quad_Object) => object is TypedLiteral,
+    parse: (literal: TypedLiteral) => T,
+    serialise: (value: T) => Literal,
+  ) => {
+    const literal = serialise(value);
+    const representsSameValue = (object: Quad_Object) => {
+      if (!isOfType(object) || object.equals(literal)) {
+        return false;
+      }
+      try {
+        return serialise(parse(object)).equals(literal);
+      } catch (e) {
+        // Literals that are not valid values of their type do not represent any value:
+        return false;
+      }
+    };
+    const predicateNode = DataFactory.namedNode(predicateRef);
+    removePendingTriple(DataFactory.triple(subjectNode, predicateNode, literal));
+    dataset.match(subjectNode, predicateNode, null, null).toArray()
+      .filter(triple => representsSameValue(triple.object))
+      .forEach(removePendingTriple);
+  };
+  const getBoolean = (predicateRef: Reference) => getFirstOfType(predicateRef, isBooleanLiteral, fromBooleanLiteral);
+  const getAllBooleans = (predicateRef: Reference) => getAllOfType(predicateRef, isBooleanLiteral, fromBooleanLiteral);
+  const addBoolean = (predicateRef: Reference, literal: boolean) => {
+    addLiteralOfType(predicateRef, toBooleanLiteral(literal));
+  };
+  const removeBoolean = (predicateRef: Reference, literal: boolean) => {
+    removeOfType(predicateRef, literal, isBooleanLiteral, fromBooleanLiteral, toBooleanLiteral);
+  };
+  const setBoolean = (predicateRef: Reference, literal: boolean) => {
+    removeAll(predicateRef);
+    addBoolean(predicateRef, literal);
+  };
+  const getDate = (predicateRef: Reference) => getFirstOfType(predicateRef, isDateLiteral, fromDateLiteral);
+  const getAllDates = (predicateRef: Reference) => getAllOfType(predicateRef, isDateLiteral, fromDateLiteral);
+  const addDate = (predicateRef: Reference, literal: Date) => {
+    addLiteralOfType(predicateRef, toDateLiteral(literal));
+  };
+  const removeDate = (predicateRef: Reference, literal: Date) => {
+    removeOfType(predicateRef, literal, isDateLiteral, fromDateLiteral, toDateLiteral);
+  };
+  const setDate = (predicateRef: Reference, literal: Date) => {
     removeAll(predicateRef);
-    addDateTime(predicateRef, literal);
+    addDate(predicateRef, literal);
+  };
+  const getTime = (predicateRef: Reference) => getFirstOfType(predicateRef, isTimeLiteral, fromTimeLiteral);
+  const getAllTimes = (predicateRef: Reference) => getAllOfType(predicateRef, isTimeLiteral, fromTimeLiteral);
+  const addTime = (predicateRef: Reference, literal: string) => {
+    addLiteralOfType(predicateRef, toTimeLiteral(literal));
+  };
+  const removeTime = (predicateRef: Reference, literal: string) => {
+    removeOfType(predicateRef, literal, isTimeLiteral, fromTimeLiteral, toTimeLiteral);
+  };
+  const setTime = (predicateRef: Reference, literal: string) => {
+    removeAll(predicateRef);
+    addTime(predicateRef, literal);
+  };
+  const getDuration = (predicateRef: Reference) => getFirstOfType(predicateRef, isDurationLiteral, fromDurationLiteral);
+  const getAllDurations = (predicateRef: Reference) => getAllOfType(predicateRef, isDurationLiteral, fromDurationLiteral);
+  const addDuration = (predicateRef: Reference, literal: string) => {
+    addLiteralOfType(predicateRef, toDurationLiteral(literal));
+  };
+  const removeDuration = (predicateRef: Reference, literal: string) => {
+    removeOfType(predicateRef, literal, isDurationLiteral, fromDurationLiteral, toDurationLiteral);
+  };
+  const setDuration = (predicateRef: Reference, literal: string) => {
+    removeAll(predicateRef);
+    addDuration(predicateRef, literal);
+  };
+  const getDouble = (predicateRef: Reference) => getFirstOfType(predicateRef, isDoubleLiteral, fromDoubleLiteral);
+  const getAllDoubles = (predicateRef: Reference) => getAllOfType(predicateRef, isDoubleLiteral, fromDoubleLiteral);
+  const addDouble = (predicateRef: Reference, literal: number) => {
+    addLiteralOfType(predicateRef, toDoubleLiteral(literal));
+  };
+  const removeDouble = (predicateRef: Reference, literal: number) => {
+    removeOfType(predicateRef, literal, isDoubleLiteral, fromDoubleLiteral, toDoubleLiteral);
+  };
+  const setDouble = (predicateRef: Reference, literal: number) => {
+    removeAll(predicateRef);
+    addDouble(predicateRef, literal);
+  };
+  const getFloat = (predicateRef: Reference) => getFirstOfType(predicateRef, isFloatLiteral, fromFloatLiteral);
+  const getAllFloats = (predicateRef: Reference) => getAllOfType(predicateRef, isFloatLiteral, fromFloatLiteral);
+  const addFloat = (predicateRef: Reference, literal: number) => {
+    addLiteralOfType(predicateRef, toFloatLiteral(literal));
+  };
+  const removeFloat = (predicateRef: Reference, literal: number) => {
+    removeOfType(predicateRef, literal, isFloatLiteral, fromFloatLiteral, toFloatLiteral);
+  };
+  const setFloat = (predicateRef: Reference, literal: number) => {
+    removeAll(predicateRef);
+    addFloat(predicateRef, literal);
+  };
+  const getLong = (predicateRef: Reference) => getFirstOfType(predicateRef, isSafeLongLiteral, fromLongLiteral);
+  const getAllLongs = (predicateRef: Reference) => getAllOfType(predicateRef, isSafeLongLiteral, fromLongLiteral);
+  const addLong = (predicateRef: Reference, literal: number) => {
+    addLiteralOfType(predicateRef, toLongLiteral(literal));
+  };
+  const removeLong = (predicateRef: Reference, literal: number) => {
+    removeOfType(predicateRef, literal, isSafeLongLiteral, fromLongLiteral, toLongLiteral);
+  };
+  const setLong = (predicateRef: Reference, literal: number) => {
+    removeAll(predicateRef);
+    addLong(predicateRef, literal);
+  };
+  const getYear = (predicateRef: Reference) => getFirstOfType(predicateRef, isGYearLiteral, fromYearLiteral);
+  const getAllYears = (predicateRef: Reference) => getAllOfType(predicateRef, isGYearLiteral, fromYearLiteral);
+  const addYear = (predicateRef: Reference, literal: number) => {
+    addLiteralOfType(predicateRef, toYearLiteral(literal));
+  };
+  const removeYear = (predicateRef: Reference, literal: number) => {
+    removeOfType(predicateRef, literal, isGYearLiteral, fromYearLiteral, toYearLiteral);
+  };
+  const setYear = (predicateRef: Reference, literal: number) => {
+    removeAll(predicateRef);
+    addYear(predicateRef, literal);
+  };
+  const getAnyUri = (predicateRef: Reference) => getFirstOfType(predicateRef, isAnyUriLiteral, fromAnyUriLiteral);
+  const getAllAnyUris = (predicateRef: Reference) => getAllOfType(predicateRef, isAnyUriLiteral, fromAnyUriLiteral);
+  const addAnyUri = (predicateRef: Reference, literal: string) => {
+    addLiteralOfType(predicateRef, toAnyUriLiteral(literal));
+  };
+  const removeAnyUri = (predicateRef: Reference, literal: string) => {
+    removeOfType(predicateRef, literal, isAnyUriLiteral, fromAnyUriLiteral, toAnyUriLiteral);
+  };
+  const setAnyUri = (predicateRef: Reference, literal: string) => {
+    removeAll(predicateRef);
+    addAnyUri(predicateRef, literal);
+  };
+  const getTypedLiteral = (predicateRef: Reference, datatypeRef: Reference) => {
+    return getFirstOfType(predicateRef, generateDatatypeTypeGuard(datatypeRef), fromTypedLiteral);
+  };
+  const getAllTypedLiterals = (predicateRef: Reference, datatypeRef: Reference) => {
+    return getAllOfType(predicateRef, generateDatatypeTypeGuard(datatypeRef), fromTypedLiteral);
+  };
+  const addTypedLiteral = (predicateRef: Reference, literal: string, datatypeRef: Reference) => {
+    addLiteralOfType(predicateRef, toTypedLiteral(literal, datatypeRef));
+  };
+  const removeTypedLiteral = (predicateRef: Reference, literal: string, datatypeRef: Reference) => {
+    removePendingTriple(DataFactory.triple(
+      subjectNode,
+      DataFactory.namedNode(predicateRef),
+      toTypedLiteral(literal, datatypeRef),
+    ));
+  };
+  const setTypedLiteral = (predicateRef: Reference, literal: string, datatypeRef: Reference) => {
+    removeAll(predicateRef);
+    addTypedLiteral(predicateRef, literal, datatypeRef);
+  };
+  const getBigInt = (predicateRef: Reference) => getFirstOfType(predicateRef, isBigIntLiteral, fromBigIntLiteral);
+  const getAllBigInts = (predicateRef: Reference) => getAllOfType(predicateRef, isBigIntLiteral, fromBigIntLiteral);
+  const addBigInt = (predicateRef: Reference, literal: bigint) => {
+    addLiteralOfType(predicateRef, toBigIntLiteral(literal));
+  };
+  const removeBigInt = (predicateRef: Reference, literal: bigint) => {
+    removeOfType(predicateRef, literal, isBigIntLiteral, fromBigIntLiteral, toBigIntLiteral);
+  };
+  const setBigInt = (predicateRef: Reference, literal: bigint) => {
+    removeAll(predicateRef);
+    addBigInt(predicateRef, literal);
+  };
+  const getDecimalString = (predicateRef: Reference) => {
+    return getFirstOfType(predicateRef, isDecimalLiteral, fromDecimalStringLiteral);
+  };
+  const getAllDecimalStrings = (predicateRef: Reference) => {
+    return getAllOfType(predicateRef, isDecimalLiteral, fromDecimalStringLiteral);
+  };
+  const addDecimalString = (predicateRef: Reference, literal: string) => {
+    addLiteralOfType(predicateRef, toDecimalStringLiteral(literal));
+  };
+  const removeDecimalString = (predicateRef: Reference, literal: string) => {
+    removePendingTriple(DataFactory.triple(
+      subjectNode,
+      DataFactory.namedNode(predicateRef),
+      toDecimalStringLiteral(literal),
+    ));
+  };
+  const setDecimalString = (predicateRef: Reference, literal: string) => {
+    removeAll(predicateRef);
+    addDecimalString(predicateRef, literal);
+  };
+
+  const discardChanges = () => {
+    pendingAdditions = [];
+    pendingDeletions = [];
+  };
+  const hasPendingChanges = () => pendingAdditions.length > 0 || pendingDeletions.length > 0;
+
+  /**
+   * @returns The Triples in the Document, including list nodes, which have their own Subjects.
+   */
+  const getDocumentDataset = () => {
+    if (options.readPendingChanges) {
+      return getUpdatedDocumentDataset();
+    }
+    const documentDataset = initialiseDataset();
+    documentDataset.addAll(getStoredDocumentTriples());
+    return documentDataset;
+  };
+  /**
+   * @returns The Triples in the Document once the pending changes of its Subjects, including those
+   *          of local Subjects, are saved.
+   */
+  const getUpdatedDocumentDataset = () => {
+    // This Subject's own changes are included separately, since it might not be tracked by the Document:
+    const [documentDeletions, documentAdditions] = document.getPendingTriples();
+    const documentDataset = initialiseDataset();
+    documentDataset.addAll(getTriplesAfterChanges(getStoredDocumentTriples(), {
+      deletions: documentDeletions.concat(pendingDeletions),
+      additions: documentAdditions.concat(pendingAdditions),
+    }));
+    return documentDataset;
+  };
+  const getStoredDocumentTriples = () => isSavedToPod(document) ? document.getStore().toArray() : [];
+  /**
+   * @returns The Triples describing every node of the first list attached with `predicateRef`,
+   *          and the Triple attaching it to this Subject, or `null` if there is no list.
+   */
+  const getListNodes = (predicateRef: Reference) => {
+    const documentDataset = getDocumentDataset();
+    const listTriple = documentDataset.match(subjectNode, DataFactory.namedNode(predicateRef), null, null)
+      .toArray()
+      .find(triple => triple.object.termType === 'BlankNode' || triple.object.equals(rdfNil));
+    if (typeof listTriple === 'undefined') {
+      return null;
+    }
+
+    const nodes: Array<{ first: Quad; rest: Quad }> = [];
+    let node = listTriple.object;
+    // The check for visited nodes guards against infinite loops in malformed (circular) lists:
+    while (!node.equals(rdfNil) && nodes.every(visitedNode => !visitedNode.first.subject.equals(node))) {
+      const [first] = documentDataset.match(node, rdfFirst, null, null).toArray();
+      const [rest] = documentDataset.match(node, rdfRest, null, null).toArray();
+      if (typeof first === 'undefined' || typeof rest === 'undefined') {
+        break;
+      }
+      nodes.push({ first: first, rest: rest });
+      node = rest.object;
+    }
+    return { listTriple: listTriple, nodes: nodes };
+  };
+  const getList = (predicateRef: Reference) => {
+    const list = getListNodes(predicateRef);
+    if (list === null) {
+      return [];
+    }
+    return list.nodes
+      .map(node => node.first.object)
+      .filter(object => object.termType !== 'BlankNode')
+      .map(fromListItemTerm);
+  };
+  const removeListNodes = (predicateRef: Reference) => {
+    const list = getListNodes(predicateRef);
+    if (list === null) {
+      return;
+    }
+    list.nodes.forEach((node) => {
+      removePendingTriple(node.first);
+      removePendingTriple(node.rest);
+    });
+  };
+  /**
+   * @returns The first node of a new list containing `items`, or `rdf:nil` if it is empty.
+   */
+  const addListNodes = (items: ListItem[], rest: Quad_Object) => {
+    return items.reduceRight<Quad_Object>((nextNode, item) => {
+      const node = DataFactory.blankNode();
+      addPendingTriple(DataFactory.triple(node, rdfFirst, toListItemTerm(item)));
+      addPendingTriple(DataFactory.triple(node, rdfRest, nextNode));
+      return node;
+    }, rest);
+  };
+  const setList = (predicateRef: Reference, items: ListItem[]) => {
+    removeListNodes(predicateRef);
+    removeAll(predicateRef);
+    const firstNode = addListNodes(items, rdfNil);
+    addPendingTriple(DataFactory.triple(subjectNode, DataFactory.namedNode(predicateRef), firstNode));
+  };
+  /**
+   * Point the Triple that refers to a list node (either the Triple attaching the list to this
+   * Subject, or the `rdf:rest` Triple of the previous node) to a different node.
+   */
+  const relink = (triple: Quad, newNode: Quad_Object) => {
+    removePendingTriple(triple);
+    addPendingTriple(DataFactory.triple(triple.subject, triple.predicate, newNode));
+  };
+  const insertIntoList = (predicateRef: Reference, item: ListItem, index?: number) => {
+    const list = getListNodes(predicateRef);
+    if (list === null) {
+      return setList(predicateRef, [item]);
+    }
+    const position = (typeof index === 'number') ? Math.max(0, Math.min(index, list.nodes.length)) : list.nodes.length;
+    const previousTriple = (position === 0) ? list.listTriple : list.nodes[position - 1].rest;
+    relink(previousTriple, addListNodes([item], previousTriple.object));
+  };
+  const removeFromList = (predicateRef: Reference, item: ListItem) => {
+    const list = getListNodes(predicateRef);
+    if (list === null) {
+      return;
+    }
+    const itemTerm = toListItemTerm(item);
+    const position = list.nodes.findIndex(node => node.first.object.equals(itemTerm));
+    if (position === -1) {
+      return;
+    }
+    const node = list.nodes[position];
+    removePendingTriple(node.first);
+    removePendingTriple(node.rest);
+    relink((position === 0) ? list.listTriple : list.nodes[position - 1].rest, node.rest.object);
   };
 
   const getTriples = () => dataset.match(
@@ -715,74 +1930,215 @@ export function initialiseSubject(document: BareTripleDocument, subjectRef: Refe
     getTriples: getTriples,
     getString: getString,
     getLocaleString: getLocaleString,
+    getPreferredString: getPreferredString,
     getInteger: getInteger,
     getDecimal: getDecimal,
+    getBigInt: getBigInt,
+    getDecimalString: getDecimalString,
     getDateTime: getDateTime,
+    getDateTimeOffset: getDateTimeOffset,
+    getBoolean: getBoolean,
+    getDate: getDate,
+    getTime: getTime,
+    getDuration: getDuration,
+    getDouble: getDouble,
+    getFloat: getFloat,
+    getLong: getLong,
+    getYear: getYear,
+    getAnyUri: getAnyUri,
     getLiteral: getLiteral,
     getAllStrings: getAllStrings,
     getAllLocaleStrings: getAllLocaleStrings,
+    getAllLanguages: getAllLanguages,
     getAllIntegers: getAllIntegers,
     getAllDecimals: getAllDecimals,
+    getAllBigInts: getAllBigInts,
+    getAllDecimalStrings: getAllDecimalStrings,
     getAllDateTimes: getAllDateTimes,
+    getAllBooleans: getAllBooleans,
+    getAllDates: getAllDates,
+    getAllTimes: getAllTimes,
+    getAllDurations: getAllDurations,
+    getAllDoubles: getAllDoubles,
+    getAllFloats: getAllFloats,
+    getAllLongs: getAllLongs,
+    getAllYears: getAllYears,
+    getAllAnyUris: getAllAnyUris,
+    getTypedLiteral: getTypedLiteral,
+    getAllTypedLiterals: getAllTypedLiterals,
     getAllLiterals: getAllLiterals,
     getLocalSubject: getLocalSubject,
     getAllLocalSubjects: getAllLocalSubjects,
     getRef: getRef,
     getAllRefs: getAllRefs,
     getType: getType,
-    addString: addString,
-    addLocaleString: addLocaleString,
-    addInteger: addInteger,
-    addDecimal: addDecimal,
-    addDateTime: addDateTime,
-    addRef: addRef,
-    removeAll: removeAll,
-    removeString: removeString,
-    removeLocaleString: removeLocaleString,
-    removeInteger: removeInteger,
-    removeDecimal: removeDecimal,
-    removeDateTime: removeDateTime,
-    removeRef: removeRef,
-    setRef: setRef,
-    setString: setString,
-    setLocaleString: setLocaleString,
-    setInteger: setInteger,
-    setDecimal: setDecimal,
-    setDateTime: setDateTime,
-    clear: clear,
-    getPendingTriples: () => [pendingDeletions, pendingAdditions],
+    getList: getList,
+    addString: reportChanges(addString),
+    addLocaleString: reportChanges(addLocaleString),
+    addInteger: reportChanges(addInteger),
+    addDecimal: reportChanges(addDecimal),
+    addBigInt: reportChanges(addBigInt),
+    addDecimalString: reportChanges(addDecimalString),
+    addDateTime: reportChanges(addDateTime),
+    addBoolean: reportChanges(addBoolean),
+    addDate: reportChanges(addDate),
+    addTime: reportChanges(addTime),
+    addDuration: reportChanges(addDuration),
+    addDouble: reportChanges(addDouble),
+    addFloat: reportChanges(addFloat),
+    addLong: reportChanges(addLong),
+    addYear: reportChanges(addYear),
+    addAnyUri: reportChanges(addAnyUri),
+    addTypedLiteral: reportChanges(addTypedLiteral),
+    addRef: reportChanges(addRef),
+    addLocalSubject: reportChanges(addLocalSubject),
+    removeAll: reportChanges(removeAll),
+    removeString: reportChanges(removeString),
+    removeLocaleString: reportChanges(removeLocaleString),
+    removeInteger: reportChanges(removeInteger),
+    removeDecimal: reportChanges(removeDecimal),
+    removeBigInt: reportChanges(removeBigInt),
+    removeDecimalString: reportChanges(removeDecimalString),
+    removeDateTime: reportChanges(removeDateTime),
+    removeBoolean: reportChanges(removeBoolean),
+    removeDate: reportChanges(removeDate),
+    removeTime: reportChanges(removeTime),
+    removeDuration: reportChanges(removeDuration),
+    removeDouble: reportChanges(removeDouble),
+    removeFloat: reportChanges(removeFloat),
+    removeLong: reportChanges(removeLong),
+    removeYear: reportChanges(removeYear),
+    removeAnyUri: reportChanges(removeAnyUri),
+    removeTypedLiteral: reportChanges(removeTypedLiteral),
+    removeRef: reportChanges(removeRef),
+    setRef: reportChanges(setRef),
+    setString: reportChanges(setString),
+    setLocaleString: reportChanges(setLocaleString),
+    setInteger: reportChanges(setInteger),
+    setDecimal: reportChanges(setDecimal),
+    setBigInt: reportChanges(setBigInt),
+    setDecimalString: reportChanges(setDecimalString),
+    setDateTime: reportChanges(setDateTime),
+    setBoolean: reportChanges(setBoolean),
+    setDate: reportChanges(setDate),
+    setTime: reportChanges(setTime),
+    setDuration: reportChanges(setDuration),
+    setDouble: reportChanges(setDouble),
+    setFloat: reportChanges(setFloat),
+    setLong: reportChanges(setLong),
+    setYear: reportChanges(setYear),
+    setAnyUri: reportChanges(setAnyUri),
+    setTypedLiteral: reportChanges(setTypedLiteral),
+    setList: reportChanges(setList),
+    insertIntoList: reportChanges(insertIntoList),
+    removeFromList: reportChanges(removeFromList),
+    clear: reportChanges(clear),
+    discardChanges: reportChanges(discardChanges),
+    hasPendingChanges: hasPendingChanges,
+    getPendingTriples: getPendingTriples,
+    setPendingTriples: setPendingTriples,
     asRef: asRef,
+    asNode: () => subjectNode,
+    removeTriple: reportChanges(removePendingTriple),
     // Deprecated aliases, included for backwards compatibility:
     getNodeRef: getRef,
     getAllNodeRefs: getAllRefs,
-    addNodeRef: addRef,
-    addLiteral: addLiteral,
-    removeNodeRef: removeRef,
-    removeLiteral: removeLiteral,
-    setNodeRef: setRef,
-    setLiteral: setLiteral,
+    addNodeRef: reportChanges(addRef),
+    addLiteral: reportChanges(addLiteral),
+    removeNodeRef: reportChanges(removeRef),
+    removeLiteral: reportChanges(removeLiteral),
+    setNodeRef: reportChanges(setRef),
+    setLiteral: reportChanges(setLiteral),
     asNodeRef: asRef,
   };
 
   return subject;
 }
 
+const rdfFirst = DataFactory.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#first');
+const rdfRest = DataFactory.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#rest');
+const rdfNil = DataFactory.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#nil');
+
+function toListItemTerm(item: ListItem): Literal | NamedNode {
+  if (isReferenceListItem(item)) {
+    return DataFactory.namedNode(item.ref);
+  }
+  return asLiteral(item);
+}
+function isReferenceListItem(item: ListItem): item is { ref: Reference } {
+  // Values of registered datatypes can be objects too, so only treat other objects as references:
+  return typeof item === 'object' && !(item instanceof Date) && !isCustomLiteralValue(item);
+}
+function fromListItemTerm(term: Quad_Object): ListItem {
+  return isLiteral(term) ? fromLiteral(term) : { ref: term.value };
+}
+
+function isSameList(triples1: Quad[], triples2: Quad[]): boolean {
+  return triples1.length === triples2.length && triples1.every((triple, index) => triple.equals(triples2[index]));
+}
+
 function fromDateTimeLiteral(literal: DateTimeLiteral): Date {
-  // See https://github.com/linkeddata/rdflib.js/blob/d84af88f367b8b5f617c753d8241c5a2035458e8/src/literal.js#L87
-  const utcFullYear = parseInt(literal.value.substring(0, 4), 10);
-  const utcMonth = parseInt(literal.value.substring(5, 7), 10) - 1;
-  const utcDate = parseInt(literal.value.substring(8, 10), 10);
-  const utcHours = parseInt(literal.value.substring(11, 13), 10);
-  const utcMinutes = parseInt(literal.value.substring(14, 16), 10);
-  const utcSeconds = parseInt(literal.value.substring(17, literal.value.indexOf('Z')), 10);
+  const match = dateTimePattern.exec(literal.value);
+  if (match === null) {
+    return new Date(NaN);
+  }
+  const [, year, month, day, hours, minutes, seconds, fraction, timezone] = match;
   const date = new Date(0);
-  date.setUTCFullYear(utcFullYear);
-  date.setUTCMonth(utcMonth);
-  date.setUTCDate(utcDate);
-  date.setUTCHours(utcHours);
-  date.setUTCMinutes(utcMinutes);
-  date.setUTCSeconds(utcSeconds);
-  return date;
+  date.setUTCFullYear(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10));
+  // A Date can not be more precise than milliseconds, so further fractional digits are rounded.
+  // Note that this also supports `24:00:00`, which denotes the start of the next day:
+  date.setUTCHours(
+    parseInt(hours, 10),
+    parseInt(minutes, 10),
+    parseInt(seconds || '0', 10),
+    Math.round(parseFloat('0' + (fraction || '')) * 1000),
+  );
+  // Values without a timezone are interpreted as UTC, like rdflib does:
+  const offset = (typeof timezone === 'string') ? parseTimezoneOffset(timezone) : 0;
+  return new Date(date.getTime() - offset * 60 * 1000);
+}
+function fromDateTimeOffset(literal: DateTimeLiteral): number | null {
+  const match = dateTimePattern.exec(literal.value);
+  if (match === null || typeof match[8] !== 'string') {
+    return null;
+  }
+  return parseTimezoneOffset(match[8]);
+}
+function toDateTimeLiteral(value: Date, offset: number = 0): Literal {
+  if (value instanceof Date === false || Number.isNaN(value.getTime())) {
+    throw new Error('The given value is not a DateTime.');
+  }
+  if (!Number.isInteger(offset) || Math.abs(offset) > 14 * 60) {
+    throw new Error('The given offset is not a valid timezone offset.');
+  }
+  // Shift the moment by the offset, so that its UTC fields are those of the desired timezone:
+  const shiftedDate = new Date(value.getTime() + offset * 60 * 1000);
+  const milliseconds = shiftedDate.getUTCMilliseconds();
+  const fraction = (milliseconds === 0) ? '' : '.' + padNumber(milliseconds, 3).replace(/0+$/, '');
+  const lexicalValue = formatYear(shiftedDate.getUTCFullYear()) +
+    '-' + padNumber(shiftedDate.getUTCMonth() + 1, 2) +
+    '-' + padNumber(shiftedDate.getUTCDate(), 2) +
+    'T' + padNumber(shiftedDate.getUTCHours(), 2) +
+    ':' + padNumber(shiftedDate.getUTCMinutes(), 2) +
+    ':' + padNumber(shiftedDate.getUTCSeconds(), 2) +
+    fraction +
+    formatTimezoneOffset(offset);
+  return DataFactory.literal(lexicalValue, DataFactory.namedNode(xsd + 'dateTime'));
+}
+function parseTimezoneOffset(timezone: string): number {
+  if (timezone === 'Z') {
+    return 0;
+  }
+  const sign = (timezone.charAt(0) === '-') ? -1 : 1;
+  return sign * (parseInt(timezone.substring(1, 3), 10) * 60 + parseInt(timezone.substring(4, 6), 10));
+}
+function formatTimezoneOffset(offset: number): string {
+  if (offset === 0) {
+    return 'Z';
+  }
+  const absoluteOffset = Math.abs(offset);
+  return (offset < 0 ? '-' : '+') +
+    padNumber(Math.floor(absoluteOffset / 60), 2) + ':' + padNumber(absoluteOffset % 60, 2);
 }
 function fromIntegerLiteral(literal: IntegerLiteral): number {
   return parseInt(literal.value, 10);
@@ -790,10 +2146,240 @@ function fromIntegerLiteral(literal: IntegerLiteral): number {
 function fromDecimalLiteral(literal: DecimalLiteral): number {
   return parseFloat(literal.value);
 }
+/**
+ * Find the Literal in the most preferred language, using RFC 4647 filtering and lookup.
+ *
+ * @see https://tools.ietf.org/html/rfc4647
+ */
+function findPreferredLiteral(
+  literals: Array<LocaleStringLiteral<string>>,
+  languageRanges: string[],
+): LocaleStringLiteral<string> | null {
+  for (const languageRange of languageRanges) {
+    if (languageRange === '*') {
+      if (literals.length > 0) {
+        return literals[0];
+      }
+      continue;
+    }
+    const exactMatch = literals.find(literal => isSameLanguage(literal.language, languageRange));
+    if (typeof exactMatch !== 'undefined') {
+      return exactMatch;
+    }
+    // Basic filtering: a range also matches more specific tags, e.g. `nl` matches `nl-BE`:
+    const filteredMatch = literals.find(
+      literal => literal.language.toLowerCase().startsWith(languageRange.toLowerCase() + '-'),
+    );
+    if (typeof filteredMatch !== 'undefined') {
+      return filteredMatch;
+    }
+    // Lookup: progressively truncate the range, e.g. `zh-Hant-CN` becomes `zh-Hant`, then `zh`:
+    const subtags = languageRange.split('-');
+    for (let length = subtags.length - 1; length > 0; length--) {
+      // A truncated range can not end in a single-character subtag, e.g. the `x` of `x-private`:
+      if (subtags[length - 1].length === 1) {
+        continue;
+      }
+      const truncatedRange = subtags.slice(0, length).join('-');
+      const truncatedMatch = literals.find(literal => isSameLanguage(literal.language, truncatedRange));
+      if (typeof truncatedMatch !== 'undefined') {
+        return truncatedMatch;
+      }
+    }
+  }
+  return null;
+}
+function isSameLanguage(language: string, otherLanguage: string): boolean {
+  // Language tags are case-insensitive:
+  return language.toLowerCase() === otherLanguage.toLowerCase();
+}
 function fromStringLiteral(literal: StringLiteral | LocaleStringLiteral<string>): string {
   return literal.value;
 }
-function fromLiteral(literal: Literal): LiteralTypes {
+const xsd = 'http://www.w3.org/2001/XMLSchema#';
+// Seconds are required by XML Schema, but are often left out in practice:
+const dateTimePattern = /^(-?\d{4,})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const integerPattern = /^[+-]?\d+$/;
+const decimalPattern = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const timePattern = /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+const durationPattern = /^-?P(?!$)(\d+Y)?(\d+M)?(\d+D)?(T(?!$)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+
+function fromBooleanLiteral(literal: BooleanLiteral): boolean {
+  return literal.value === 'true' || literal.value === '1';
+}
+function toBooleanLiteral(value: boolean): Literal {
+  if (typeof value !== 'boolean') {
+    throw new Error('The given value is not a boolean.');
+  }
+  return DataFactory.literal(value.toString(), DataFactory.namedNode(xsd + 'boolean'));
+}
+function fromDateLiteral(literal: DateLiteral): Date {
+  // Dates can be followed by a timezone, which is ignored, since a Date without a time is the
+  // same day in every timezone:
+  const parts = literal.value.match(/^(-?\d+)-(\d{2})-(\d{2})/);
+  if (parts === null) {
+    return new Date(NaN);
+  }
+  const [year, month, day] = parts.slice(1).map(part => parseInt(part, 10));
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date;
+}
+function toDateLiteral(value: Date): Literal {
+  if (value instanceof Date === false || Number.isNaN(value.getTime())) {
+    throw new Error('The given value is not a Date.');
+  }
+  const dateString = [
+    formatYear(value.getUTCFullYear()),
+    padNumber(value.getUTCMonth() + 1, 2),
+    padNumber(value.getUTCDate(), 2),
+  ].join('-');
+  return DataFactory.literal(dateString, DataFactory.namedNode(xsd + 'date'));
+}
+function fromTimeLiteral(literal: TimeLiteral): string {
+  return literal.value;
+}
+function toTimeLiteral(value: string): Literal {
+  if (typeof value !== 'string' || !timePattern.test(value)) {
+    throw new Error('The given value is not a time.');
+  }
+  return DataFactory.literal(value, DataFactory.namedNode(xsd + 'time'));
+}
+function fromDurationLiteral(literal: DurationLiteral): string {
+  return literal.value;
+}
+function toDurationLiteral(value: string): Literal {
+  if (typeof value !== 'string' || !durationPattern.test(value)) {
+    throw new Error('The given value is not a duration.');
+  }
+  return DataFactory.literal(value, DataFactory.namedNode(xsd + 'duration'));
+}
+function fromDoubleLiteral(literal: DoubleLiteral | FloatLiteral): number {
+  if (/^\+?INF$/.test(literal.value)) {
+    return Infinity;
+  }
+  if (literal.value === '-INF') {
+    return -Infinity;
+  }
+  return parseFloat(literal.value);
+}
+function toDoubleLiteral(value: number): Literal {
+  if (typeof value !== 'number') {
+    throw new Error('The given value is not a double.');
+  }
+  return DataFactory.literal(formatFloatingPoint(value), DataFactory.namedNode(xsd + 'double'));
+}
+const fromFloatLiteral = fromDoubleLiteral;
+function toFloatLiteral(value: number): Literal {
+  if (typeof value !== 'number') {
+    throw new Error('The given value is not a float.');
+  }
+  return DataFactory.literal(formatFloatingPoint(value), DataFactory.namedNode(xsd + 'float'));
+}
+/**
+ * Longs beyond ±2^53 are skipped, since they would lose precision as a number, and could then not
+ * be written back.
+ */
+function isSafeLongLiteral<T>(param: T | Literal): param is LongLiteral {
+  return isLongLiteral(param) && integerPattern.test(param.value) && Number.isSafeInteger(parseInt(param.value, 10));
+}
+function fromLongLiteral(literal: LongLiteral): number {
+  return parseInt(literal.value, 10);
+}
+function toLongLiteral(value: number): Literal {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+    throw new Error('The given value is not a long.');
+  }
+  return DataFactory.literal(value.toString(), DataFactory.namedNode(xsd + 'long'));
+}
+function fromYearLiteral(literal: GYearLiteral): number {
+  // Like dates, years can be followed by a timezone, which `parseInt` ignores:
+  return parseInt(literal.value, 10);
+}
+function toYearLiteral(value: number): Literal {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new Error('The given value is not a year.');
+  }
+  return DataFactory.literal(formatYear(value), DataFactory.namedNode(xsd + 'gYear'));
+}
+function fromAnyUriLiteral(literal: AnyUriLiteral): string {
+  return literal.value;
+}
+function toAnyUriLiteral(value: string): Literal {
+  if (typeof value !== 'string') {
+    throw new Error('The given value is not a URI.');
+  }
+  return DataFactory.literal(value, DataFactory.namedNode(xsd + 'anyURI'));
+}
+/**
+ * Integer Literals that can not be parsed (e.g. `"4.2"^^xsd:integer`) are skipped, since there is
+ * no BigInt equivalent of `NaN` to return for them.
+ */
+function isBigIntLiteral<T>(param: T | Literal): param is IntegerLiteral {
+  return isIntegerLiteral(param) && integerPattern.test(param.value);
+}
+function fromBigIntLiteral(literal: IntegerLiteral): bigint {
+  return BigInt(literal.value);
+}
+function toBigIntLiteral(value: bigint): Literal {
+  if (typeof value !== 'bigint') {
+    throw new Error('The given value is not a BigInt.');
+  }
+  return DataFactory.literal(value.toString(), DataFactory.namedNode(xsd + 'integer'));
+}
+function fromDecimalStringLiteral(literal: DecimalLiteral): string {
+  return literal.value;
+}
+function toDecimalStringLiteral(value: string): Literal {
+  if (typeof value !== 'string' || !decimalPattern.test(value)) {
+    throw new Error('The given value is not a decimal.');
+  }
+  return DataFactory.literal(value, DataFactory.namedNode(xsd + 'decimal'));
+}
+function fromTypedLiteral(literal: Literal): string {
+  return literal.value;
+}
+function toTypedLiteral(value: string, datatype: Reference): Literal {
+  if (typeof value !== 'string') {
+    throw new Error('The given value is not a string.');
+  }
+  return DataFactory.literal(value, DataFactory.namedNode(datatype));
+}
+function formatFloatingPoint(value: number): string {
+  if (value === Infinity) {
+    return 'INF';
+  }
+  if (value === -Infinity) {
+    return '-INF';
+  }
+  return value.toString();
+}
+/**
+ * XML Schema requires years to have at least four digits.
+ */
+function formatYear(year: number): string {
+  return (year < 0 ? '-' : '') + padNumber(Math.abs(year), 4);
+}
+function padNumber(value: number, length: number): string {
+  const digits = value.toString();
+  return (digits.length >= length) ? digits : new Array(length - digits.length + 1).join('0') + digits;
+}
+/**
+ * @internal Utility function for other parts of Tripledoc; not part of the public API.
+ */
+export function fromLiteral(literal: Literal): LiteralTypes {
+  // Registered datatypes take precedence, so that their codecs can also override how Tripledoc
+  // parses e.g. `xsd:decimal`:
+  const parse = getDatatypeParser(literal.datatype.value);
+  if (parse !== null) {
+    const value = parse(literal.value);
+    if (!isLiteralValue(value)) {
+      throw new Error(
+        `The codec registered for <${literal.datatype.value}> parsed "${literal.value}" into a value it does not accept.`,
+      );
+    }
+    return value;
+  }
   if (isDateTimeLiteral(literal)) {
     return fromDateTimeLiteral(literal);
   }
@@ -803,21 +2389,39 @@ function fromLiteral(literal: Literal): LiteralTypes {
   if (isDecimalLiteral(literal)) {
     return fromDecimalLiteral(literal);
   }
+  if (isBooleanLiteral(literal)) {
+    return fromBooleanLiteral(literal);
+  }
+  if (isDateLiteral(literal)) {
+    return fromDateLiteral(literal);
+  }
+  if (isDoubleLiteral(literal) || isFloatLiteral(literal)) {
+    return fromDoubleLiteral(literal);
+  }
+  if (isSafeLongLiteral(literal)) {
+    return fromLongLiteral(literal);
+  }
+  if (isGYearLiteral(literal)) {
+    return fromYearLiteral(literal);
+  }
   return literal.value;
 }
+function isLiteralValue(value: unknown): value is LiteralTypes {
+  return typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    value instanceof Date ||
+    isCustomLiteralValue(value);
+}
 function asLiteral(literal: LiteralTypes): Literal {
+  if (typeof literal === 'string') {
+    return DataFactory.literal(literal);
+  }
   if (literal instanceof Date) {
-    // To align with rdflib, we ignore miliseconds:
-    // https://github.com/linkeddata/rdflib.js/blob/d84af88f367b8b5f617c753d8241c5a2035458e8/src/literal.js#L74
-    const roundedDate = new Date(
-      Date.UTC(
-        literal.getUTCFullYear(), literal.getUTCMonth(), literal.getUTCDate(),
-        literal.getUTCHours(), literal.getUTCMinutes(), literal.getUTCSeconds(), 0,
-      ),
-    );
-    // Truncate the `.000Z` at the end (i.e. the miliseconds), to plain `Z`:
-    const rdflibStyleString = roundedDate.toISOString().replace(/\.000Z$/, 'Z');
-    return DataFactory.literal(rdflibStyleString, DataFactory.namedNode('http://www.w3.org/2001/XMLSchema#dateTime'));
+    return toDateTimeLiteral(literal);
+  }
+  if (typeof literal === 'boolean') {
+    return toBooleanLiteral(literal);
   }
   if (typeof literal === 'number' && Number.isInteger(literal)) {
     return DataFactory.literal(literal.toString(), DataFactory.namedNode('http://www.w3.org/2001/XMLSchema#integer'))
@@ -825,5 +2429,10 @@ function asLiteral(literal: LiteralTypes): Literal {
   if (typeof literal === 'number' && !Number.isInteger(literal)) {
     return DataFactory.literal(literal.toString(), DataFactory.namedNode('http://www.w3.org/2001/XMLSchema#decimal'))
   }
-  return DataFactory.literal(literal.toString());
+  // Only values of types Tripledoc does not support itself are stored as custom datatypes:
+  const customLiteral = serialiseCustomLiteral(literal);
+  if (customLiteral !== null) {
+    return DataFactory.literal(customLiteral.lexicalValue, DataFactory.namedNode(customLiteral.datatype));
+  }
+  return DataFactory.literal(String(literal));
 }
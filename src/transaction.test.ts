@@ -0,0 +1,228 @@
+import { Quad } from 'rdf-js';
+import { Response } from 'node-fetch';
+import { fetchDocument, createDocument, createDocumentInContainer } from './document';
+import { saveAll } from './transaction';
+import { SaveAllError, ForbiddenError } from './errors';
+
+const mockDocument = 'https://document.com/';
+const mockDocument2 = 'https://document2.com/';
+const mockNewDocument = 'https://new-document.com/';
+const mockPredicate = 'https://mock-predicate.com/';
+const mockObject = 'https://mock-object.com/';
+const mockObject2 = 'https://mock-object-2.com/';
+
+let mockGetter: jest.Mock;
+let mockUpdater: jest.Mock;
+let mockCreater: jest.Mock;
+let mockHeadResponder: jest.Mock;
+let mockDeleter: jest.Mock;
+jest.mock('./pod', () => {
+  mockGetter = jest.fn((url: string) => Promise.resolve(new Response(`<${url}#subject> <${mockPredicate}> <${mockObject}>.`)));
+  mockUpdater = jest.fn(() => Promise.resolve(new Response()));
+  mockCreater = jest.fn(() => Promise.resolve(new Response()));
+  mockHeadResponder = jest.fn(() => Promise.resolve(new Response()));
+  mockDeleter = jest.fn(() => Promise.resolve(new Response()));
+  return {
+    get: mockGetter,
+    update: mockUpdater,
+    create: mockCreater,
+    head: mockHeadResponder,
+    remove: mockDeleter,
+    createInContainer: jest.fn(() => Promise.resolve(new Response('', {
+      status: 201,
+      headers: { Location: '/container/new-document.ttl' },
+    }))),
+  };
+});
+
+function getObjects(triples: Quad[]) {
+  return triples.map(triple => triple.object.value);
+}
+
+describe('saveAll', () => {
+  it('should save every Document in the given order', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').setRef(mockPredicate, mockObject2);
+    mockTripleDocument2.getSubject('#subject').addRef(mockPredicate, mockObject2);
+
+    const savedDocuments = await saveAll([mockTripleDocument2, mockTripleDocument]);
+
+    expect(mockUpdater.mock.calls.map(call => call[0])).toEqual([mockDocument2, mockDocument]);
+    expect(savedDocuments.map(document => document.asRef())).toEqual([mockDocument2, mockDocument]);
+    expect(savedDocuments[1].getSubject('#subject').getRef(mockPredicate)).toBe(mockObject2);
+  });
+
+  it('should save Documents after the Documents they refer to', async () => {
+    const mockNewTripleDocument = createDocument(mockNewDocument);
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockNewTripleDocument.addSubject({ identifier: 'note' }).addRef(mockPredicate, mockObject);
+    mockTripleDocument.getSubject('#subject').addRef(mockPredicate, mockDocument2 + '#subject');
+    mockTripleDocument2.getSubject('#subject').addRef(mockPredicate, mockNewDocument + '#note');
+
+    const savedDocuments = await saveAll([mockTripleDocument, mockTripleDocument2, mockNewTripleDocument]);
+
+    expect(mockCreater.mock.calls.length).toBe(1);
+    expect(mockUpdater.mock.calls.map(call => call[0])).toEqual([mockDocument2, mockDocument]);
+    expect(mockCreater.mock.invocationCallOrder[0]).toBeLessThan(mockUpdater.mock.invocationCallOrder[0]);
+    // The saved Documents are still returned in the given order:
+    expect(savedDocuments.map(document => document.asRef())).toEqual([mockDocument, mockDocument2, mockNewDocument]);
+  });
+
+  it('should still save Documents that refer to each other', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').addRef(mockPredicate, mockDocument2 + '#subject');
+    mockTripleDocument2.getSubject('#subject').addRef(mockPredicate, mockDocument + '#subject');
+
+    const savedDocuments = await saveAll([mockTripleDocument, mockTripleDocument2]);
+
+    expect(mockUpdater.mock.calls.length).toBe(2);
+    expect(savedDocuments.map(document => document.asRef())).toEqual([mockDocument, mockDocument2]);
+  });
+
+  it('should save Documents that will be created in a Container after the Documents they refer to', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockNewTripleDocument = createDocumentInContainer('https://pod.com/container/');
+    mockNewTripleDocument.addSubject().addRef(mockPredicate, mockDocument + '#subject');
+
+    const savedDocuments = await saveAll([mockNewTripleDocument, mockTripleDocument]);
+
+    expect(mockUpdater.mock.invocationCallOrder[0]).toBeLessThan(mockHeadResponder.mock.invocationCallOrder[0]);
+    expect(savedDocuments[0].asRef()).toBe('https://pod.com/container/new-document.ttl');
+  });
+
+  it('should report the state of Documents in the given order when saving them in a different order', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').addRef(mockPredicate, mockDocument2 + '#subject');
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 500 })));
+
+    const error: SaveAllError = await saveAll([mockTripleDocument, mockTripleDocument2]).catch(e => e);
+
+    expect(error.results.map(result => result.state)).toEqual(['failed', 'rolledBack']);
+    expect(mockUpdater.mock.calls.map(call => call[0])).toEqual([mockDocument2, mockDocument]);
+  });
+
+  it('should revert the changes to saved Documents if another Document could not be saved', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    const mockTripleDocument3 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').setRef(mockPredicate, mockObject2);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('Not allowed', { status: 403 })));
+
+    const error: SaveAllError = await saveAll([mockTripleDocument, mockTripleDocument2, mockTripleDocument3])
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(SaveAllError);
+    expect(error.name).toBe('SaveAllError');
+    expect(error.message).toBe('Saving the Documents failed: Saving the Document failed: 403 Forbidden.');
+    expect(error.cause).toBeInstanceOf(ForbiddenError);
+    expect(error.results).toEqual([
+      { document: mockTripleDocument, state: 'rolledBack' },
+      { document: mockTripleDocument2, state: 'failed', error: error.cause },
+      { document: mockTripleDocument3, state: 'notSaved' },
+    ]);
+
+    expect(mockUpdater.mock.calls.length).toBe(3);
+    expect(mockUpdater.mock.calls[2][0]).toBe(mockDocument);
+    expect(getObjects(mockUpdater.mock.calls[2][1])).toEqual([mockObject2]);
+    expect(getObjects(mockUpdater.mock.calls[2][2])).toEqual([mockObject]);
+    // The passed Documents still contain the changes, so that they can be saved again:
+    expect(mockTripleDocument.hasPendingChanges()).toBe(true);
+  });
+
+  it('should revert in reverse order', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').addRef(mockPredicate, mockObject2);
+    mockTripleDocument2.getSubject('#subject').addRef(mockPredicate, mockObject2);
+    const mockNewTripleDocument = createDocument(mockNewDocument);
+    mockCreater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 500 })));
+
+    await saveAll([mockTripleDocument, mockTripleDocument2, mockNewTripleDocument]).catch(e => e);
+
+    expect(mockUpdater.mock.calls.map(call => call[0]))
+      .toEqual([mockDocument, mockDocument2, mockDocument2, mockDocument]);
+  });
+
+  it('should delete Documents that were created, if another Document could not be saved', async () => {
+    const mockNewTripleDocument = createDocument(mockNewDocument);
+    mockNewTripleDocument.addSubject().addRef(mockPredicate, mockObject);
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 500 })));
+
+    const error: SaveAllError = await saveAll([mockNewTripleDocument, mockTripleDocument]).catch(e => e);
+
+    expect(error.results.map(result => result.state)).toEqual(['rolledBack', 'failed']);
+    expect(mockDeleter.mock.calls.length).toBe(1);
+    expect(mockDeleter.mock.calls[0][0]).toBe(mockNewDocument);
+  });
+
+  it('should not send a request to revert Documents without changes', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 500 })));
+
+    const error: SaveAllError = await saveAll([mockTripleDocument, mockTripleDocument2]).catch(e => e);
+
+    expect(error.results.map(result => result.state)).toEqual(['rolledBack', 'failed']);
+    expect(mockUpdater.mock.calls.length).toBe(2);
+  });
+
+  it('should only revert changes that were actually applied when they were merged', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument, { onConflict: () => ['remote' as const] });
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').setRef(mockPredicate, mockObject2);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 412 })));
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockDocument}#subject> <${mockPredicate}> <https://some-other-object.com/>.`,
+    )));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 500 })));
+
+    const error: SaveAllError = await saveAll([mockTripleDocument, mockTripleDocument2]).catch(e => e);
+
+    // The remote version was kept, so there is nothing to revert:
+    expect(error.results.map(result => result.state)).toEqual(['rolledBack', 'failed']);
+    expect(mockUpdater.mock.calls.length).toBe(3);
+  });
+
+  it('should revert changes to local Subjects, such as the nodes of a list', async () => {
+    mockGetter.mockReturnValueOnce(Promise.resolve(new Response(
+      `<${mockDocument}#subject> <${mockPredicate}> ( <${mockObject}> ).`,
+    )));
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').insertIntoList(mockPredicate, { ref: mockObject2 });
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 500 })));
+
+    await saveAll([mockTripleDocument, mockTripleDocument2]).catch(e => e);
+
+    const [savedDeletions, savedAdditions] = mockUpdater.mock.calls[0].slice(1, 3);
+    const [revertedDeletions, revertedAdditions] = mockUpdater.mock.calls[2].slice(1, 3);
+    expect(revertedDeletions).toEqual(savedAdditions);
+    expect(revertedAdditions).toEqual(savedDeletions);
+  });
+
+  it('should report Documents whose changes could not be reverted', async () => {
+    const mockTripleDocument = await fetchDocument(mockDocument);
+    const mockTripleDocument2 = await fetchDocument(mockDocument2);
+    mockTripleDocument.getSubject('#subject').addRef(mockPredicate, mockObject2);
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response()));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 500 })));
+    mockUpdater.mockReturnValueOnce(Promise.resolve(new Response('', { status: 403 })));
+
+    const error: SaveAllError = await saveAll([mockTripleDocument, mockTripleDocument2]).catch(e => e);
+
+    expect(error.results[0].state).toBe('rollbackFailed');
+    expect(error.results[0].error).toBeInstanceOf(ForbiddenError);
+    expect(error.results[0].savedDocument!.getSubject('#subject').getAllRefs(mockPredicate))
+      .toEqual([mockObject, mockObject2]);
+  });
+});
@@ -0,0 +1,175 @@
+import { Quad } from 'rdf-js';
+import { Reference } from './index';
+import { LocalTripleDocumentForContainer, TripleDocument, isSavedToPod, hasRef } from './document';
+import { SaveAllError } from './errors';
+import { contains, isSameSet, getPropertyTriples, groupBySubject } from './triples';
+
+/**
+ * What happened to a Document passed to [[saveAll]], if not every Document could be saved:
+ *
+ * - `'failed'`: saving its changes failed, so the Pod was not modified.
+ * - `'notSaved'`: saving was aborted before it was this Document's turn.
+ * - `'rolledBack'`: its changes were saved, but have been reverted because another Document could
+ *   not be saved.
+ * - `'rollbackFailed'`: its changes were saved, but reverting them failed, so they are still
+ *   stored on the Pod.
+ */
+export type SaveAllState = 'failed' | 'notSaved' | 'rolledBack' | 'rollbackFailed';
+
+/**
+ * The outcome of saving one of the Documents passed to [[saveAll]].
+ */
+export interface SaveAllResult {
+  /**
+   * The Document as it was passed to [[saveAll]].
+   */
+  document: LocalTripleDocumentForContainer;
+  state: SaveAllState;
+  /**
+   * The saved Document, if its changes are still stored on the Pod (i.e. if [[state]] is
+   * `'rollbackFailed'`).
+   */
+  savedDocument?: TripleDocument;
+  /**
+   * Why saving the Document (if [[state]] is `'failed'`) or reverting its changes (if [[state]] is
+   * `'rollbackFailed'`) failed.
+   */
+  error?: Error;
+};
+
+/**
+ * Save the changes to multiple Documents that depend on each other, e.g. a note and the list of notes it is added to
+ *
+ * The Documents are saved one by one, in dependency order: a Document whose changes refer to
+ * (something in) another Document passed in is saved after that Document, so that it never refers
+ * to a Document that does not exist yet. Documents that do not depend on each other are saved in
+ * the given order. If Documents refer to each other in a cycle, one of them will necessarily be
+ * saved before a Document it refers to.
+ *
+ * If saving one of the Documents fails, the changes to the Documents that were already saved are
+ * reverted (in reverse order), and Documents that were created are deleted again. If reverting
+ * succeeds, the Pod will be in the same state as before, and the Documents you passed in will still
+ * contain your changes, so you can try again. Note that if the Pod supports it, saving an existing
+ * Document again will then result in an [[EditConflictError]], unless it was fetched with the
+ * `onConflict` option.
+ *
+ * @param documents The Documents to save.
+ * @returns The saved Documents, in the order in which they were passed in. If not every Document
+ *          could be saved, this will reject with a [[SaveAllError]] that lists the state every
+ *          Document ended up in.
+ */
+export async function saveAll(documents: LocalTripleDocumentForContainer[]): Promise<TripleDocument[]> {
+  const savedDocuments: TripleDocument[] = [];
+  const savedIndices: number[] = [];
+
+  for (const index of getSaveOrder(documents)) {
+    try {
+      savedDocuments[index] = await documents[index].save();
+      savedIndices.push(index);
+    } catch (e) {
+      const rollbackResults = await rollBack(documents, savedDocuments, savedIndices);
+      const results: SaveAllResult[] = documents.map((otherDocument, otherIndex) => {
+        if (savedIndices.indexOf(otherIndex) !== -1) {
+          return rollbackResults[otherIndex];
+        }
+        if (otherIndex === index) {
+          return { document: otherDocument, state: 'failed', error: e };
+        }
+        return { document: otherDocument, state: 'notSaved' };
+      });
+      throw new SaveAllError(`Saving the Documents failed: ${e.message}`, e, results);
+    }
+  }
+
+  return savedDocuments;
+}
+
+/**
+ * @param documents The Documents passed to [[saveAll]].
+ * @returns The indices of `documents`, ordered such that every Document comes after the Documents
+ *          its pending additions refer to, where possible.
+ */
+function getSaveOrder(documents: LocalTripleDocumentForContainer[]): number[] {
+  const documentRefs = documents.map(document => hasRef(document) ? document.asRef() : null);
+  const dependencies = documents.map((document, index) => getReferredDocumentRefs(document)
+    .map(ref => documentRefs.indexOf(ref))
+    .filter(dependencyIndex => dependencyIndex !== -1 && dependencyIndex !== index));
+
+  const saveOrder: number[] = [];
+  const visitedIndices: number[] = [];
+  const visit = (index: number) => {
+    // Documents that were already visited are either in `saveOrder` already, or part of a cycle:
+    if (visitedIndices.indexOf(index) !== -1) {
+      return;
+    }
+    visitedIndices.push(index);
+    dependencies[index].forEach(visit);
+    saveOrder.push(index);
+  };
+  documents.forEach((_document, index) => visit(index));
+  return saveOrder;
+}
+
+function getReferredDocumentRefs(document: LocalTripleDocumentForContainer): Reference[] {
+  const additions = document.getPendingTriples()[1];
+  return additions
+    .map(triple => triple.object)
+    .filter(object => object.termType === 'NamedNode')
+    .map(object => object.value.split('#')[0]);
+}
+
+async function rollBack(
+  documents: LocalTripleDocumentForContainer[],
+  savedDocuments: TripleDocument[],
+  savedIndices: number[],
+): Promise<SaveAllResult[]> {
+  const results: SaveAllResult[] = [];
+  // Revert in reverse order, so that Documents are never left referring to reverted Documents:
+  for (const index of savedIndices.slice().reverse()) {
+    const document = documents[index];
+    const savedDocument = savedDocuments[index];
+    try {
+      await revertChanges(document, savedDocument);
+      results[index] = { document: document, state: 'rolledBack' };
+    } catch (e) {
+      results[index] = { document: document, state: 'rollbackFailed', savedDocument: savedDocument, error: e };
+    }
+  }
+  return results;
+}
+
+async function revertChanges(document: LocalTripleDocumentForContainer, savedDocument: TripleDocument) {
+  if (!isSavedToPod(document)) {
+    // The Document did not exist before it was saved, so it can simply be deleted again:
+    return savedDocument.delete();
+  }
+
+  // Saving a Document does not clear its pending Triples, so they still describe what was saved:
+  const [deletions, additions] = document.getPendingTriples();
+  const savedTriples = savedDocument.getTriples();
+  const expectedTriples = document.getTriples()
+    .filter(triple => !contains(deletions, triple))
+    .concat(additions);
+  // If the changes were merged with changes made on the Pod in the meantime, some of them might
+  // not have been applied, and values that were removed from the same property on the Pod should
+  // stay removed:
+  const wasModifiedOnPod = (triple: Quad) => !isSameSet(
+    getPropertyTriples(savedTriples, triple),
+    getPropertyTriples(expectedTriples, triple),
+  );
+  const triplesToRemove = additions.filter(triple => contains(savedTriples, triple));
+  const triplesToRestore = deletions
+    .filter(triple => !contains(savedTriples, triple) && !wasModifiedOnPod(triple));
+
+  const changesBySubject = groupBySubject(
+    { deletions: triplesToRemove, additions: triplesToRestore },
+    savedDocument.asRef(),
+  );
+  if (changesBySubject.length === 0) {
+    return;
+  }
+  changesBySubject.forEach(({ subjectRef, changes }) => {
+    savedDocument.getSubject(subjectRef).setPendingTriples([changes.deletions, changes.additions]);
+  });
+  await savedDocument.save();
+}
@@ -0,0 +1,86 @@
+import { DataFactory } from './n3dataset';
+import { toRef, describeTerm, unique, isSameSet, getPropertyTriples, groupBySubject, getTriplesAfterChanges } from './triples';
+
+const { namedNode, literal, triple, blankNode } = DataFactory;
+
+const mockDocument = 'https://document.com/';
+const mockSubject = namedNode('https://document.com/#subject');
+const mockSubject2 = namedNode('https://document.com/#subject2');
+const mockPredicate = namedNode('https://mock-predicate.com/');
+const mockPredicate2 = namedNode('https://mock-predicate-2.com/');
+const mockBlankNode = blankNode('arbitrary-blank-node');
+
+describe('describeTerm', () => {
+  it('should write Terms as they could be written in Turtle', () => {
+    expect(describeTerm(mockSubject)).toBe(`<${mockSubject.value}>`);
+    expect(describeTerm(literal('Some value'))).toBe('"Some value"');
+    expect(describeTerm(mockBlankNode)).toBe('_:arbitrary-blank-node');
+    expect(toRef(mockBlankNode)).toBe('_:arbitrary-blank-node');
+    expect(toRef(mockSubject)).toBe(mockSubject.value);
+  });
+});
+
+describe('unique', () => {
+  it('should remove duplicates, keeping the first occurrence', () => {
+    expect(unique([literal('a'), literal('b'), literal('a')])).toEqual([literal('a'), literal('b')]);
+  });
+});
+
+describe('isSameSet', () => {
+  it('should ignore the order of and duplicate Triples', () => {
+    const triple1 = triple(mockSubject, mockPredicate, literal('a'));
+    const triple2 = triple(mockSubject, mockPredicate, literal('b'));
+
+    expect(isSameSet([triple1, triple2], [triple2, triple1, triple2])).toBe(true);
+    expect(isSameSet([triple1, triple2], [triple1])).toBe(false);
+    expect(isSameSet([triple1], [triple1, triple2])).toBe(false);
+  });
+});
+
+describe('getPropertyTriples', () => {
+  it('should only return Triples with the same Subject and Predicate', () => {
+    const matchingTriple = triple(mockSubject, mockPredicate, literal('a'));
+    const triples = [
+      matchingTriple,
+      triple(mockSubject, mockPredicate2, literal('a')),
+      triple(mockSubject2, mockPredicate, literal('a')),
+    ];
+
+    expect(getPropertyTriples(triples, triple(mockSubject, mockPredicate, literal('b')))).toEqual([matchingTriple]);
+  });
+});
+
+describe('getTriplesAfterChanges', () => {
+  it('should remove deletions and add additions that are not present yet, once', () => {
+    const storedTriple = triple(mockSubject, mockPredicate, literal('Stored value'));
+    const deletedTriple = triple(mockSubject, mockPredicate, literal('Deleted value'));
+    const addedTriple = triple(mockSubject, mockPredicate, literal('Added value'));
+    const cancelledTriple = triple(mockSubject, mockPredicate, literal('Added and deleted value'));
+
+    expect(getTriplesAfterChanges(
+      [storedTriple, deletedTriple],
+      { deletions: [deletedTriple, cancelledTriple], additions: [addedTriple, storedTriple, addedTriple, cancelledTriple] },
+    )).toEqual([storedTriple, addedTriple]);
+  });
+});
+
+describe('groupBySubject', () => {
+  it('should group changes by Subject', () => {
+    const deletion = triple(mockSubject, mockPredicate, literal('Old value'));
+    const addition = triple(mockSubject, mockPredicate, literal('New value'));
+    const otherAddition = triple(mockSubject2, mockPredicate, literal('Other value'));
+
+    expect(groupBySubject({ deletions: [deletion], additions: [addition, otherAddition] }, mockDocument)).toEqual([
+      { subjectRef: mockSubject.value, changes: { deletions: [deletion], additions: [addition] } },
+      { subjectRef: mockSubject2.value, changes: { deletions: [], additions: [otherAddition] } },
+    ]);
+  });
+
+  it('should apply changes to local Subjects through the Document', () => {
+    const addition = triple(mockBlankNode, mockPredicate, literal('Some value'));
+
+    expect(groupBySubject({ deletions: [], additions: [addition] }, mockDocument)).toEqual([
+      { subjectRef: mockDocument, changes: { deletions: [], additions: [addition] } },
+    ]);
+  });
+});
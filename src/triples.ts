@@ -0,0 +1,110 @@
+/**
+ * Utility functions for working with lists of Triples and their Terms, shared by the modules that
+ * compare, re-apply or validate changes to Documents.
+ */
+import { Quad, Term } from 'rdf-js';
+import { Reference, isLiteral } from './index';
+import { Changes } from './merge';
+
+/**
+ * @internal
+ * @returns Whether `items`, e.g. Triples or Terms, includes one equal to `item`.
+ */
+export function contains<T extends { equals: (other: T) => boolean }>(items: T[], item: T): boolean {
+  return items.some(otherItem => otherItem.equals(item));
+}
+
+/**
+ * @internal
+ * @returns `items` without duplicates, e.g. Triples or Terms, in their original order.
+ */
+export function unique<T extends { equals: (other: T) => boolean }>(items: T[]): T[] {
+  return items.filter((item, index) => items.findIndex(otherItem => otherItem.equals(item)) === index);
+}
+
+/**
+ * @internal
+ * @returns The IRI of `node`, or for Blank Nodes, `_:` followed by their identifier.
+ */
+export function toRef(node: Term): Reference {
+  return (node.termType === 'BlankNode') ? '_:' + node.value : node.value;
+}
+
+/**
+ * @internal
+ * @returns `term` as it could be written in Turtle, for use in human-readable messages.
+ */
+export function describeTerm(term: Term): string {
+  if (isLiteral(term)) {
+    return `"${term.value}"`;
+  }
+  return (term.termType === 'BlankNode') ? toRef(term) : `<${term.value}>`;
+}
+
+/**
+ * @internal
+ * @param triples The Triples currently in a Document.
+ * @param changes Changes to apply to them, e.g. the pending changes of its Subjects.
+ * @returns The Triples the Document contains after applying `changes`: `triples`, followed by the
+ *          additions not present yet, without the Triples that are deleted.
+ */
+export function getTriplesAfterChanges(triples: Quad[], changes: Changes): Quad[] {
+  const newTriples = unique(changes.additions).filter(triple => !contains(triples, triple));
+  return triples
+    .concat(newTriples)
+    .filter(triple => !contains(changes.deletions, triple));
+}
+
+/**
+ * @internal
+ * @returns Whether both lists contain the same Triples, regardless of their order and duplicates.
+ */
+export function isSameSet(triples1: Quad[], triples2: Quad[]): boolean {
+  return triples1.every(triple => contains(triples2, triple)) && triples2.every(triple => contains(triples1, triple));
+}
+
+/**
+ * @internal
+ */
+export function isSameProperty(triple1: Quad, triple2: Quad): boolean {
+  return triple1.subject.equals(triple2.subject) && triple1.predicate.equals(triple2.predicate);
+}
+
+/**
+ * @internal
+ * @returns The Triples in `triples` with the same Subject and Predicate as `property`.
+ */
+export function getPropertyTriples(triples: Quad[], property: Quad): Quad[] {
+  return triples.filter(triple => isSameProperty(triple, property));
+}
+
+/**
+ * Split changes to a Document by the Subject through which they can be applied.
+ *
+ * Local Subjects (e.g. the nodes of a list) can not be accessed using `getSubject`, but since
+ * every pending Triple is saved regardless of which Subject it was added to, changes to them are
+ * applied through the Subject representing the Document itself.
+ *
+ * @internal
+ * @param changes The changes to split.
+ * @param documentRef URL of the Document the changes apply to.
+ * @returns For every Subject that can be obtained using `getSubject`, the changes to apply through it.
+ */
+export function groupBySubject(
+  changes: Changes,
+  documentRef: Reference,
+): Array<{ subjectRef: Reference; changes: Changes }> {
+  const getSubjectRef = (triple: Quad) => (triple.subject.termType === 'NamedNode')
+    ? triple.subject.value
+    : documentRef;
+  const subjectRefs = changes.deletions.concat(changes.additions)
+    .map(getSubjectRef)
+    .filter((subjectRef, index, allSubjectRefs) => allSubjectRefs.indexOf(subjectRef) === index);
+  return subjectRefs.map(subjectRef => ({
+    subjectRef: subjectRef,
+    changes: {
+      deletions: changes.deletions.filter(triple => getSubjectRef(triple) === subjectRef),
+      additions: changes.additions.filter(triple => getSubjectRef(triple) === subjectRef),
+    },
+  }));
+}
@@ -65,4 +65,27 @@ describe('triplesToTurtle', () => {
 
     expect(turtle.trim()).toBe('<https://vincentt.inrupt.net/profile/card#me> <http://xmlns.com/foaf/0.1/name> "Vincent".');
   });
+
+  it('should serialise Blank Nodes such that they refer to the same node when parsed', async () => {
+    const blankNode = DataFactory.blankNode();
+    const triples = [
+      DataFactory.triple(
+        DataFactory.namedNode('https://vincentt.inrupt.net/profile/card#me'),
+        DataFactory.namedNode(foaf.based_near),
+        blankNode,
+      ),
+      DataFactory.triple(
+        blankNode,
+        DataFactory.namedNode(foaf.name),
+        DataFactory.literal('Amsterdam'),
+      ),
+    ];
+
+    const turtle = await triplesToTurtle(triples);
+    const [parsedTriple1, parsedTriple2] = await turtleToTriples(turtle, 'https://vincentt.inrupt.net/profile/card');
+
+    expect(parsedTriple1.object.termType).toBe('BlankNode');
+    expect(parsedTriple2.subject).toEqual(parsedTriple1.object);
+    expect(parsedTriple2.object.value).toBe('Amsterdam');
+  });
 });
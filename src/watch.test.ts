@@ -0,0 +1,202 @@
+import { watchResource } from './watch';
+
+const mockWebSocketRef = 'wss://pod.com/';
+const mockResource = 'https://pod.com/some-document.ttl';
+const mockResource2 = 'https://pod.com/some-other-document.ttl';
+
+class MockWebSocket {
+  static OPEN = 1;
+  static instances: MockWebSocket[] = [];
+  readyState = 0;
+  send = jest.fn();
+  close = jest.fn();
+  onopen?: () => void;
+  onmessage?: (event: { data: any }) => void;
+  onclose?: () => void;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  mockOpen() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen!();
+  }
+
+  mockMessage(data: any) {
+    this.onmessage!({ data: data });
+  }
+
+  mockClose() {
+    this.readyState = 3;
+    this.onclose!();
+  }
+}
+
+const originalWebSocket = (window as any).WebSocket;
+beforeEach(() => {
+  MockWebSocket.instances = [];
+  (window as any).WebSocket = MockWebSocket;
+});
+afterEach(() => {
+  (window as any).WebSocket = originalWebSocket;
+});
+
+describe('watchResource', () => {
+  it('should subscribe to the Resource once the connection is opened', () => {
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, jest.fn());
+    const socket = MockWebSocket.instances[0];
+
+    expect(socket.url).toBe(mockWebSocketRef);
+    expect(socket.send.mock.calls.length).toBe(0);
+    socket.mockOpen();
+    expect(socket.send.mock.calls).toEqual([[`sub ${mockResource}`]]);
+
+    unsubscribe();
+  });
+
+  it('should notify subscribers when the Resource is updated', () => {
+    const onUpdate = jest.fn();
+    const onOtherUpdate = jest.fn();
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, onUpdate);
+    const unsubscribeOther = watchResource(mockWebSocketRef, mockResource2, onOtherUpdate);
+    const socket = MockWebSocket.instances[0];
+    socket.mockOpen();
+
+    socket.mockMessage(`ack ${mockResource}`);
+    socket.mockMessage(`pub ${mockResource}`);
+
+    expect(onUpdate.mock.calls.length).toBe(1);
+    expect(onOtherUpdate.mock.calls.length).toBe(0);
+
+    unsubscribe();
+    unsubscribeOther();
+  });
+
+  it('should ignore messages that are not text', () => {
+    const onUpdate = jest.fn();
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, onUpdate);
+    const socket = MockWebSocket.instances[0];
+    socket.mockOpen();
+
+    socket.mockMessage(new ArrayBuffer(8));
+    socket.mockMessage(`pub ${mockResource2}`);
+
+    expect(onUpdate.mock.calls.length).toBe(0);
+
+    unsubscribe();
+  });
+
+  it('should share a single connection between Resources', () => {
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, jest.fn());
+    const socket = MockWebSocket.instances[0];
+    socket.mockOpen();
+    const unsubscribe2 = watchResource(mockWebSocketRef, mockResource2, jest.fn());
+    const unsubscribe3 = watchResource(mockWebSocketRef, mockResource2, jest.fn());
+
+    expect(MockWebSocket.instances.length).toBe(1);
+    expect(socket.send.mock.calls).toEqual([[`sub ${mockResource}`], [`sub ${mockResource2}`]]);
+
+    unsubscribe();
+    unsubscribe();
+    expect(socket.close.mock.calls.length).toBe(0);
+    unsubscribe2();
+    unsubscribe3();
+  });
+
+  it('should only close the connection once nobody is subscribed anymore', () => {
+    const onUpdate = jest.fn();
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, onUpdate);
+    const unsubscribe2 = watchResource(mockWebSocketRef, mockResource, jest.fn());
+    const socket = MockWebSocket.instances[0];
+    socket.mockOpen();
+
+    unsubscribe();
+    // Unsubscribing twice should have no effect:
+    unsubscribe();
+    socket.mockMessage(`pub ${mockResource}`);
+    expect(onUpdate.mock.calls.length).toBe(0);
+    expect(socket.close.mock.calls.length).toBe(0);
+
+    unsubscribe2();
+    expect(socket.close.mock.calls.length).toBe(1);
+
+    watchResource(mockWebSocketRef, mockResource, jest.fn())();
+    expect(MockWebSocket.instances.length).toBe(2);
+  });
+
+  it('should reconnect with increasing delays when the connection is lost', () => {
+    jest.useFakeTimers();
+    const onUpdate = jest.fn();
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, onUpdate);
+    MockWebSocket.instances[0].mockOpen();
+
+    MockWebSocket.instances[0].mockClose();
+    jest.advanceTimersByTime(999);
+    expect(MockWebSocket.instances.length).toBe(1);
+    jest.advanceTimersByTime(1);
+    expect(MockWebSocket.instances.length).toBe(2);
+
+    MockWebSocket.instances[1].mockClose();
+    jest.advanceTimersByTime(1999);
+    expect(MockWebSocket.instances.length).toBe(2);
+    jest.advanceTimersByTime(1);
+    expect(MockWebSocket.instances.length).toBe(3);
+
+    MockWebSocket.instances[2].mockOpen();
+    expect(MockWebSocket.instances[2].send.mock.calls).toEqual([[`sub ${mockResource}`]]);
+    // Updates published while disconnected were missed, so subscribers are notified on reconnecting:
+    expect(onUpdate.mock.calls.length).toBe(1);
+    MockWebSocket.instances[2].mockMessage(`pub ${mockResource}`);
+    expect(onUpdate.mock.calls.length).toBe(2);
+
+    // After a successful reconnection, the delay should be reset:
+    MockWebSocket.instances[2].mockClose();
+    jest.advanceTimersByTime(1000);
+    expect(MockWebSocket.instances.length).toBe(4);
+
+    unsubscribe();
+    jest.useRealTimers();
+  });
+
+  it('should notify every subscriber once after reconnecting, but not after connecting', () => {
+    jest.useFakeTimers();
+    const onUpdate = jest.fn();
+    const onUpdate2 = jest.fn();
+    const onOtherUpdate = jest.fn();
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, onUpdate);
+    const unsubscribe2 = watchResource(mockWebSocketRef, mockResource, onUpdate2);
+    const unsubscribeOther = watchResource(mockWebSocketRef, mockResource2, onOtherUpdate);
+    MockWebSocket.instances[0].mockOpen();
+    expect(onUpdate.mock.calls.length).toBe(0);
+
+    MockWebSocket.instances[0].mockClose();
+    jest.advanceTimersByTime(1000);
+    MockWebSocket.instances[1].mockOpen();
+
+    expect(onUpdate.mock.calls.length).toBe(1);
+    expect(onUpdate2.mock.calls.length).toBe(1);
+    expect(onOtherUpdate.mock.calls.length).toBe(1);
+
+    unsubscribe();
+    unsubscribe2();
+    unsubscribeOther();
+    jest.useRealTimers();
+  });
+
+  it('should not reconnect after unsubscribing', () => {
+    jest.useFakeTimers();
+    const unsubscribe = watchResource(mockWebSocketRef, mockResource, jest.fn());
+    const socket = MockWebSocket.instances[0];
+    socket.mockOpen();
+
+    socket.mockClose();
+    unsubscribe();
+    jest.advanceTimersByTime(60 * 1000);
+    socket.mockClose();
+    jest.advanceTimersByTime(60 * 1000);
+
+    expect(MockWebSocket.instances.length).toBe(1);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,123 @@
+import { Reference } from '.';
+
+/**
+ * Delay before the first attempt to reconnect after losing the connection, in milliseconds.
+ * Every subsequent attempt waits twice as long as the previous one, up to `maxReconnectDelay`.
+ */
+const initialReconnectDelay = 1000;
+const maxReconnectDelay = 60 * 1000;
+
+interface Connection {
+  socket: WebSocket;
+  subscribers: { [resourceRef: string]: Array<() => void> };
+  reconnectAttempts: number;
+  closed: boolean;
+};
+/**
+ * Open connections, by the URL of the WebSocket they are connected to.
+ *
+ * Since Pods usually advertise a single WebSocket per host, this allows every watched Resource on
+ * that host to share a single connection.
+ */
+const connections: { [webSocketRef: string]: Connection } = {};
+
+/**
+ * Get notified whenever a Resource is modified, using the Solid WebSockets API.
+ *
+ * @internal Used to implement [[TripleDocument.subscribe]]; not part of the public API.
+ * @param webSocketRef URL of the WebSocket that publishes updates to the Resource.
+ * @param resourceRef URL of the Resource to watch.
+ * @param onUpdate Function to call whenever the Resource is modified.
+ * @returns Function to call to stop watching the Resource.
+ */
+export function watchResource(webSocketRef: Reference, resourceRef: Reference, onUpdate: () => void) {
+  const connection = connections[webSocketRef] || connect(webSocketRef);
+
+  if (!connection.subscribers[resourceRef]) {
+    connection.subscribers[resourceRef] = [];
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(`sub ${resourceRef}`);
+    }
+  }
+  connection.subscribers[resourceRef].push(onUpdate);
+
+  const unsubscribe = () => {
+    const subscribers = connection.subscribers[resourceRef] || [];
+    const index = subscribers.indexOf(onUpdate);
+    if (index === -1) {
+      return;
+    }
+    subscribers.splice(index, 1);
+    if (subscribers.length === 0) {
+      // The Solid WebSockets API does not support unsubscribing, so we simply stop notifying:
+      delete connection.subscribers[resourceRef];
+    }
+    if (Object.keys(connection.subscribers).length === 0) {
+      connection.closed = true;
+      connection.socket.close();
+      delete connections[webSocketRef];
+    }
+  };
+
+  return unsubscribe;
+}
+
+function connect(webSocketRef: Reference, existingConnection?: Connection): Connection {
+  const socket = new WebSocket(webSocketRef);
+  const connection: Connection = existingConnection || {
+    socket: socket,
+    subscribers: {},
+    reconnectAttempts: 0,
+    closed: false,
+  };
+  connection.socket = socket;
+
+  socket.onopen = () => {
+    connection.reconnectAttempts = 0;
+    Object.keys(connection.subscribers).forEach((resourceRef) => {
+      socket.send(`sub ${resourceRef}`);
+    });
+    if (typeof existingConnection !== 'undefined') {
+      // Updates published while the connection was down have been missed, so notify every
+      // subscriber once to make sure they fetch the latest version. The subscribers are collected
+      // up front, so that they can unsubscribe when notified:
+      Object.keys(connection.subscribers)
+        .map(resourceRef => connection.subscribers[resourceRef])
+        .reduce((subscribersSoFar, subscribers) => subscribersSoFar.concat(subscribers), [])
+        .forEach(onUpdate => onUpdate());
+    }
+  };
+
+  socket.onmessage = (event: MessageEvent) => {
+    const message: string = (typeof event.data === 'string') ? event.data : '';
+    if (message.substring(0, 'pub '.length) !== 'pub ') {
+      return;
+    }
+    const resourceRef = message.substring('pub '.length).trim();
+    // Copy the list of subscribers, so that they can unsubscribe when notified:
+    const subscribers = (connection.subscribers[resourceRef] || []).slice();
+    subscribers.forEach(onUpdate => onUpdate());
+  };
+
+  socket.onclose = () => {
+    if (connection.closed) {
+      return;
+    }
+    const delay = Math.min(
+      initialReconnectDelay * Math.pow(2, connection.reconnectAttempts),
+      maxReconnectDelay,
+    );
+    connection.reconnectAttempts++;
+    setTimeout(
+      () => {
+        if (!connection.closed) {
+          connect(webSocketRef, connection);
+        }
+      },
+      delay,
+    );
+  };
+
+  connections[webSocketRef] = connection;
+  return connection;
+}